@@ -1,18 +1,49 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Chat, GenerateContentResponse } from '@google/genai';
 import { 
-  FoodItem, UserStats, UserProfile, 
-  ChatMessage, ViewType, MealSuggestion, PlaceResult, Category, StorageLocation, ScanResult, Recipe
+  FoodItem, FoodLot, LedgerEvent, UserStats, UserProfile, Household, LocalProfile, SyncStatus, InventoryViewState, InventorySort, ExpiryBand, BulkOperation,
+  ChatMessage, ViewType, MealSuggestion, PlaceResult, Category, StorageLocation, UserLocation, UserCategory, ScanResult, Recipe
 } from './types';
 import * as StorageService from './services/storageService';
 import * as GeminiService from './services/geminiService';
+import * as AiService from './services/aiService';
+import { AiChat, AiLiveSession } from './services/aiProviders';
+import { AiAuthError, describeAiError, toAiError } from './services/aiErrors';
+import * as SyncService from './services/syncService';
+import { startTabSync } from './services/tabSyncService';
+import * as NotificationService from './services/notificationService';
 import ExpiryBadge from './components/ExpiryBadge';
 import ImageUpload from './components/ImageUpload';
+import BackupPanel from './components/BackupPanel';
+import CsvImportWizard from './components/CsvImportWizard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import SyncPanel, { SYNC_STATUS_LABELS } from './components/SyncPanel';
+import RecoveryScreen from './components/RecoveryScreen';
+import NotificationSettingsPanel from './components/NotificationSettingsPanel';
+import CalendarExportPanel from './components/CalendarExportPanel';
+import LocationsPanel from './components/LocationsPanel';
+import CategoriesPanel from './components/CategoriesPanel';
+import BarcodeScanner from './components/BarcodeScanner';
+import ProductCataloguePanel from './components/ProductCataloguePanel';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import LookupCachePanel from './components/LookupCachePanel';
+import BatchVerificationModal from './components/BatchVerificationModal';
+import * as CsvService from './services/csvService';
+import * as CalendarService from './services/calendarService';
+import * as InventoryViewService from './services/inventoryViewService';
+import * as ShelfLifeService from './services/shelfLifeService';
+import * as LotService from './services/lotService';
+import * as LocationService from './services/locationService';
+import * as CategoryService from './services/categoryService';
+import * as LedgerService from './services/ledgerService';
+import * as BarcodeService from './services/barcodeService';
+import * as CatalogueService from './services/catalogueService';
+import * as AiResponseService from './services/aiResponseService';
+import * as LookupCacheService from './services/lookupCacheService';
 import { 
   IconHome, IconList, IconPlus, IconTrash, IconEdit, IconChef,
   IconCheck, IconMic, IconSparkles, 
-  IconChat, IconSend, IconX, IconSearch, IconCamera, IconFire, IconSun, IconMoon, IconLeaf, IconInfo
+  IconChat, IconSend, IconX, IconSearch, IconCamera, IconFire, IconSun, IconMoon, IconLeaf, IconInfo, IconBarcode
 } from './components/Icons';
 
 // --- Base64 Audio Utilities ---
@@ -53,13 +84,104 @@ async function decodeAudioData(
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewType>('welcome');
-  const [user, setUser] = useState<UserProfile | null>(StorageService.getUserProfile());
-  const [inventory, setInventory] = useState<FoodItem[]>(StorageService.getInventory());
-  const [stats, setStats] = useState<UserStats>(StorageService.getStats());
+  const [user, setUser] = useState<UserProfile | null>(null);
+  const [household, setHousehold] = useState<Household | null>(null);
+  // Registry id of the signed-in profile; two profiles can share an email
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [inventory, setInventory] = useState<FoodItem[]>([]);
+  const [locations, setLocations] = useState<UserLocation[]>(StorageService.DEFAULT_LOCATIONS);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [stats, setStats] = useState<UserStats>(StorageService.getDefaultStats());
+  const [isLoaded, setIsLoaded] = useState(false);
   const [notification, setNotification] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
   const [hasApiKey, setHasApiKey] = useState(false);
   const [isNeuralSyncEnabled, setIsNeuralSyncEnabled] = useState(true);
   const [showOnboarding, setShowOnboarding] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('disabled');
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [showRecovery, setShowRecovery] = useState(false);
+  // Set when reading stored data failed outright; shown on the recovery screen
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Item a notification asked to show; opened with ?item= when the app was closed
+  const [focusItemId, setFocusItemId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('item'));
+
+  const loadPersisted = async () => {
+    try {
+      const [profile, activeProfile, activeHousehold, items, layout, catalog, persistedStats] = await Promise.all([
+        StorageService.getUserProfile(),
+        StorageService.getActiveProfile(),
+        StorageService.getActiveHousehold(),
+        StorageService.getInventory(),
+        StorageService.getLocations(),
+        StorageService.getCategories(),
+        // Re-derive from the ledger so formula changes apply to past events
+        StorageService.rebuildStats()
+      ]);
+      setUser(profile);
+      setProfileId(activeProfile?.id ?? null);
+      setHousehold(activeHousehold);
+      // Read last: the loads above are what move damaged entries into quarantine
+      setQuarantinedCount((await StorageService.getQuarantine()).length);
+      setInventory(items);
+      setLocations(layout);
+      setCategories(catalog);
+      setStats(persistedStats);
+      setLoadError(null);
+    } catch (error: any) {
+      // Never leave the spinner up: the recovery screen can retry or repair
+      console.error("Data Load Failure:", error);
+      setLoadError(error?.message || String(error));
+      setShowRecovery(true);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    loadPersisted();
+    if (focusItemId) {
+      window.history.replaceState(null, '', window.location.pathname);
+      setView('inventory');
+    }
+  }, []);
+
+  // Installs without a registry run in the default scope
+  const profileScope = user ? profileId ?? StorageService.DEFAULT_SCOPE : null;
+
+  // Sync state lives per household, so restart whenever the signed-in scope changes
+  useEffect(() => {
+    if (!profileScope) return;
+    const stopSync = SyncService.startSync();
+    const offRemote = SyncService.onRemoteChanges(() => loadPersisted());
+    const offStatus = SyncService.subscribeSyncStatus(next => setSyncStatus(next));
+    return () => { stopSync(); offRemote(); offStatus(); };
+  }, [profileScope, household?.id]);
+
+  // Mirror writes made in other open tabs. Stats are read, not rebuilt: the
+  // writing tab already derived and stored them.
+  useEffect(() => {
+    if (!profileScope) return;
+    return startTabSync(async (entities) => {
+      if (entities.has('remote')) return loadPersisted();
+      if (entities.has('user')) {
+        const profile = await StorageService.getUserProfile();
+        if (profile) setUser(profile);
+      }
+      if (entities.has('inventory')) setInventory(await StorageService.getInventory());
+      if (entities.has('locations')) setLocations(await StorageService.getLocations());
+      if (entities.has('categories')) setCategories(await StorageService.getCategories());
+      if (entities.has('stats') || entities.has('ledger')) setStats(await StorageService.getStats());
+    });
+  }, [profileScope, household?.id]);
+
+  // Alerts are per profile and read the active household's inventory
+  useEffect(() => {
+    if (!profileScope) return;
+    return NotificationService.startNotificationScheduler(itemId => {
+      setFocusItemId(itemId);
+      setView('inventory');
+    });
+  }, [profileScope, household?.id]);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -105,38 +227,91 @@ const App: React.FC = () => {
     return false;
   };
 
-  const handleAddFood = (item: FoodItem) => {
-    const updated = StorageService.addFoodItem(item);
+  const handleAddFood = async (item: FoodItem) => {
+    const joined = LotService.findLotTarget(inventory, item);
+    const updated = await StorageService.addFoodItem(item);
     setInventory(updated);
     setView('inventory');
-    const msg = user?.isGamified 
+    if (item.barcode) CatalogueService.rememberProduct(item).catch(e => console.error("Catalogue Update Failed:", e));
+    const where = LocationService.findLocation(locations, item.storageLocation).name;
+    const msg = joined
+      ? `Added a new lot to ${joined.name} in the ${where}.`
+      : user?.isGamified 
       ? `Captured ${item.name}! Added to loot.` 
-      : `Logged ${item.name} to ${item.storageLocation} Vault.`;
+      : `Logged ${item.name} to ${where} Vault.`;
     setNotification({ message: msg, type: 'success' });
   };
 
-  const handleUpdateFood = (item: FoodItem) => {
-    const updated = StorageService.updateFoodItem(item);
-    setInventory(updated);
-    setNotification({ message: `System updated: ${item.name}`, type: 'success' });
+  // A shelf scan's items in one write, each still joining a lot already on the
+  // shelf. Failures reach the caller, which keeps its review open to retry.
+  const handleAddFoods = async (items: FoodItem[]) => {
+    setInventory(await StorageService.addFoodItemsJoiningLots(items));
+    setView('inventory');
+    setNotification({ message: user?.isGamified ? `Captured ${items.length} items! Added to loot.` : `Logged ${items.length} items to the Vault.`, type: 'success' });
+  };
+
+  // Another tab changed the item first: show its version rather than overwrite
+  // it. Handlers run from click events, so any other failure ends here too.
+  const handleWriteError = async (error: unknown) => {
+    if (!(error instanceof StorageService.ConcurrentWriteError)) {
+      console.error("Item Write Failure:", error);
+      setNotification({ message: 'The change could not be saved. Try again.', type: 'error' });
+      return;
+    }
+    try {
+      setInventory(await StorageService.getInventory());
+    } catch (e) {
+      console.error("Inventory Reload Failure:", e);
+    }
+    setNotification({ message: `${error.itemName} was changed in another tab. Reloaded — please try again.`, type: 'error' });
   };
 
-  const handleAction = (item: FoodItem, action: 'consumed' | 'tossed' | 'composted') => {
-    StorageService.updateStatsForAction(item, action);
-    StorageService.removeFoodItem(item.id);
-    setInventory(StorageService.getInventory());
-    setStats(StorageService.getStats());
+  // `base` is the item as the editor opened it, so a change made meanwhile is caught
+  const handleUpdateFood = async (item: FoodItem, base: FoodItem): Promise<boolean> => {
+    try {
+      const updated = await StorageService.updateFoodItem(item, base);
+      setInventory(updated);
+      setNotification({ message: `System updated: ${item.name}`, type: 'success' });
+      return true;
+    } catch (error) {
+      await handleWriteError(error);
+      return false;
+    }
+  };
+
+  const handleOpen = async (item: FoodItem) => {
+    const opened = { ...item, openedDate: ShelfLifeService.toDateString(new Date()) };
+    try {
+      setInventory(await StorageService.updateFoodItem(opened, item));
+      const rule = ShelfLifeService.getOpenedRule(item.name, item.category);
+      setNotification({ message: `Opened ${item.name}. ${rule.source} keeps about ${rule.days} days once open.`, type: 'info' });
+    } catch (error) {
+      await handleWriteError(error);
+    }
+  };
+
+  const handleAction = async (item: FoodItem, action: 'consumed' | 'tossed' | 'composted', amount?: number) => {
+    let result: Awaited<ReturnType<typeof StorageService.applyItemAction>>;
+    try {
+      result = await StorageService.applyItemAction(item, action, amount);
+    } catch (error) {
+      return handleWriteError(error);
+    }
+    setStats(result.stats);
+    setInventory(result.inventory);
     
+    const label = result.remaining > 0 ? `${result.used} ${item.unit} of ${item.name}` : item.name;
     let msg = "";
     if (user?.isGamified) {
-      if (action === 'consumed') msg = `Level Up! You saved ${item.name}! 🌟`;
-      else if (action === 'composted') msg = `Eco-Power! ${item.name} returned to nature. 🍃`;
-      else msg = `${item.name} lost to the void. 💀`;
+      if (action === 'consumed') msg = `Level Up! You saved ${label}! 🌟`;
+      else if (action === 'composted') msg = `Eco-Power! ${label} returned to nature. 🍃`;
+      else msg = `${label} lost to the void. 💀`;
     } else {
-      if (action === 'consumed') msg = `Rescued ${item.name}! Value added to stats.`;
-      else if (action === 'composted') msg = `Asset ${item.name} recycled as biological compost.`;
-      else msg = `${item.name} discarded. System updated.`;
+      if (action === 'consumed') msg = `Rescued ${label}! Value added to stats.`;
+      else if (action === 'composted') msg = `Asset ${label} recycled as biological compost.`;
+      else msg = `${label} discarded. System updated.`;
     }
+    if (result.remaining > 0) msg += ` ${result.remaining} ${item.unit} left.`;
 
     setNotification({ 
       message: msg, 
@@ -144,20 +319,103 @@ const App: React.FC = () => {
     });
   };
 
-  const handleSkipOnboarding = (neverShowAgain: boolean) => {
+  const handleBulk = async (items: FoodItem[], op: BulkOperation): Promise<boolean> => {
+    const count = `${items.length} ${items.length === 1 ? 'item' : 'items'}`;
+    try {
+      if (op.kind === 'consumed' || op.kind === 'tossed' || op.kind === 'composted') {
+        const result = await StorageService.applyBulkAction(items, op.kind);
+        setStats(result.stats);
+        setInventory(result.inventory);
+        const value = items.reduce((sum, i) => sum + (i.estimatedPrice || 0) * (i.quantity || 1), 0).toFixed(2);
+        const messages = user?.isGamified
+          ? { consumed: `Combo! You saved ${count} worth $${value}! 🌟`, composted: `Eco-Power! ${count} returned to nature. 🍃`, tossed: `${count} lost to the void. 💀` }
+          : { consumed: `Rescued ${count} worth $${value}.`, composted: `${count} recycled as compost.`, tossed: `${count} discarded ($${value}).` };
+        setNotification({ message: messages[op.kind], type: op.kind === 'tossed' ? 'info' : 'success' });
+      } else if (op.kind === 'move') {
+        const target = LocationService.findLocation(locations, op.location);
+        const moving = items.filter(i => i.storageLocation !== op.location);
+        const moved = moving.map(i => LotService.moveLots(i, LocationService.findLocation(locations, i.storageLocation), target));
+        setInventory(await StorageService.updateFoodItems(moved, moving));
+        setNotification({ message: `Moved ${count} to the ${target.name}. Expiry dates adjusted.`, type: 'success' });
+      } else if (op.kind === 'category') {
+        const value = op.customCategory ?? op.category;
+        const changing = items.filter(i => CategoryService.categoryValue(categories, i) !== value);
+        setInventory(await StorageService.updateFoodItems(changing.map(i => CategoryService.withCategory(i, categories, value)), changing));
+        setNotification({ message: `Set ${count} to ${CategoryService.categoryLabel(categories, op)}.`, type: 'success' });
+      } else {
+        setInventory(await StorageService.removeFoodItems(items));
+        setNotification({ message: `Deleted ${count}.`, type: 'info' });
+      }
+      return true;
+    } catch (error) {
+      await handleWriteError(error);
+      if (error instanceof StorageService.ConcurrentWriteError) {
+        setNotification({ message: 'Some of these items were changed elsewhere, so nothing was applied. Check them and try again.', type: 'error' });
+      }
+      return false;
+    }
+  };
+
+  const handleSkipOnboarding = async (neverShowAgain: boolean) => {
     setShowOnboarding(false);
     if (neverShowAgain && user) {
-      const updated = StorageService.updateProfile({ hasSeenOnboarding: true });
+      const updated = await StorageService.updateProfile({ hasSeenOnboarding: true });
       if (updated) setUser(updated);
     }
   };
 
+  const resetSession = () => {
+    setUser(null);
+    setHousehold(null);
+    setInventory([]);
+    setStats(StorageService.getDefaultStats());
+    setView('welcome');
+  };
+
+  // Logging out keeps the profile's data on the device for next time
+  const handleLogout = async () => {
+    await StorageService.signOut();
+    resetSession();
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!window.confirm('Delete this profile and its data from this device? Shared households stay for their other members.')) return;
+    await StorageService.clearUserProfile();
+    resetSession();
+  };
+
+  const enterProfile = async (signIn: () => Promise<unknown>) => {
+    await signIn();
+    await loadPersisted();
+    setView(focusItemId ? 'inventory' : 'home');
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" role="status" aria-label="Loading"></div>
+      </div>
+    );
+  }
+
+  const recoveryScreen = showRecovery && (
+    <RecoveryScreen user={user} loadError={loadError} onChanged={loadPersisted} onClose={() => setShowRecovery(false)} />
+  );
+
   if (!user || view === 'welcome') {
-    return <WelcomeView 
-      hasApiKey={hasApiKey}
-      onKeySelected={() => setHasApiKey(true)}
-      onComplete={(data) => { setUser(StorageService.saveUserProfile(data)); setView('home'); }} 
-    />;
+    return (
+      <>
+        <WelcomeView 
+          hasApiKey={hasApiKey}
+          onKeySelected={() => setHasApiKey(true)}
+          onComplete={(data) => enterProfile(() => StorageService.signIn(data))}
+          onPickProfile={(id) => enterProfile(() => StorageService.switchProfile(id))}
+          damagedCount={quarantinedCount}
+          onReviewDamaged={() => setShowRecovery(true)}
+        />
+        {recoveryScreen}
+      </>
+    );
   }
 
   const NavItem = ({ v, icon: Icon, label, gamifiedLabel }: { v: ViewType, icon: any, label: string, gamifiedLabel: string }) => (
@@ -181,6 +439,12 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold tracking-tight">{user.isGamified ? 'Fridge Hero' : 'Fridgeometer'}</h1>
           </div>
           <div className="flex items-center gap-4">
+             {syncStatus !== 'disabled' && (
+               <span title={SYNC_STATUS_LABELS[syncStatus]} className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400">
+                 <span className={`w-2 h-2 rounded-full ${syncStatus === 'idle' ? 'bg-emerald-500' : syncStatus === 'syncing' ? 'bg-blue-500 animate-pulse' : syncStatus === 'offline' ? 'bg-amber-500' : 'bg-red-500'}`}></span>
+                 <span className="hidden sm:inline">{SYNC_STATUS_LABELS[syncStatus]}</span>
+               </span>
+             )}
              <button 
                onClick={() => setIsNeuralSyncEnabled(!isNeuralSyncEnabled)}
                className={`p-2 rounded-full transition-all flex items-center gap-2 border bouncy ${isNeuralSyncEnabled ? (user.isGamified ? 'bg-violet-100 border-violet-200 text-violet-700 dark:bg-violet-900/30 dark:border-violet-800' : 'bg-emerald-100 border-emerald-200 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-800') : 'bg-slate-100 border-slate-200 text-slate-400 dark:bg-slate-800 dark:border-slate-700'}`}
@@ -189,9 +453,9 @@ const App: React.FC = () => {
                <span className="text-[10px] font-black uppercase hidden sm:inline">{isNeuralSyncEnabled ? (user.isGamified ? 'Magic Voice Active' : 'Neural Sync Active') : 'Mic Muted'}</span>
              </button>
              <button 
-               onClick={() => {
+               onClick={async () => {
                  const newTheme = user.theme === 'light' ? 'dark' : 'light';
-                 const updated = StorageService.updateProfile({ theme: newTheme });
+                 const updated = await StorageService.updateProfile({ theme: newTheme });
                  if(updated) setUser(updated);
                }}
                className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
@@ -200,7 +464,7 @@ const App: React.FC = () => {
              </button>
              <button onClick={() => setView('profile')} className="flex items-center gap-3 p-2 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-full transition-all">
               <div className="text-right hidden sm:block">
-                <p className="text-xs font-bold">{user.name}</p>
+                <p className="text-xs font-bold">{user.name}{household && <span className="text-slate-400 font-medium"> • {household.name}</span>}</p>
                 <p className={`text-[10px] ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} font-bold`}>{user.isGamified ? `Hero Level ${stats.level}` : `Rank ${stats.level}`}</p>
               </div>
               <div className={`w-10 h-10 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-full flex items-center justify-center font-bold`}>{user.name[0]}</div>
@@ -218,17 +482,24 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {recoveryScreen}
+
       <main className="max-w-6xl mx-auto p-6 animate-in fade-in duration-500">
+        {quarantinedCount > 0 && (
+          <button onClick={() => setShowRecovery(true)} className="w-full mb-6 px-6 py-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900/40 text-amber-700 dark:text-amber-400 rounded-2xl text-xs font-bold text-left">
+            {quarantinedCount} damaged {quarantinedCount === 1 ? 'entry was' : 'entries were'} set aside so the app could keep working. Review
+          </button>
+        )}
         {(() => {
           switch(view) {
-            case 'home': return <DashboardView stats={stats} user={user} inventory={inventory} />;
-            case 'inventory': return <InventoryView items={inventory} onRefresh={() => setInventory(StorageService.getInventory())} user={user} onAdd={handleAddFood} onUpdate={handleUpdateFood} onError={(m) => setNotification({ message: m, type: 'error' })} onKeyPrompt={handleApiKeyPrompt} onAction={handleAction} />;
-            case 'scanner': return <ScannerView user={user} onAdd={handleAddFood} onError={(msg) => setNotification({ message: msg, type: 'error' })} isNeuralSyncEnabled={isNeuralSyncEnabled} onKeyPrompt={handleApiKeyPrompt} />;
+            case 'home': return <DashboardView stats={stats} user={user} inventory={inventory} categories={categories} />;
+            case 'inventory': return <InventoryView items={inventory} locations={locations} categories={categories} onRefresh={() => StorageService.getInventory().then(setInventory)} user={user} onAdd={handleAddFood} onAddMany={handleAddFoods} onUpdate={handleUpdateFood} onError={(m) => setNotification({ message: m, type: 'error' })} onKeyPrompt={handleApiKeyPrompt} onAction={handleAction} onOpen={handleOpen} onBulk={handleBulk} focusItemId={focusItemId} onFocused={() => setFocusItemId(null)} />;
+            case 'scanner': return <ScannerView user={user} locations={locations} onAdd={handleAddFood} onError={(msg) => setNotification({ message: msg, type: 'error' })} isNeuralSyncEnabled={isNeuralSyncEnabled} onKeyPrompt={handleApiKeyPrompt} />;
             case 'recipes': return <RecipesView inventory={inventory} user={user} />;
             case 'chat': return <ChatHub user={user} />;
-            case 'profile': return <ProfileHub user={user} onUpdate={(u) => setUser(u)} onLogout={() => { StorageService.clearUserProfile(); setUser(null); setView('welcome'); }} />;
-            case 'add': return <AddAssetView user={user} onCancel={() => setView('inventory')} onAdd={handleAddFood} onKeyPrompt={handleApiKeyPrompt} />;
-            default: return <DashboardView stats={stats} user={user} inventory={inventory} />;
+            case 'profile': return <ProfileHub user={user} locations={locations} onLocationsChanged={(next, items) => { setLocations(next); if (items) setInventory(items); }} categories={categories} onCategoriesChanged={(next, items) => { setCategories(next); if (items) setInventory(items); }} onUpdate={(u) => setUser(u)} onLogout={handleLogout} onDeleteProfile={handleDeleteProfile} onImported={async (m) => { await loadPersisted(); setNotification({ message: m, type: 'success' }); }} onSwitched={async (m) => { await loadPersisted(); setNotification({ message: m, type: 'info' }); }} />;
+            case 'add': return <AddAssetView user={user} locations={locations} categories={categories} onCancel={() => setView('inventory')} onAdd={handleAddFood} onKeyPrompt={handleApiKeyPrompt} />;
+            default: return <DashboardView stats={stats} user={user} inventory={inventory} categories={categories} />;
           }
         })()}
       </main>
@@ -305,7 +576,15 @@ const LoginWelcomeModal: React.FC<{ onDismiss: (neverShowAgain: boolean) => void
 };
 
 // --- Dashboard View ---
-const DashboardView: React.FC<{ stats: UserStats, user: UserProfile, inventory: FoodItem[] }> = ({ stats, user, inventory }) => {
+const DashboardView: React.FC<{ stats: UserStats, user: UserProfile, inventory: FoodItem[], categories: UserCategory[] }> = ({ stats, user, inventory, categories }) => {
+  const [ledger, setLedger] = useState<LedgerEvent[]>([]);
+  // Stats change whenever an event is written, so they double as the ledger's version
+  useEffect(() => {
+    StorageService.getLedger().then(setLedger);
+  }, [stats]);
+  const byCategory = LedgerService.deriveBreakdown(ledger, item => [CategoryService.categoryLabel(categories, item)]);
+  const byTag = LedgerService.deriveBreakdown(ledger, item => item.tags ?? []);
+
   const healthyCount = inventory.filter(i => i.category === 'Produce' || i.category === 'Grains').length;
   const healthScore = Math.round((healthyCount / (inventory.length || 1)) * 100);
   const xpNeeded = 300;
@@ -435,6 +714,34 @@ const DashboardView: React.FC<{ stats: UserStats, user: UserProfile, inventory:
         </div>
       </div>
 
+      {byCategory.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {[{ title: 'By Category', rows: byCategory, prefix: '' }, { title: 'By Tag', rows: byTag, prefix: '#' }].filter(b => b.rows.length > 0).map(breakdown => (
+            <div key={breakdown.title} className={`bg-white dark:bg-slate-800 p-8 ${user.isGamified ? 'rounded-blob' : 'rounded-[2rem]'} shadow-sm border border-slate-100 dark:border-slate-700 space-y-4 text-left`}>
+              <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-50 dark:border-slate-700 pb-2">{breakdown.title}</h3>
+              <ul className="space-y-3">
+                {breakdown.rows.slice(0, 8).map(row => {
+                  const total = row.rescued + row.composted + row.wasted;
+                  return (
+                    <li key={row.key} className="space-y-1">
+                      <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                        <span>{breakdown.prefix}{row.key}</span>
+                        <span className="text-slate-400">{row.rescued} rescued • {row.wasted} wasted{row.wastedValue > 0 ? ` ($${row.wastedValue.toFixed(2)})` : ''}</span>
+                      </div>
+                      <div className="h-2 w-full bg-slate-50 dark:bg-slate-900 rounded-full overflow-hidden flex">
+                        <div className="h-full bg-emerald-500" style={{ width: `${(row.rescued / total) * 100}%` }}></div>
+                        <div className="h-full bg-indigo-500" style={{ width: `${(row.composted / total) * 100}%` }}></div>
+                        <div className="h-full bg-rose-500" style={{ width: `${(row.wasted / total) * 100}%` }}></div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <div className={`bg-white dark:bg-slate-800 p-8 ${user.isGamified ? 'rounded-blob' : 'rounded-[2rem]'} shadow-sm border border-slate-100 dark:border-slate-700 space-y-4 text-center hover:scale-[1.02] transition-transform`}>
           <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">{user.isGamified ? 'Loot Freshness' : 'Health-Score'}</p>
@@ -466,50 +773,205 @@ const DashboardView: React.FC<{ stats: UserStats, user: UserProfile, inventory:
 // --- Inventory View ---
 const InventoryView: React.FC<{ 
   items: FoodItem[], 
+  locations: UserLocation[],
+  categories: UserCategory[],
   onRefresh: () => void, 
   user: UserProfile, 
   onAdd: (i: FoodItem) => void, 
-  onUpdate: (i: FoodItem) => void,
+  onAddMany: (items: FoodItem[]) => Promise<void>,
+  onUpdate: (i: FoodItem, base: FoodItem) => Promise<boolean>,
   onError: (m: string) => void, 
   onKeyPrompt: () => Promise<boolean>,
-  onAction: (item: FoodItem, action: 'consumed' | 'tossed' | 'composted') => void
-}> = ({ items, onRefresh, user, onAdd, onUpdate, onError, onKeyPrompt, onAction }) => {
+  onAction: (item: FoodItem, action: 'consumed' | 'tossed' | 'composted', amount?: number) => void,
+  onOpen: (item: FoodItem) => void,
+  onBulk: (items: FoodItem[], op: BulkOperation) => Promise<boolean>,
+  focusItemId?: string | null,
+  onFocused?: () => void
+}> = ({ items, locations, categories, onRefresh, user, onAdd, onAddMany, onUpdate, onError, onKeyPrompt, onAction, onOpen, onBulk, focusItemId, onFocused }) => {
   const [isOpen, setIsOpen] = useState(true);
-  const [activeTab, setActiveTab] = useState<StorageLocation>('Fridge');
+  const [viewState, setViewState] = useState<InventoryViewState>(InventoryViewService.DEFAULT_INVENTORY_VIEW);
+  const [viewLoaded, setViewLoaded] = useState(false);
   const [showAddMenu, setShowAddMenu] = useState(false);
   const [manualEntry, setManualEntry] = useState(false);
+  const [csvImport, setCsvImport] = useState(false);
+  const [barcodeScan, setBarcodeScan] = useState(false);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  const [shelfScan, setShelfScan] = useState<{ image: string, results: ScanResult[] } | null>(null);
   const [editingItem, setEditingItem] = useState<FoodItem | null>(null);
-  const [loadingScan, setLoadingScan] = useState(false);
+  const [loadingScan, setLoadingScan] = useState<'label' | 'shelf' | null>(null);
+  // Aborted when the add menu closes, so a scan nobody is waiting for stops
+  const scanAbort = useRef<AbortController | null>(null);
+  // An unknown barcode is identified after the menu has closed, so it gets its
+  // own controller and progress banner
+  const barcodeAbort = useRef<AbortController | null>(null);
+  const [identifying, setIdentifying] = useState<string | null>(null);
+  // Amount each card's action buttons apply to; defaults to the whole item
+  const [actionAmounts, setActionAmounts] = useState<Record<string, number>>({});
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    InventoryViewService.getInventoryViewState().then(state => {
+      setViewState(state);
+      setViewLoaded(true);
+    });
+    return () => {
+      scanAbort.current?.abort();
+      barcodeAbort.current?.abort();
+    };
+  }, []);
+
+  const closeAddMenu = () => {
+    scanAbort.current?.abort();
+    setShowAddMenu(false);
+  };
+
+  const updateView = (patch: Partial<InventoryViewState>) => {
+    const next = { ...viewState, ...patch };
+    setViewState(next);
+    InventoryViewService.saveInventoryViewState(next);
+  };
 
-  const filtered = items.filter(i => i.storageLocation === activeTab);
+  // Opened from a notification: show the item's shelf, scroll to it and flash it.
+  // Filters are cleared so they cannot hide it.
+  useEffect(() => {
+    if (!focusItemId || !viewLoaded) return;
+    const target = items.find(i => i.id === focusItemId);
+    if (!target) {
+      onFocused?.();
+      onError('That item is no longer in your inventory.');
+      return;
+    }
+    setIsOpen(true);
+    updateView({ location: LocationService.resolveLocationId(locations, target.storageLocation), search: '', categories: [], tags: [], bands: [], mouldOnly: false });
+    setHighlightId(target.id);
+    const scroll = setTimeout(() => document.getElementById(`item-${target.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
+    const clear = setTimeout(() => { setHighlightId(null); onFocused?.(); }, 4000);
+    return () => { clearTimeout(scroll); clearTimeout(clear); };
+  }, [focusItemId, viewLoaded]);
+
+  // The saved tab may have been deleted, possibly on another device
+  const activeLocation = LocationService.findLocation(locations, LocationService.resolveLocationId(locations, viewState.location));
+  const groups = InventoryViewService.queryInventory(items, { ...viewState, location: activeLocation.id }, locations, categories);
+  const tagsInUse = CategoryService.collectTags(items);
+  const filtering = InventoryViewService.isFiltered(viewState);
+  const toggleIn = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  // Items used or removed elsewhere drop out of the selection on their own
+  const selected = items.filter(i => selectedIds.includes(i.id));
+  const inLocation = items.filter(i => LocationService.resolveLocationId(locations, i.storageLocation) === activeLocation.id);
+  const toggleSelected = (id: string) => setSelectedIds(p => toggleIn(p, id));
+  const endSelection = () => { setSelecting(false); setSelectedIds([]); };
+  const runBulk = async (op: BulkOperation) => {
+    if (selected.length === 0) return;
+    if (op.kind === 'delete' && !window.confirm(`Delete ${selected.length} ${selected.length === 1 ? 'item' : 'items'} without recording them as used or wasted?`)) return;
+    if (await onBulk(selected, op)) endSelection();
+  };
+  const bulkSelectClass = "bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-[9px] font-black uppercase tracking-widest";
+
+  const chipClass = (active: boolean) => `px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border transition-colors bouncy ${active
+    ? (user.isGamified ? 'bg-violet-600 text-white border-violet-600' : 'bg-emerald-600 text-white border-emerald-600')
+    : 'bg-white dark:bg-slate-800 text-slate-400 border-slate-100 dark:border-slate-700'}`;
+
+  const amountFor = (item: FoodItem) => Math.min(actionAmounts[item.id] ?? item.quantity, item.quantity);
+  // One press moves a tenth of a kilo or litre, a gram or millilitre, or half of
+  // anything counted; that is also the least the stepper goes down to
+  const amountStep = (item: FoodItem) => /^(kg|l|lb)$/i.test(item.unit.trim()) ? 0.1 : /^(g|ml|cl|oz)$/i.test(item.unit.trim()) ? 1 : 0.5;
+  const minAmount = (item: FoodItem) => Math.min(amountStep(item), item.quantity);
+  const stepAmount = (item: FoodItem, direction: 1 | -1) => {
+    const step = amountStep(item);
+    // Snapped to the step so repeated tenths do not drift
+    const snapped = Number((Math.round((amountFor(item) + direction * step) / step) * step).toFixed(2));
+    setActionAmounts(p => ({ ...p, [item.id]: Math.min(Math.max(snapped, minAmount(item)), item.quantity) }));
+  };
+  const runAction = (item: FoodItem, action: 'consumed' | 'tossed' | 'composted') => {
+    const amount = amountFor(item);
+    if (!(amount > 0)) return;
+    onAction(item, action, amount);
+    setActionAmounts(p => { const { [item.id]: _, ...rest } = p; return rest; });
+  };
+
+  const handleFileUpload = async (base64: string | null, barcode: string | null = null) => {
+    // A product already in the catalogue needs no AI call, and no key
+    if (barcode) {
+      const product = await CatalogueService.lookupProduct(barcode);
+      if (product) return setScanResult(CatalogueService.productToScanResult(product, locations));
+      if (!base64) {
+        const location = locations[0];
+        return setScanResult({
+          name: '', category: 'Other', storageLocation: location.id, quantity: 1, unit: 'pcs', confidence: 0, mouldDetected: false, barcode,
+          expiryDate: ShelfLifeService.suggestExpiry('', 'Other', location).expiryDate
+        });
+      }
+    }
+    if (!base64) return;
 
-  const handleFileUpload = async (base64: string) => {
     // Deep scans using Gemini 3 Pro require a paid key
-    const hasKey = await (window as any).aistudio?.hasSelectedApiKey?.();
+    const hasKey = !(await AiService.usesStudioKey()) || await (window as any).aistudio?.hasSelectedApiKey?.();
     if (!hasKey) {
       const selected = await onKeyPrompt();
       if (!selected) return;
     }
 
-    setLoadingScan(true);
+    const abortRef = barcode ? barcodeAbort : scanAbort;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    if (barcode) setIdentifying(barcode);
+    else setLoadingScan('label');
     try {
-      const res = await GeminiService.analyzeFoodImage(base64);
-      setScanResult(res);
+      const res = await GeminiService.analyzeFoodImage(base64, { signal: controller.signal });
+      setScanResult(barcode ? { ...res, barcode } : res);
       // Trigger vocal report immediately
-      await GeminiService.speakStatusReport(res, user.isGamified);
-    } catch (e: any) {
-      if (e.message?.includes('PERMISSION_DENIED') || e.message?.includes('Requested entity was not found')) {
+      await GeminiService.speakStatusReport(res, user.isGamified, { signal: controller.signal });
+    } catch (e) {
+      if (e instanceof AiAuthError) {
         onKeyPrompt().then(s => { 
           if (s) {
-            handleFileUpload(base64); 
+            handleFileUpload(base64, barcode); 
           }
         });
       } else {
-        onError("Analysis failed.");
+        const message = describeAiError(e, user.isGamified);
+        if (message) onError(message);
       }
     } finally {
-      setLoadingScan(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        if (barcode) setIdentifying(null);
+        else setLoadingScan(null);
+      }
+    }
+  };
+
+  // Shelf mode: every item in one photo, reviewed together
+  const handleShelfUpload = async (base64: string) => {
+    const hasKey = !(await AiService.usesStudioKey()) || await (window as any).aistudio?.hasSelectedApiKey?.();
+    if (!hasKey) {
+      const selected = await onKeyPrompt();
+      if (!selected) return;
+    }
+
+    scanAbort.current?.abort();
+    const controller = new AbortController();
+    scanAbort.current = controller;
+    setLoadingScan('shelf');
+    try {
+      const results = await GeminiService.analyzeShelfImage(base64, { signal: controller.signal });
+      setShelfScan({ image: base64, results });
+    } catch (e) {
+      if (e instanceof AiAuthError) {
+        onKeyPrompt().then(s => { if (s) handleShelfUpload(base64); });
+      } else {
+        const message = describeAiError(e, user.isGamified);
+        if (message) onError(message);
+      }
+    } finally {
+      if (scanAbort.current === controller) {
+        scanAbort.current = null;
+        setLoadingScan(null);
+      }
     }
   };
 
@@ -520,6 +982,12 @@ const InventoryView: React.FC<{
           {user.isGamified ? 'LOOT CHEST' : 'UNIT VAULT'}
         </h2>
         <div className="flex gap-4">
+          <button onClick={() => CsvService.downloadInventoryCsv(items)} disabled={items.length === 0} className="px-6 py-4 bg-white dark:bg-slate-800 text-slate-500 font-black rounded-2xl shadow-xl uppercase tracking-widest text-[10px] italic hover:opacity-90 disabled:opacity-50 bouncy">
+            CSV
+          </button>
+          <button onClick={() => CalendarService.downloadCalendar()} disabled={items.length === 0} title="Expiry dates as calendar events; choose what to include under Profile" className="px-6 py-4 bg-white dark:bg-slate-800 text-slate-500 font-black rounded-2xl shadow-xl uppercase tracking-widest text-[10px] italic hover:opacity-90 disabled:opacity-50 bouncy">
+            ICS
+          </button>
           <button onClick={() => setShowAddMenu(true)} className={`px-6 py-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white font-black rounded-2xl shadow-xl uppercase tracking-widest text-[10px] italic flex items-center gap-2 hover:opacity-90 bouncy`}>
             <IconPlus className="w-4 h-4" /> {user.isGamified ? 'Collect Loot' : 'Add Asset'}
           </button>
@@ -529,21 +997,103 @@ const InventoryView: React.FC<{
         </div>
       </div>
 
+      <div className={`bg-white dark:bg-slate-800 p-6 ${user.isGamified ? 'rounded-blob' : 'rounded-[2rem]'} border border-slate-100 dark:border-slate-700 shadow-sm space-y-4 w-full max-w-2xl mx-auto`}>
+        <div className="flex gap-3">
+          <div className="flex-1 relative">
+            <IconSearch className="w-4 h-4 absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={viewState.search}
+              onChange={e => updateView({ search: e.target.value })}
+              placeholder="Search name, brand or notes"
+              aria-label="Search inventory"
+              className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl pl-10 pr-4 py-3 text-xs font-bold outline-none"
+            />
+          </div>
+          <select
+            value={viewState.sort}
+            onChange={e => updateView({ sort: e.target.value as InventorySort })}
+            aria-label="Sort by"
+            className="bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-[10px] font-black uppercase"
+          >
+            {(Object.keys(InventoryViewService.SORT_LABELS) as InventorySort[]).map(sort => (
+              <option key={sort} value={sort}>{InventoryViewService.SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by category">
+          {CategoryService.categoryOptions(categories).map(o => (
+            <button key={o.value} onClick={() => updateView({ categories: toggleIn(viewState.categories, o.value) })} aria-pressed={viewState.categories.includes(o.value)} className={chipClass(viewState.categories.includes(o.value))}>{o.label}</button>
+          ))}
+        </div>
+        {tagsInUse.length > 0 && (
+          <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by tag">
+            {tagsInUse.map(tag => (
+              <button key={tag} onClick={() => updateView({ tags: toggleIn(viewState.tags, tag) })} aria-pressed={viewState.tags.includes(tag)} className={chipClass(viewState.tags.includes(tag))}>#{tag}</button>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Filter by expiry">
+          {(Object.keys(InventoryViewService.EXPIRY_BAND_LABELS) as ExpiryBand[]).map(band => (
+            <button key={band} onClick={() => updateView({ bands: toggleIn(viewState.bands, band) })} aria-pressed={viewState.bands.includes(band)} className={chipClass(viewState.bands.includes(band))}>{InventoryViewService.EXPIRY_BAND_LABELS[band]}</button>
+          ))}
+          <button onClick={() => updateView({ mouldOnly: !viewState.mouldOnly })} aria-pressed={viewState.mouldOnly} className={chipClass(viewState.mouldOnly)}>Mould</button>
+          <span className="flex-1" />
+          <button onClick={() => updateView({ groupByCategory: !viewState.groupByCategory })} aria-pressed={viewState.groupByCategory} className={chipClass(viewState.groupByCategory)}>Group by Category</button>
+          {filtering && (
+            <button onClick={() => updateView({ search: '', categories: [], tags: [], bands: [], mouldOnly: false })} className="px-3 py-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-colors">Clear</button>
+          )}
+          <button onClick={() => selecting ? endSelection() : setSelecting(true)} aria-pressed={selecting} className={chipClass(selecting)}>{selecting ? 'Done' : 'Select'}</button>
+        </div>
+        {selecting && (
+          <div className="space-y-3 pt-4 border-t border-slate-50 dark:border-slate-700">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{selected.length} selected</span>
+              <span className="flex-1" />
+              <button onClick={() => setSelectedIds(inLocation.map(i => i.id))} className={chipClass(false)}>All in {activeLocation.name}</button>
+              <button onClick={() => setSelectedIds(inLocation.filter(i => ShelfLifeService.daysUntil(ShelfLifeService.getEffectiveExpiry(i).date) < 0).map(i => i.id))} className={chipClass(false)}>All Expired</button>
+              <button onClick={() => setSelectedIds([])} disabled={selected.length === 0} className="px-3 py-1 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 disabled:opacity-30 transition-colors">None</button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => runBulk({ kind: 'consumed' })} disabled={selected.length === 0} className={`px-4 py-2 ${user.isGamified ? 'bg-violet-500' : 'bg-emerald-500'} text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40 bouncy`}>{user.isGamified ? 'Eat' : 'Consumed'}</button>
+              <button onClick={() => runBulk({ kind: 'composted' })} disabled={selected.length === 0} className="px-4 py-2 bg-indigo-500 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40 bouncy">{user.isGamified ? 'Eco-Recycle' : 'Compost'}</button>
+              <button onClick={() => runBulk({ kind: 'tossed' })} disabled={selected.length === 0} className="px-4 py-2 bg-red-500 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40 bouncy">{user.isGamified ? 'Discard' : 'Tossed'}</button>
+              <select value="" disabled={selected.length === 0} onChange={e => e.target.value && runBulk({ kind: 'move', location: e.target.value as StorageLocation })} aria-label="Move selected items" className={bulkSelectClass}>
+                <option value="">Move to…</option>
+                {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
+              </select>
+              <select value="" disabled={selected.length === 0} onChange={e => e.target.value && runBulk({ kind: 'category', ...CategoryService.resolveCategory(categories, e.target.value) })} aria-label="Change category of selected items" className={bulkSelectClass}>
+                <option value="">Category…</option>
+                {CategoryService.categoryOptions(categories).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <button onClick={() => runBulk({ kind: 'delete' })} disabled={selected.length === 0} className="px-4 py-2 bg-red-50 text-red-600 border border-red-100 dark:bg-red-950/20 rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40 bouncy">Delete</button>
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className={`fridge-container relative min-h-[600px] w-full max-w-2xl mx-auto ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3.5rem]'} overflow-hidden bg-slate-200 dark:bg-slate-950 shadow-inner border-[16px] ${user.isGamified ? 'border-amber-700/20' : 'border-slate-300 dark:border-slate-800'} ring-1 ring-slate-100 dark:ring-slate-700`}>
         <div className="fridge-interior p-10 space-y-10 flex flex-col h-full bg-slate-100 dark:bg-slate-900 overflow-hidden">
-          <div className="flex justify-around border-b border-slate-200 dark:border-slate-800 pb-6">
-             {(['Fridge', 'Freezer', 'Pantry'] as StorageLocation[]).map(loc => (
-               <button key={loc} onClick={() => setActiveTab(loc)} className={`text-[10px] font-black uppercase tracking-widest px-6 py-2.5 rounded-xl transition-all bouncy ${activeTab === loc ? 'bg-white dark:bg-slate-800 shadow-lg text-violet-600' : 'text-slate-400 hover:text-violet-600'}`}>{loc}</button>
+          <div className="flex flex-wrap justify-around gap-2 border-b border-slate-200 dark:border-slate-800 pb-6">
+             {locations.map(loc => (
+               <button key={loc.id} onClick={() => updateView({ location: loc.id })} className={`text-[10px] font-black uppercase tracking-widest px-6 py-2.5 rounded-xl transition-all bouncy ${activeLocation.id === loc.id ? 'bg-white dark:bg-slate-800 shadow-lg text-violet-600' : 'text-slate-400 hover:text-violet-600'}`}>{loc.name}</button>
              ))}
           </div>
           <div className="flex-1 overflow-y-auto no-scrollbar grid grid-cols-1 sm:grid-cols-2 gap-6 pb-20">
-            {filtered.length === 0 ? (
+            {groups.length === 0 ? (
               <div className="col-span-full h-full flex items-center justify-center opacity-10 grayscale flex-col gap-6 py-20">
                 <IconList className="w-24 h-24" />
-                <p className="text-sm font-black uppercase tracking-[1em] italic">Empty Slot</p>
+                <p className="text-sm font-black uppercase tracking-[1em] italic">{filtering ? 'No Matches' : 'Empty Slot'}</p>
               </div>
-            ) : filtered.map(item => (
-              <div key={item.id} className={`bg-white dark:bg-slate-800 p-8 ${user.isGamified ? 'rounded-blob border-violet-100' : 'rounded-[2.5rem] border-slate-100'} shadow-sm border dark:border-slate-700 space-y-5 group animate-in slide-in-from-bottom-2 bouncy relative`}>
+            ) : groups.map(group => (
+              <React.Fragment key={group.key}>
+              {group.label && (
+                <h5 className="col-span-full text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-200 dark:border-slate-800 pb-2">{group.label} • {group.items.length}</h5>
+              )}
+              {group.items.map(item => {
+              const expiry = ShelfLifeService.getEffectiveExpiry(item);
+              return (
+              <div key={item.id} id={`item-${item.id}`} className={`bg-white dark:bg-slate-800 p-8 ${user.isGamified ? 'rounded-blob border-violet-100' : 'rounded-[2.5rem] border-slate-100'} shadow-sm border dark:border-slate-700 space-y-5 group animate-in slide-in-from-bottom-2 bouncy relative ${highlightId === item.id ? 'ring-4 ring-amber-400' : ''} ${selecting && selectedIds.includes(item.id) ? `ring-4 ${user.isGamified ? 'ring-violet-500' : 'ring-emerald-500'}` : ''}`}>
                  {item.mouldDetected && (
                     <div className="absolute top-4 right-4 animate-pulse">
                       <div className="bg-red-600 text-white p-1 rounded-full shadow-lg" title="Mould Detected">
@@ -552,42 +1102,90 @@ const InventoryView: React.FC<{
                     </div>
                  )}
                  <div className="flex justify-between items-start">
-                   <div className="text-left">
+                   {selecting && (
+                     <input type="checkbox" checked={selectedIds.includes(item.id)} onChange={() => toggleSelected(item.id)} aria-label={`Select ${item.name}`} className="mt-1.5 mr-3 w-4 h-4 shrink-0" />
+                   )}
+                   <div className="text-left flex-1">
                      <h4 className="text-xl font-black uppercase italic tracking-tighter leading-tight group-hover:text-violet-600 transition-colors">{item.name}</h4>
-                     <p className={`text-[10px] font-bold ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} uppercase mt-1 tracking-widest`}>{item.category} • x{item.quantity}</p>
+                     <p className={`text-[10px] font-bold ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} uppercase mt-1 tracking-widest`}>{CategoryService.categoryLabel(categories, item)} • {item.quantity} {item.unit}</p>
+                     {item.tags && item.tags.length > 0 && (
+                       <p className="text-[9px] font-bold text-slate-400 mt-1">{item.tags.map(t => `#${t}`).join(' ')}</p>
+                     )}
                    </div>
                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                      <button onClick={() => setEditingItem(item)} className="p-2 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-full transition-colors"><IconEdit className="w-4 h-4" /></button>
                    </div>
                  </div>
                  <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-slate-50 dark:border-slate-700">
-                   <ExpiryBadge date={item.expiryDate} />
+                   <ExpiryBadge date={expiry.date} basis={expiry.basis} />
                    <span className="px-2.5 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-blue-100 bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400 dark:border-blue-800">${(item.estimatedPrice || 0).toFixed(2)}/u</span>
                    {item.calories !== undefined && (
                      <span className="px-2.5 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-orange-100 bg-orange-50 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400 dark:border-orange-800">{item.calories} kcal</span>
                    )}
+                   {!item.openedDate && (
+                     <button onClick={() => onOpen(item)} className="ml-auto px-2.5 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest border border-slate-200 text-slate-500 hover:border-emerald-500 hover:text-emerald-600 dark:border-slate-600 transition-colors">{user.isGamified ? 'Crack Open' : 'Open'}</button>
+                   )}
                  </div>
+                 {item.openedDate && (
+                   <p className="text-[10px] font-bold text-slate-400 text-left">
+                     Opened {item.openedDate} •{' '}
+                     <span className={expiry.basis === 'opened' ? 'text-slate-700 dark:text-slate-200' : ''}>good until {expiry.openedExpiry} once open</span> •{' '}
+                     <span className={expiry.basis === 'printed' ? 'text-slate-700 dark:text-slate-200' : ''}>printed {item.expiryDate}</span>
+                     {' '}({expiry.basis === 'opened' ? 'opened date applies' : 'printed date applies'})
+                   </p>
+                 )}
+                 {item.lots && item.lots.length > 1 && (
+                   <ul className="space-y-1.5" aria-label={`Lots of ${item.name}`}>
+                     {LotService.getLots(item).map((lot, index) => (
+                       <li key={lot.id} className="flex items-center gap-2 text-[10px] font-bold text-slate-500">
+                         <span className="w-16 text-left">{lot.quantity} {item.unit}</span>
+                         <ExpiryBadge date={lot.expiryDate} />
+                         {lot.estimatedPrice !== undefined && <span>${lot.estimatedPrice.toFixed(2)}/u</span>}
+                         {index === 0 && <span className="ml-auto text-[9px] uppercase tracking-widest text-slate-400">Used first</span>}
+                       </li>
+                     ))}
+                   </ul>
+                 )}
+                 {item.quantity > amountStep(item) && (
+                   <div className="flex items-center justify-between bg-slate-50 dark:bg-slate-900/50 rounded-xl px-3 py-2">
+                     <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{user.isGamified ? 'Use' : 'Amount'}</span>
+                     <div className="flex items-center gap-2">
+                       <button onClick={() => stepAmount(item, -1)} disabled={amountFor(item) <= minAmount(item)} aria-label="Decrease amount" className="w-6 h-6 rounded-full bg-white dark:bg-slate-800 text-xs font-black disabled:opacity-30 bouncy">−</button>
+                       <input 
+                         type="number" min={minAmount(item)} max={item.quantity} step="any" value={amountFor(item)}
+                         onChange={e => setActionAmounts(p => ({ ...p, [item.id]: Number(e.target.value) }))}
+                         aria-label={`Amount of ${item.name} in ${item.unit}`}
+                         className="w-12 bg-transparent text-center text-xs font-black outline-none"
+                       />
+                       <button onClick={() => stepAmount(item, 1)} disabled={amountFor(item) >= item.quantity} aria-label="Increase amount" className="w-6 h-6 rounded-full bg-white dark:bg-slate-800 text-xs font-black disabled:opacity-30 bouncy">+</button>
+                       <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">/ {item.quantity} {item.unit}</span>
+                     </div>
+                   </div>
+                 )}
                  <div className="grid grid-cols-2 gap-2 pt-2">
                     <button 
-                      onClick={() => onAction(item, 'consumed')}
+                      onClick={() => runAction(item, 'consumed')}
                       className={`py-2 ${user.isGamified ? 'bg-violet-500 hover:bg-violet-600' : 'bg-emerald-500 hover:bg-emerald-600'} text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all bouncy col-span-2`}
                     >
                       <IconCheck className="w-3 h-3" /> {user.isGamified ? 'Eat Item' : 'Consumed'}
                     </button>
                     <button 
-                      onClick={() => onAction(item, 'composted')}
+                      onClick={() => runAction(item, 'composted')}
                       className={`py-2 ${user.isGamified ? 'bg-indigo-500 hover:bg-indigo-600' : 'bg-indigo-500 hover:bg-indigo-600'} text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all bouncy`}
                     >
                       <IconLeaf className="w-3 h-3" /> {user.isGamified ? 'Eco-Recycle' : 'Compost'}
                     </button>
                     <button 
-                      onClick={() => onAction(item, 'tossed')}
+                      onClick={() => runAction(item, 'tossed')}
                       className="py-2 bg-red-500 hover:bg-red-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all bouncy"
                     >
                       <IconTrash className="w-3 h-3" /> {user.isGamified ? 'Discard' : 'Tossed'}
                     </button>
                  </div>
               </div>
+              );
+            })}
+              </React.Fragment>
             ))}
           </div>
         </div>
@@ -605,17 +1203,29 @@ const InventoryView: React.FC<{
           <div className={`max-w-xl w-full bg-white dark:bg-slate-800 ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} p-10 space-y-8 shadow-3xl overflow-y-auto max-h-[90vh]`}>
             <div className="flex justify-between items-center">
               <h3 className="text-2xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Inventory Add' : 'New Asset Protocol'}</h3>
-              <button onClick={() => setShowAddMenu(false)} className="p-2 hover:bg-slate-100 rounded-full bouncy"><IconX className="w-6 h-6" /></button>
+              <button onClick={closeAddMenu} className="p-2 hover:bg-slate-100 rounded-full bouncy"><IconX className="w-6 h-6" /></button>
             </div>
             <div className="grid grid-cols-2 gap-4">
-              <button onClick={() => { setManualEntry(true); setShowAddMenu(false); }} className={`p-8 border-2 ${user.isGamified ? 'border-violet-100 hover:bg-violet-50' : 'border-emerald-100 hover:bg-emerald-50'} dark:border-slate-800 rounded-blob transition-all flex flex-col items-center gap-4 group bouncy`}>
+              <button onClick={() => { setManualEntry(true); closeAddMenu(); }} className={`p-8 border-2 ${user.isGamified ? 'border-violet-100 hover:bg-violet-50' : 'border-emerald-100 hover:bg-emerald-50'} dark:border-slate-800 rounded-blob transition-all flex flex-col items-center gap-4 group bouncy`}>
                 <IconPlus className={`w-10 h-10 ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} group-hover:scale-110 transition-transform`} />
                 <span className="text-xs font-black uppercase tracking-widest italic text-center">{user.isGamified ? 'Type Info' : 'Manual Entry'}</span>
               </button>
+              <button onClick={() => { setCsvImport(true); closeAddMenu(); }} className={`p-8 border-2 ${user.isGamified ? 'border-violet-100 hover:bg-violet-50' : 'border-emerald-100 hover:bg-emerald-50'} dark:border-slate-800 rounded-blob transition-all flex flex-col items-center gap-4 group bouncy`}>
+                <IconList className={`w-10 h-10 ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} group-hover:scale-110 transition-transform`} />
+                <span className="text-xs font-black uppercase tracking-widest italic text-center">{user.isGamified ? 'Bulk Loot' : 'CSV Import'}</span>
+              </button>
+              <button onClick={() => { setBarcodeScan(true); closeAddMenu(); }} className={`p-8 border-2 ${user.isGamified ? 'border-violet-100 hover:bg-violet-50' : 'border-emerald-100 hover:bg-emerald-50'} dark:border-slate-800 rounded-blob transition-all flex flex-col items-center gap-4 group bouncy`}>
+                <IconBarcode className={`w-10 h-10 ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} group-hover:scale-110 transition-transform`} />
+                <span className="text-xs font-black uppercase tracking-widest italic text-center">{user.isGamified ? 'Zap Stripes' : 'Scan Barcode'}</span>
+              </button>
               <div className="relative">
-                <ImageUpload isLoading={loadingScan} onImageSelected={handleFileUpload} />
+                <ImageUpload isLoading={loadingScan === 'label'} onImageSelected={handleFileUpload} />
                 <div className={`absolute top-2 left-2 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white text-[8px] font-black px-2 py-1 rounded-full uppercase`}>{user.isGamified ? 'Magic Scan' : 'Neural Scan'}</div>
               </div>
+              <div className="relative col-span-2">
+                <ImageUpload isLoading={loadingScan === 'shelf'} onImageSelected={base64 => handleShelfUpload(base64)} title="Tap to Scan a Shelf or Bag" hint="Finds every item, review them all at once" />
+                <div className={`absolute top-2 left-2 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white text-[8px] font-black px-2 py-1 rounded-full uppercase`}>{user.isGamified ? 'Loot Haul' : 'Shelf Scan'}</div>
+              </div>
             </div>
           </div>
         </div>
@@ -628,14 +1238,53 @@ const InventoryView: React.FC<{
                <h3 className="text-xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Item Details' : 'Asset Entry'}</h3>
                <button onClick={() => setManualEntry(false)} className="p-2 hover:bg-slate-100 rounded-full bouncy"><IconX className="w-5 h-5" /></button>
              </div>
-             <AddAssetView user={user} onCancel={() => setManualEntry(false)} onAdd={(i) => { onAdd(i); setManualEntry(false); onRefresh(); }} onKeyPrompt={onKeyPrompt} />
+             <AddAssetView user={user} locations={locations} categories={categories} onCancel={() => setManualEntry(false)} onAdd={(i) => { onAdd(i); setManualEntry(false); onRefresh(); }} onKeyPrompt={onKeyPrompt} />
           </div>
         </div>
       )}
 
+      {csvImport && (
+        <CsvImportWizard 
+          user={user}
+          locations={locations}
+          categories={categories}
+          onImported={() => { setCsvImport(false); onRefresh(); }}
+          onClose={() => setCsvImport(false)}
+        />
+      )}
+
+      {identifying && (
+        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[550] bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl shadow-2xl px-5 py-4 flex items-center gap-4" role="status">
+          <div className={`w-5 h-5 border-2 ${user.isGamified ? 'border-violet-600' : 'border-emerald-600'} border-t-transparent rounded-full animate-spin`}></div>
+          <span className="text-[10px] font-black uppercase tracking-widest">{user.isGamified ? 'Reading the stripes' : 'Identifying barcode'} {identifying}…</span>
+          <button onClick={() => barcodeAbort.current?.abort()} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 bouncy">Cancel</button>
+        </div>
+      )}
+
+      {barcodeScan && (
+        <BarcodeScanner
+          user={user}
+          onDetected={(barcode, frame) => { setBarcodeScan(false); handleFileUpload(frame, barcode); }}
+          onClose={() => setBarcodeScan(false)}
+        />
+      )}
+
+      {shelfScan && (
+        <BatchVerificationModal
+          user={user}
+          locations={locations}
+          categories={categories}
+          image={shelfScan.image}
+          results={shelfScan.results}
+          onAdd={async (added) => { await onAddMany(added); setShelfScan(null); setShowAddMenu(false); onRefresh(); }}
+          onClose={() => setShelfScan(null)}
+        />
+      )}
+
       {scanResult && (
         <ResultVerificationModal 
           user={user}
+          locations={locations}
           scanResult={scanResult} 
           onAdd={(i) => { onAdd(i); setScanResult(null); setShowAddMenu(false); onRefresh(); }} 
           onClose={() => setScanResult(null)} 
@@ -645,8 +1294,10 @@ const InventoryView: React.FC<{
       {editingItem && (
         <EditItemModal 
           user={user}
+          locations={locations}
+          categories={categories}
           item={editingItem} 
-          onUpdate={(i) => { onUpdate(i); setEditingItem(null); onRefresh(); }} 
+          onUpdate={async (i) => { const saved = await onUpdate(i, editingItem); setEditingItem(null); onRefresh(); return saved; }} 
           onClose={() => setEditingItem(null)} 
         />
       )}
@@ -655,13 +1306,50 @@ const InventoryView: React.FC<{
 };
 
 // --- Edit Item Modal ---
-const EditItemModal: React.FC<{ user: UserProfile, item: FoodItem, onUpdate: (i: FoodItem) => void, onClose: () => void }> = ({ user, item, onUpdate, onClose }) => {
+const EditItemModal: React.FC<{ user: UserProfile, locations: UserLocation[], categories: UserCategory[], item: FoodItem, onUpdate: (i: FoodItem) => Promise<boolean>, onClose: () => void }> = ({ user, locations, categories, item, onUpdate, onClose }) => {
   const [editName, setEditName] = useState(item.name);
+  const [editCategory, setEditCategory] = useState(CategoryService.categoryValue(categories, item));
+  const [editTags, setEditTags] = useState((item.tags ?? []).join(', '));
   const [editExpiry, setEditExpiry] = useState(item.expiryDate);
   const [editLocation, setEditLocation] = useState<StorageLocation>(item.storageLocation);
   const [editCalories, setEditCalories] = useState<number>(item.calories || 0);
   const [editQuantity, setEditQuantity] = useState<number>(item.quantity || 1);
   const [editPrice, setEditPrice] = useState<number>(item.estimatedPrice || 0);
+  const [moveNote, setMoveNote] = useState<string | null>(null);
+  const [editOpened, setEditOpened] = useState(item.openedDate || '');
+  // Items holding several lots edit them one by one instead of the summary fields
+  const [editLots, setEditLots] = useState<FoodLot[] | null>(item.lots?.length ? LotService.getLots(item) : null);
+
+  const changeLocation = (location: StorageLocation) => {
+    const from = LocationService.findLocation(locations, editLocation);
+    const to = LocationService.findLocation(locations, location);
+    if (editLots) {
+      const current = { ...item, name: editName, storageLocation: editLocation };
+      const nearest = LotService.lotAsItem(current, editLots[0]);
+      setEditLots(editLots.map(lot => ({ ...lot, expiryDate: ShelfLifeService.recomputeExpiryForMove(LotService.lotAsItem(current, lot), from, to).expiryDate })));
+      setEditLocation(location);
+      setMoveNote(ShelfLifeService.recomputeExpiryForMove(nearest, from, to).explanation || null);
+      return;
+    }
+    const moved = ShelfLifeService.recomputeExpiryForMove({ ...item, name: editName, expiryDate: editExpiry, storageLocation: editLocation }, from, to);
+    setEditLocation(location);
+    setEditExpiry(moved.expiryDate);
+    setMoveNote(moved.explanation || null);
+  };
+
+  const updateLot = (id: string, patch: Partial<FoodLot>) => setEditLots(p => p && p.map(l => l.id === id ? { ...l, ...patch } : l));
+
+  const save = async () => {
+    const tags = CategoryService.parseTags(editTags);
+    const edited = { ...CategoryService.withCategory(item, categories, editCategory), name: editName, storageLocation: editLocation, calories: editCalories, openedDate: editOpened || undefined, tags: tags.length ? tags : undefined };
+    const saved = await onUpdate(editLots ? LotService.withLots(edited, editLots) : { ...edited, expiryDate: editExpiry, quantity: editQuantity, estimatedPrice: editPrice });
+    if (!saved) return;
+    // Numbers typed over an estimate are what this household pays and eats; remember them once they are kept
+    LookupCacheService.learnCorrection(editName, user.country, {
+      price: !editLots && editPrice !== (item.estimatedPrice || 0) ? editPrice : undefined,
+      calories: editCalories !== (item.calories || 0) ? editCalories : undefined
+    }).catch(e => console.error("Lookup Cache Update Failed:", e));
+  };
 
   return (
     <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
@@ -675,6 +1363,32 @@ const EditItemModal: React.FC<{ user: UserProfile, item: FoodItem, onUpdate: (i:
               <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Item Name' : 'Asset Designation'}</label>
               <input value={editName} onChange={e => setEditName(e.target.value)} className={`w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-black focus:border-violet-500 outline-none transition-all`} />
            </div>
+           <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                 <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Category</label>
+                 <select value={editCategory} onChange={e => setEditCategory(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700">
+                    {CategoryService.categoryOptions(categories).map(o => <option key={o.value} value={o.value}>{o.value === o.base ? o.label : `${o.base} › ${o.label}`}</option>)}
+                 </select>
+              </div>
+              <div className="space-y-1">
+                 <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Tags</label>
+                 <input value={editTags} onChange={e => setEditTags(e.target.value)} placeholder="kids, meal-prep" className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+              </div>
+           </div>
+           {editLots ? (
+             <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Lots (used soonest expiry first)</label>
+                {editLots.map(lot => (
+                  <div key={lot.id} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center">
+                    <input type="number" min={0} step="any" value={lot.quantity} onChange={e => updateLot(lot.id, { quantity: Number(e.target.value) })} aria-label="Lot quantity" className="w-full bg-slate-50 dark:bg-slate-800 p-3 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+                    <input type="number" min={0} step="0.01" value={lot.estimatedPrice ?? 0} onChange={e => updateLot(lot.id, { estimatedPrice: Number(e.target.value) })} aria-label="Lot price per unit" className="w-full bg-slate-50 dark:bg-slate-800 p-3 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+                    <input type="date" value={lot.expiryDate} onChange={e => { updateLot(lot.id, { expiryDate: e.target.value }); setMoveNote(null); }} aria-label="Lot expiry" className="w-full bg-slate-50 dark:bg-slate-800 p-3 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+                    <button onClick={() => updateLot(lot.id, { quantity: 0 })} aria-label="Remove lot" className="p-2 text-slate-400 hover:text-red-500 transition-colors"><IconX className="w-4 h-4" /></button>
+                  </div>
+                ))}
+                <p className="text-[9px] font-bold text-slate-400 ml-2">Quantity • price per unit • expiry. Lots set to 0 are removed on save.</p>
+             </div>
+           ) : (
            <div className="grid grid-cols-2 gap-4">
               <div className="space-y-1">
                  <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Quantity</label>
@@ -685,25 +1399,35 @@ const EditItemModal: React.FC<{ user: UserProfile, item: FoodItem, onUpdate: (i:
                  <input type="number" step="0.01" value={editPrice} onChange={e => setEditPrice(Number(e.target.value))} className={`w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-black focus:border-violet-500 outline-none`} />
               </div>
            </div>
+           )}
            <div className="space-y-1">
               <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Power Points (Calories)' : 'Calories per Serving'}</label>
               <input type="number" value={editCalories} onChange={e => setEditCalories(Number(e.target.value))} className={`w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-black focus:border-violet-500 outline-none`} />
            </div>
            <div className="grid grid-cols-2 gap-4">
+              {!editLots && (
               <div className="space-y-1">
                  <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Spoils In' : 'Expiry Point'}</label>
-                 <input type="date" value={editExpiry} onChange={e => setEditExpiry(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+                 <input type="date" value={editExpiry} onChange={e => { setEditExpiry(e.target.value); setMoveNote(null); }} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
               </div>
-              <div className="space-y-1">
+              )}
+              <div className={`space-y-1 ${editLots ? 'col-span-2' : ''}`}>
                  <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Storage' : 'Sector'}</label>
-                 <select value={editLocation} onChange={e => setEditLocation(e.target.value as StorageLocation)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700">
-                    <option value="Fridge">Fridge</option>
-                    <option value="Freezer">Freezer</option>
-                    <option value="Pantry">Pantry</option>
+                 <select value={editLocation} onChange={e => changeLocation(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700">
+                    {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
                  </select>
               </div>
            </div>
-           <button onClick={() => onUpdate({ ...item, name: editName, expiryDate: editExpiry, storageLocation: editLocation, calories: editCalories, quantity: editQuantity, estimatedPrice: editPrice })} className={`w-full py-5 ${user.isGamified ? 'bg-violet-600 rounded-mega-blob' : 'bg-emerald-600 rounded-3xl'} text-white font-black uppercase tracking-widest italic shadow-xl hover:opacity-90 transition-all bouncy`}>Confirm Change</button>
+           <div className="space-y-1">
+              <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Opened On (blank if sealed)</label>
+              <input type="date" value={editOpened} onChange={e => setEditOpened(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700" />
+           </div>
+           {moveNote && (
+             <p className="text-[10px] font-bold text-slate-500 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-3" role="status">
+               <IconInfo className="w-3 h-3 inline mr-1 -mt-0.5" />Expiry moved to {editLots ? editLots[0].expiryDate : editExpiry}{editLots ? ' for the soonest lot' : ''}. {moveNote}
+             </p>
+           )}
+           <button onClick={save} disabled={!!editLots && editLots.every(l => !(l.quantity > 0))} className={`w-full py-5 ${user.isGamified ? 'bg-violet-600 rounded-mega-blob' : 'bg-emerald-600 rounded-3xl'} text-white font-black uppercase tracking-widest italic shadow-xl hover:opacity-90 transition-all bouncy`}>Confirm Change</button>
         </div>
       </div>
     </div>
@@ -711,13 +1435,15 @@ const EditItemModal: React.FC<{ user: UserProfile, item: FoodItem, onUpdate: (i:
 };
 
 // --- Result Verification Modal ---
-const ResultVerificationModal: React.FC<{ user: UserProfile, scanResult: ScanResult, onAdd: (i: FoodItem) => void, onClose: () => void }> = ({ user, scanResult, onAdd, onClose }) => {
+const ResultVerificationModal: React.FC<{ user: UserProfile, locations: UserLocation[], scanResult: ScanResult, onAdd: (i: FoodItem) => void, onClose: () => void }> = ({ user, locations, scanResult, onAdd, onClose }) => {
   const [editName, setEditName] = useState(scanResult.name);
   const [editExpiry, setEditExpiry] = useState(scanResult.expiryDate);
-  const [editLocation, setEditLocation] = useState<StorageLocation>(scanResult.storageLocation);
+  // The scanner only knows Fridge, Freezer and Pantry
+  const [editLocation, setEditLocation] = useState<StorageLocation>(() => LocationService.matchLocation(locations, scanResult.storageLocation));
   const [editCalories, setEditCalories] = useState<number>(scanResult.calories || 0);
   const [editQuantity, setEditQuantity] = useState<number>(scanResult.quantity || 1);
   const [editPrice, setEditPrice] = useState<number>(scanResult.estimatedPrice || 0);
+  const { catalogueMatch, warnings, ...scanned } = scanResult;
 
   return (
     <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
@@ -726,6 +1452,11 @@ const ResultVerificationModal: React.FC<{ user: UserProfile, scanResult: ScanRes
           <div>
             <h3 className="text-xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Identify Loot' : 'Neural Verification'}</h3>
             {scanResult.mouldDetected && <p className="text-[10px] font-black text-red-500 uppercase animate-pulse mt-1">! MOULD DETECTED !</p>}
+            {scanResult.barcode && (
+              <p className="text-[10px] font-bold text-slate-400 mt-1">
+                {catalogueMatch ? `From your product catalogue · ${scanResult.barcode}` : `Barcode ${scanResult.barcode} · remembered once logged`}
+              </p>
+            )}
           </div>
           <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors bouncy"><IconX className="w-5 h-5" /></button>
         </div>
@@ -736,6 +1467,12 @@ const ResultVerificationModal: React.FC<{ user: UserProfile, scanResult: ScanRes
                <p className="text-xs font-black text-red-600 uppercase tracking-tight leading-tight">Mould Warning: Biological integrity compromised. High accuracy vision scan detected fungal spores.</p>
              </div>
            )}
+           {AiResponseService.isLowConfidence(scanResult) && (
+             <div className="bg-amber-50 dark:bg-amber-950/20 border border-amber-100 dark:border-amber-900/40 p-4 rounded-2xl space-y-1" role="status">
+               <p className="text-xs font-black text-amber-700 uppercase tracking-tight">{user.isGamified ? 'Blurry magic! Double-check these.' : `Low confidence (${Math.round(scanResult.confidence * 100)}%) — check every field`}</p>
+               {warnings?.map((w, i) => <p key={i} className="text-[10px] font-bold text-amber-600">{w}</p>)}
+             </div>
+           )}
            <div className="space-y-1">
               <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Detected Item' : 'Detected Designation'}</label>
               <input value={editName} onChange={e => setEditName(e.target.value)} className={`w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-black focus:border-violet-500 outline-none transition-all`} />
@@ -761,14 +1498,12 @@ const ResultVerificationModal: React.FC<{ user: UserProfile, scanResult: ScanRes
               </div>
               <div className="space-y-1">
                  <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Chest' : 'Sector'}</label>
-                 <select value={editLocation} onChange={e => setEditLocation(e.target.value as StorageLocation)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700">
-                    <option value="Fridge">Fridge</option>
-                    <option value="Freezer">Freezer</option>
-                    <option value="Pantry">Pantry</option>
+                 <select value={editLocation} onChange={e => setEditLocation(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-4 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700">
+                    {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
                  </select>
               </div>
            </div>
-           <button onClick={() => onAdd({ ...scanResult, name: editName, expiryDate: editExpiry, storageLocation: editLocation, calories: editCalories, quantity: editQuantity, estimatedPrice: editPrice, id: Date.now().toString(), addedDate: new Date().toISOString() })} className={`w-full py-5 ${user.isGamified ? 'bg-violet-600 rounded-mega-blob' : 'bg-emerald-600 rounded-3xl'} text-white font-black uppercase tracking-widest italic shadow-xl hover:opacity-90 transition-all bouncy`}>{user.isGamified ? 'Collect Reward' : 'Log to Sector'}</button>
+           <button onClick={() => onAdd({ ...scanned, name: editName, expiryDate: editExpiry, storageLocation: editLocation, calories: editCalories, quantity: editQuantity, estimatedPrice: editPrice, id: Date.now().toString(), addedDate: new Date().toISOString() })} disabled={!editName.trim()} className={`w-full py-5 ${user.isGamified ? 'bg-violet-600 rounded-mega-blob' : 'bg-emerald-600 rounded-3xl'} text-white font-black uppercase tracking-widest italic shadow-xl hover:opacity-90 transition-all bouncy`}>{user.isGamified ? 'Collect Reward' : 'Log to Sector'}</button>
         </div>
       </div>
     </div>
@@ -779,16 +1514,27 @@ const ResultVerificationModal: React.FC<{ user: UserProfile, scanResult: ScanRes
 const RecipesView: React.FC<{ inventory: FoodItem[], user: UserProfile }> = ({ inventory, user }) => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const fetchAbort = useRef<AbortController | null>(null);
 
   const fetchRecipes = async () => {
     if (inventory.length === 0) return;
+    fetchAbort.current?.abort();
+    const controller = new AbortController();
+    fetchAbort.current = controller;
     setLoading(true);
+    setError(null);
     try {
-      const results = await GeminiService.generateRecipes(inventory);
+      const results = await GeminiService.generateRecipes(inventory, { signal: controller.signal });
       setRecipes(results);
+    } catch (e) {
+      setError(describeAiError(e, user.isGamified));
     } finally {
-      setLoading(false);
+      if (fetchAbort.current === controller) {
+        fetchAbort.current = null;
+        setLoading(false);
+      }
     }
   };
 
@@ -796,6 +1542,8 @@ const RecipesView: React.FC<{ inventory: FoodItem[], user: UserProfile }> = ({ i
     if (recipes.length === 0 && inventory.length > 0) {
       fetchRecipes();
     }
+    // Leaving the view stops a generation nobody will see
+    return () => fetchAbort.current?.abort();
   }, []);
 
   return (
@@ -814,6 +1562,10 @@ const RecipesView: React.FC<{ inventory: FoodItem[], user: UserProfile }> = ({ i
         </button>
       </div>
 
+      {error && !loading && (
+        <p role="alert" className="bg-red-50 dark:bg-red-950/20 border border-red-100 dark:border-red-900/40 text-red-600 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest text-center">{error}</p>
+      )}
+
       {inventory.length === 0 ? (
         <div className="text-center py-20 opacity-20 flex flex-col items-center gap-4 grayscale">
           <IconChef className="w-20 h-20" />
@@ -900,11 +1652,16 @@ const RecipesView: React.FC<{ inventory: FoodItem[], user: UserProfile }> = ({ i
 };
 
 // --- Welcome View ---
-const WelcomeView: React.FC<{ hasApiKey: boolean, onKeySelected: () => void, onComplete: (data: any) => void }> = ({ hasApiKey, onKeySelected, onComplete }) => {
+const WelcomeView: React.FC<{ hasApiKey: boolean, onKeySelected: () => void, onComplete: (data: any) => void, onPickProfile: (profileId: string) => void, damagedCount: number, onReviewDamaged: () => void }> = ({ hasApiKey, onKeySelected, onComplete, onPickProfile, damagedCount, onReviewDamaged }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
   const [isLogin, setIsLogin] = useState(true);
+  const [profiles, setProfiles] = useState<LocalProfile[]>([]);
+
+  useEffect(() => {
+    StorageService.getRegistry().then(r => setProfiles(r.profiles));
+  }, []);
 
   return (
     <div className="min-h-screen bg-emerald-50 dark:bg-slate-950 flex items-center justify-center p-6">
@@ -914,6 +1671,17 @@ const WelcomeView: React.FC<{ hasApiKey: boolean, onKeySelected: () => void, onC
           <h2 className="text-3xl font-extrabold text-slate-900 dark:text-white">Fridgeometer</h2>
           <p className="text-slate-500 text-sm">Sustainable Kitchen Assistant</p>
         </div>
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Profiles On This Device</p>
+            {profiles.map(p => (
+              <button key={p.id} onClick={() => onPickProfile(p.id)} className="w-full flex items-center gap-3 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl px-5 py-3 text-left hover:border-emerald-500 transition-colors bouncy">
+                <span className="w-8 h-8 bg-emerald-600 text-white rounded-full flex items-center justify-center text-sm font-bold uppercase">{p.name[0]}</span>
+                <span className="text-sm font-bold dark:text-white truncate">{p.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <div className="space-y-4">
           {!isLogin && (
             <input value={name} onChange={e => setName(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl px-5 py-4 text-sm font-medium focus:ring-2 focus:ring-emerald-500 outline-none dark:text-white" placeholder="Name" />
@@ -930,24 +1698,52 @@ const WelcomeView: React.FC<{ hasApiKey: boolean, onKeySelected: () => void, onC
         <button onClick={() => setIsLogin(!isLogin)} className="w-full text-xs font-bold text-slate-500 hover:text-emerald-600 transition-colors uppercase tracking-widest">
           {isLogin ? "Need a Protocol? Sign Up" : "Have a Link? Log In"}
         </button>
+        {damagedCount > 0 && (
+          <button onClick={onReviewDamaged} className="w-full text-xs font-bold text-amber-600 hover:text-amber-700 transition-colors uppercase tracking-widest">
+            Review {damagedCount} damaged {damagedCount === 1 ? 'entry' : 'entries'}
+          </button>
+        )}
       </div>
     </div>
   );
 };
 
 // --- Add Asset View ---
-const AddAssetView: React.FC<{ user: UserProfile, onCancel: () => void, onAdd: (item: FoodItem) => void, onKeyPrompt: () => Promise<boolean> }> = ({ user, onCancel, onAdd, onKeyPrompt }) => {
-  const [form, setForm] = useState({ name: '', exp: new Date().toISOString().split('T')[0], location: 'Fridge' as StorageLocation, category: 'Produce' as Category, calories: 0, quantity: 1, estimatedPrice: 0 });
+const AddAssetView: React.FC<{ user: UserProfile, locations: UserLocation[], categories: UserCategory[], onCancel: () => void, onAdd: (item: FoodItem) => void, onKeyPrompt: () => Promise<boolean> }> = ({ user, locations, categories, onCancel, onAdd, onKeyPrompt }) => {
+  // `category` holds a picker value: a base category or a custom category's id
+  const [form, setForm] = useState({ name: '', exp: ShelfLifeService.toDateString(new Date()), location: locations[0].id as StorageLocation, category: 'Produce' as string, tags: '', calories: 0, quantity: 1, estimatedPrice: 0 });
   const [searchingData, setSearchingData] = useState(false);
+  // Set when the last lookup was answered from the cache, for the refresh link
+  const [cachedLookup, setCachedLookup] = useState<string | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const lookupAbort = useRef<AbortController | null>(null);
+  const [expiryTouched, setExpiryTouched] = useState(false);
+  const picked = CategoryService.resolveCategory(categories, form.category);
+  const suggestion = ShelfLifeService.suggestExpiry(form.name, picked.category, LocationService.findLocation(locations, form.location));
+
+  // Follow the shelf-life rules until a date is typed in by hand
+  useEffect(() => {
+    if (!expiryTouched) setForm(p => ({ ...p, exp: suggestion.expiryDate }));
+  }, [suggestion.expiryDate, expiryTouched]);
+
+  useEffect(() => () => lookupAbort.current?.abort(), []);
 
-  const lookupAssetData = async () => {
+  const lookupAssetData = async (refresh: boolean = false) => {
     if (!form.name) return;
+    const controller = new AbortController();
+    lookupAbort.current = controller;
     setSearchingData(true);
+    setLookupError(null);
     try {
-      const pricePromise = GeminiService.estimateItemPrice(form.name);
-      const caloriePromise = GeminiService.estimateItemCalories(form.name);
-      const [price, calories] = await Promise.all([pricePromise, caloriePromise]);
-      setForm(p => ({ ...p, estimatedPrice: price, calories: calories }));
+      const result = await LookupCacheService.lookupItemData(form.name, user.country, { refresh, signal: controller.signal });
+      setForm(p => ({ ...p, estimatedPrice: result.price ?? p.estimatedPrice, calories: result.calories ?? p.calories }));
+      setCachedLookup(result.cached ? form.name : null);
+    } catch (e) {
+      if (e instanceof AiAuthError) {
+        onKeyPrompt().then(s => { if (s) lookupAssetData(refresh); });
+      } else {
+        setLookupError(describeAiError(e, user.isGamified));
+      }
     } finally {
       setSearchingData(false);
     }
@@ -961,10 +1757,16 @@ const AddAssetView: React.FC<{ user: UserProfile, onCancel: () => void, onAdd: (
             <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Item Name' : 'Designation'}</label>
             <div className="flex gap-2">
               <input value={form.name} onChange={e => setForm(p => ({ ...p, name: e.target.value }))} className={`flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-bold focus:ring-2 focus:ring-violet-500 outline-none transition-all`} placeholder="e.g., Organic Honey" />
-              <button onClick={lookupAssetData} disabled={searchingData || !form.name} className={`px-4 ${user.isGamified ? 'bg-violet-500' : 'bg-blue-500'} text-white rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>
+              <button onClick={() => lookupAssetData()} disabled={searchingData || !form.name} className={`px-4 ${user.isGamified ? 'bg-violet-500' : 'bg-blue-500'} text-white rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>
                 {searchingData ? '...' : (user.isGamified ? 'Find Magic' : 'Neural Search')}
               </button>
             </div>
+            {cachedLookup === form.name && (
+              <p className="text-[10px] font-bold text-slate-400 ml-2">
+                Saved estimate for {user.country}. <button onClick={() => lookupAssetData(true)} disabled={searchingData} className="underline disabled:opacity-50">Look up again</button>
+              </p>
+            )}
+            {lookupError && !searchingData && <p role="alert" className="text-[10px] font-bold text-red-500 ml-2">{lookupError}</p>}
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -983,34 +1785,34 @@ const AddAssetView: React.FC<{ user: UserProfile, onCancel: () => void, onAdd: (
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Type</label>
-              <select value={form.category} onChange={e => setForm(p => ({ ...p, category: e.target.value as Category }))} className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-4 py-4 text-xs font-bold outline-none`}>
-                <option value="Produce">Produce</option>
-                <option value="Dairy">Dairy</option>
-                <option value="Meat">Meat</option>
-                <option value="Beverage">Beverage</option>
-                <option value="Grains">Grains</option>
-                <option value="Canned">Canned</option>
-                <option value="Snacks">Snacks</option>
-                <option value="Other">Other</option>
+              <select value={form.category} onChange={e => setForm(p => ({ ...p, category: e.target.value }))} className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-4 py-4 text-xs font-bold outline-none`}>
+                {CategoryService.categoryOptions(categories).map(o => <option key={o.value} value={o.value}>{o.value === o.base ? o.label : `${o.base} › ${o.label}`}</option>)}
               </select>
             </div>
             <div className="space-y-2">
               <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Chest' : 'Sector'}</label>
               <select value={form.location} onChange={e => setForm(p => ({ ...p, location: e.target.value as StorageLocation }))} className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-4 py-4 text-xs font-bold outline-none`}>
-                <option value="Fridge">Fridge</option>
-                <option value="Freezer">Freezer</option>
-                <option value="Pantry">Pantry</option>
+                {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
               </select>
             </div>
           </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Tags</label>
+            <input value={form.tags} onChange={e => setForm(p => ({ ...p, tags: e.target.value }))} placeholder="kids, meal-prep, gluten-free" className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-bold outline-none`} />
+          </div>
           <div className="space-y-2">
             <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Spoils In' : 'Expiry Window'}</label>
-            <input type="date" value={form.exp} onChange={e => setForm(p => ({ ...p, exp: e.target.value }))} className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-bold outline-none`} />
+            <input type="date" value={form.exp} onChange={e => { setExpiryTouched(true); setForm(p => ({ ...p, exp: e.target.value })); }} className={`w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 ${user.isGamified ? 'rounded-blob' : 'rounded-2xl'} px-6 py-4 text-sm font-bold outline-none`} />
+            <p className="text-[10px] font-bold text-slate-400 ml-2">
+              {expiryTouched && form.exp !== suggestion.expiryDate
+                ? <>Suggested {suggestion.expiryDate}. {suggestion.explanation} <button onClick={() => setExpiryTouched(false)} className="underline hover:text-emerald-600">Use suggestion</button></>
+                : <>Suggested: {suggestion.explanation}</>}
+            </p>
           </div>
         </div>
         <div className="flex gap-4 pt-4">
            <button onClick={onCancel} className="flex-1 py-4 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-black rounded-2xl uppercase tracking-widest text-[10px] italic bouncy">Cancel</button>
-           <button onClick={() => onAdd({ id: Date.now().toString(), name: form.name || 'UNIDENTIFIED', category: form.category, expiryDate: form.exp, quantity: form.quantity, unit: 'pcs', storageLocation: form.location, addedDate: new Date().toISOString(), mouldDetected: false, calories: form.calories, estimatedPrice: form.estimatedPrice })} className={`flex-[2] py-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white font-black rounded-2xl uppercase tracking-widest italic shadow-xl active:scale-95 transition-all text-[10px] bouncy`}>{user.isGamified ? 'Confirm Loot' : 'Finalize Entry'}</button>
+           <button onClick={() => onAdd({ id: Date.now().toString(), name: form.name || 'UNIDENTIFIED', ...picked, ...(CategoryService.parseTags(form.tags).length ? { tags: CategoryService.parseTags(form.tags) } : {}), expiryDate: form.exp, quantity: form.quantity, unit: 'pcs', storageLocation: form.location, addedDate: new Date().toISOString(), mouldDetected: false, calories: form.calories, estimatedPrice: form.estimatedPrice })} className={`flex-[2] py-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white font-black rounded-2xl uppercase tracking-widest italic shadow-xl active:scale-95 transition-all text-[10px] bouncy`}>{user.isGamified ? 'Confirm Loot' : 'Finalize Entry'}</button>
         </div>
       </div>
     </div>
@@ -1020,11 +1822,12 @@ const AddAssetView: React.FC<{ user: UserProfile, onCancel: () => void, onAdd: (
 // --- ScannerView ---
 const ScannerView: React.FC<{ 
   user: UserProfile, 
+  locations: UserLocation[],
   onAdd: (i: FoodItem) => void, 
   onError: (msg: string) => void, 
   isNeuralSyncEnabled: boolean, 
   onKeyPrompt: () => Promise<boolean> 
-}> = ({ user, onAdd, onError, isNeuralSyncEnabled, onKeyPrompt }) => {
+}> = ({ user, locations, onAdd, onError, isNeuralSyncEnabled, onKeyPrompt }) => {
   const [active, setActive] = useState(false);
   const [analysisText, setAnalysisText] = useState(user.isGamified ? "Waiting for item..." : "Awaiting identification...");
   const [objectName, setObjectName] = useState<string | null>(null);
@@ -1034,11 +1837,12 @@ const ScannerView: React.FC<{
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<AiLiveSession | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const micCtxRef = useRef<AudioContext | null>(null);
+  const captureAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     return () => stopScanner();
@@ -1053,6 +1857,7 @@ const ScannerView: React.FC<{
   const stopScanner = () => {
     setActive(false);
     setMouldAlert(false);
+    captureAbortRef.current?.abort();
     if (sessionRef.current) { try { sessionRef.current.close(); } catch(e) {} sessionRef.current = null; }
     if (videoRef.current?.srcObject) { (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop()); videoRef.current.srcObject = null; }
     for (const source of sourcesRef.current) { try { source.stop(); } catch(e) {} }
@@ -1068,96 +1873,89 @@ const ScannerView: React.FC<{
       return;
     }
     setActive(true); setLoading(true);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const provider = await AiService.getProvider();
     audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: { facingMode: 'environment' } });
       if (videoRef.current) videoRef.current.srcObject = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setLoading(false);
-            setAnalysisText(user.isGamified ? "Magic sensor online! Show me your food." : "Neural sensor online. Point at food.");
-            
-            const interval = setInterval(() => {
-              if (!sessionRef.current || !videoRef.current || !canvasRef.current) { clearInterval(interval); return; }
-              const ctx = canvasRef.current.getContext('2d');
-              canvasRef.current.width = 400; canvasRef.current.height = 300;
-              ctx?.drawImage(videoRef.current, 0, 0, 400, 300);
-              canvasRef.current.toBlob(blob => {
-                if (blob) {
-                  const reader = new FileReader();
-                  reader.onloadend = () => {
-                    const base64 = (reader.result as string).split(',')[1];
-                    sessionPromise.then(s => { 
-                      if (sessionRef.current) {
-                        s.sendRealtimeInput({ media: { data: base64, mimeType: 'image/jpeg' } }); 
-                      }
-                    });
-                  };
-                  reader.readAsDataURL(blob);
-                }
-              }, 'image/jpeg', 0.5);
-            }, 2000);
-
-            micCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            const micSource = micCtxRef.current.createMediaStreamSource(stream);
-            const scriptNode = micCtxRef.current.createScriptProcessor(4096, 1, 1);
-            scriptNode.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) { int16[i] = inputData[i] * 32768; }
-              const base64 = encode(new Uint8Array(int16.buffer));
-              sessionPromise.then(s => { 
-                if (sessionRef.current) {
-                  s.sendRealtimeInput({ media: { data: base64, mimeType: 'audio/pcm;rate=16000' } }); 
-                }
-              });
-            };
-            micSource.connect(scriptNode);
-            scriptNode.connect(micCtxRef.current.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const audioOut = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioOut && audioCtxRef.current) {
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioCtxRef.current.currentTime);
-              const buffer = await decodeAudioData(decode(audioOut), audioCtxRef.current, 24000, 1);
-              const srcNode = audioCtxRef.current.createBufferSource();
-              srcNode.buffer = buffer; srcNode.connect(audioCtxRef.current.destination);
-              srcNode.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(srcNode);
-              srcNode.onended = () => sourcesRef.current.delete(srcNode);
-            }
-            if (msg.serverContent?.outputTranscription?.text) {
-              const text = msg.serverContent.outputTranscription.text.toLowerCase();
-              setAnalysisText(text);
-              if (text.includes('mould') || text.includes('mold') || text.includes('spoil') || text.includes('fuzzy')) {
-                setMouldAlert(true);
-              } else {
-                setMouldAlert(false);
+      const systemInstruction = user.isGamified 
+        ? "You are a friendly magic food fairy. Identify loot items and tell the player what they've found. Be excited! MOST IMPORTANT: If you see ANY mould, fuzzy spots, or spores, warn the player IMMEDIATELY about the biological hazard." 
+        : "Identify food items with extreme precision. Distinquish brands and variety. Report orally. PRIORITY: Surface analysis for spoilage and mould. If detected, issue a high-priority warning.";
+      const sessionPromise = provider.connectLive(systemInstruction, {
+        onOpen: () => {
+          setLoading(false);
+          setAnalysisText(user.isGamified ? "Magic sensor online! Show me your food." : "Neural sensor online. Point at food.");
+          
+          const interval = setInterval(() => {
+            if (!sessionRef.current || !videoRef.current || !canvasRef.current) { clearInterval(interval); return; }
+            const ctx = canvasRef.current.getContext('2d');
+            canvasRef.current.width = 400; canvasRef.current.height = 300;
+            ctx?.drawImage(videoRef.current, 0, 0, 400, 300);
+            canvasRef.current.toBlob(blob => {
+              if (blob) {
+                const reader = new FileReader();
+                reader.onloadend = () => {
+                  const base64 = (reader.result as string).split(',')[1];
+                  sessionPromise.then(s => { 
+                    if (sessionRef.current) {
+                      s.sendMedia({ data: base64, mimeType: 'image/jpeg' }); 
+                    }
+                  });
+                };
+                reader.readAsDataURL(blob);
               }
-              const match = text.match(/(?:identified|see|is|this|it)\s+([a-zA-Z\s]{3,15})(?:\s+is|\.|\s+in)/i);
-              if (match && match[1]) { setObjectName(match[1].trim()); }
-            }
-          },
-          onerror: (e) => { console.error(e); stopScanner(); },
-          onclose: stopScanner
+            }, 'image/jpeg', 0.5);
+          }, 2000);
+
+          micCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+          const micSource = micCtxRef.current.createMediaStreamSource(stream);
+          const scriptNode = micCtxRef.current.createScriptProcessor(4096, 1, 1);
+          scriptNode.onaudioprocess = (e) => {
+            const inputData = e.inputBuffer.getChannelData(0);
+            const int16 = new Int16Array(inputData.length);
+            for (let i = 0; i < inputData.length; i++) { int16[i] = inputData[i] * 32768; }
+            const base64 = encode(new Uint8Array(int16.buffer));
+            sessionPromise.then(s => { 
+              if (sessionRef.current) {
+                s.sendMedia({ data: base64, mimeType: 'audio/pcm;rate=16000' }); 
+              }
+            });
+          };
+          micSource.connect(scriptNode);
+          scriptNode.connect(micCtxRef.current.destination);
+        },
+        onAudio: async (audio) => {
+          if (audioCtxRef.current) {
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioCtxRef.current.currentTime);
+            const buffer = await decodeAudioData(decode(audio.data), audioCtxRef.current, 24000, 1);
+            const srcNode = audioCtxRef.current.createBufferSource();
+            srcNode.buffer = buffer; srcNode.connect(audioCtxRef.current.destination);
+            srcNode.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += buffer.duration;
+            sourcesRef.current.add(srcNode);
+            srcNode.onended = () => sourcesRef.current.delete(srcNode);
+          }
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          outputAudioTranscription: {},
-          systemInstruction: user.isGamified 
-            ? "You are a friendly magic food fairy. Identify loot items and tell the player what they've found. Be excited! MOST IMPORTANT: If you see ANY mould, fuzzy spots, or spores, warn the player IMMEDIATELY about the biological hazard." 
-            : "Identify food items with extreme precision. Distinquish brands and variety. Report orally. PRIORITY: Surface analysis for spoilage and mould. If detected, issue a high-priority warning."
-        }
+        onTranscript: (transcript) => {
+          const text = transcript.toLowerCase();
+          setAnalysisText(text);
+          if (text.includes('mould') || text.includes('mold') || text.includes('spoil') || text.includes('fuzzy')) {
+            setMouldAlert(true);
+          } else {
+            setMouldAlert(false);
+          }
+          const match = text.match(/(?:identified|see|is|this|it)\s+([a-zA-Z\s]{3,15})(?:\s+is|\.|\s+in)/i);
+          if (match && match[1]) { setObjectName(match[1].trim()); }
+        },
+        onError: (e) => { console.error(e); stopScanner(); },
+        onClose: stopScanner
       });
       sessionRef.current = await sessionPromise;
-    } catch (e: any) { 
-      if (e.message?.includes('PERMISSION_DENIED') || e.message?.includes('Requested entity was not found')) {
+    } catch (e) { 
+      const error = toAiError(e);
+      if (error instanceof AiAuthError) {
         onKeyPrompt().then(s => { 
           if (s) {
             startScanner(); 
@@ -1165,42 +1963,58 @@ const ScannerView: React.FC<{
         });
       } else {
         stopScanner();
+        const message = describeAiError(error, user.isGamified);
+        if (message) onError(message);
       }
     }
   };
 
   const captureFullAnalysis = async () => {
     if (!videoRef.current || !canvasRef.current) return;
-    const hasKey = await (window as any).aistudio?.hasSelectedApiKey?.();
+    const ctx = canvasRef.current.getContext('2d');
+    canvasRef.current.width = 1280; canvasRef.current.height = 960; 
+    ctx?.drawImage(videoRef.current, 0, 0, 1280, 960);
+    // Known barcodes are answered from the catalogue before any AI call
+    const barcode = await BarcodeService.detectBarcode(canvasRef.current).catch(() => null);
+    const product = barcode ? await CatalogueService.lookupProduct(barcode) : null;
+    if (product) return setScanResult(CatalogueService.productToScanResult(product, locations));
+
+    const hasKey = !(await AiService.usesStudioKey()) || await (window as any).aistudio?.hasSelectedApiKey?.();
     if (!hasKey) {
       const selected = await onKeyPrompt();
       if (!selected) return;
     }
+    captureAbortRef.current?.abort();
+    const controller = new AbortController();
+    captureAbortRef.current = controller;
     setLoading(true); setScanResult(null);
     try {
-      const ctx = canvasRef.current.getContext('2d');
-      canvasRef.current.width = 1280; canvasRef.current.height = 960; 
-      ctx?.drawImage(videoRef.current, 0, 0, 1280, 960);
       const blob = await new Promise<Blob>(r => canvasRef.current!.toBlob(b => r(b!), 'image/jpeg', 0.95));
       const b64 = await new Promise<string>(r => {
         const reader = new FileReader();
         reader.onloadend = () => r((reader.result as string).split(',')[1]);
         reader.readAsDataURL(blob);
       });
-      const res = await GeminiService.analyzeFoodImage(b64);
-      setScanResult(res);
-      await GeminiService.speakStatusReport(res, user.isGamified);
-    } catch (err: any) {
-      if (err.message?.includes('PERMISSION_DENIED') || err.message?.includes('Requested entity was not found')) {
+      const res = await GeminiService.analyzeFoodImage(b64, { signal: controller.signal });
+      setScanResult(barcode ? { ...res, barcode } : res);
+      await GeminiService.speakStatusReport(res, user.isGamified, { signal: controller.signal });
+    } catch (err) {
+      if (err instanceof AiAuthError) {
         onKeyPrompt().then(s => { 
           if (s) {
             captureFullAnalysis(); 
           }
         });
       } else {
-        onError(user.isGamified ? "Magic scan failed!" : "Deep molecular analysis failed.");
+        const message = describeAiError(err, user.isGamified);
+        if (message) onError(message);
+      }
+    } finally {
+      if (captureAbortRef.current === controller) {
+        captureAbortRef.current = null;
+        setLoading(false);
       }
-    } finally { setLoading(false); }
+    }
   };
 
   return (
@@ -1236,7 +2050,7 @@ const ScannerView: React.FC<{
       <p className="text-xs text-slate-400 font-bold uppercase text-center tracking-widest italic animate-pulse">
         {mouldAlert ? 'WARNING: Spoilage patterns detected!' : (user.isGamified ? 'Searching for loot items...' : 'Scanning for biological assets...')}
       </p>
-      {scanResult && <ResultVerificationModal user={user} scanResult={scanResult} onAdd={onAdd} onClose={() => setScanResult(null)} />}
+      {scanResult && <ResultVerificationModal user={user} locations={locations} scanResult={scanResult} onAdd={onAdd} onClose={() => setScanResult(null)} />}
     </div>
   );
 };
@@ -1248,12 +2062,15 @@ const ChatHub: React.FC<{ user: UserProfile }> = ({ user }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<AiChat | null>(null);
+  const replyAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    chatRef.current = GeminiService.createChatSession(user.language);
+    GeminiService.createChatSession(user.language).then(chat => { chatRef.current = chat; });
   }, [user.language]);
 
+  useEffect(() => () => replyAbort.current?.abort(), []);
+
   const sendMessage = async () => {
     if (!input.trim() || !chatRef.current) return;
     const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
@@ -1261,12 +2078,14 @@ const ChatHub: React.FC<{ user: UserProfile }> = ({ user }) => {
     setInput('');
     setLoading(true);
 
+    replyAbort.current = new AbortController();
     try {
-      const response = await chatRef.current.sendMessage({ message: input });
-      const modelMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: response.text || 'Protocol anomaly detected.' };
+      const reply = await chatRef.current.sendMessage(input, { signal: replyAbort.current.signal });
+      const modelMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: reply || 'Protocol anomaly detected.' };
       setMessages(prev => [...prev, modelMsg]);
     } catch (e) {
-      setMessages(prev => [...prev, { id: 'err', role: 'model', text: user.isGamified ? "Uplink down! Check your magic link." : "Neural uplink interrupted." }]);
+      const message = describeAiError(e, user.isGamified);
+      if (message) setMessages(prev => [...prev, { id: 'err', role: 'model', text: message }]);
     } finally {
       setLoading(false);
     }
@@ -1316,7 +2135,7 @@ const ChatHub: React.FC<{ user: UserProfile }> = ({ user }) => {
 /**
  * ProfileHub: Updated with flavor text
  */
-const ProfileHub: React.FC<{ user: UserProfile, onUpdate: (u: UserProfile) => void, onLogout: () => void }> = ({ user, onUpdate, onLogout }) => {
+const ProfileHub: React.FC<{ user: UserProfile, locations: UserLocation[], onLocationsChanged: (locations: UserLocation[], inventory?: FoodItem[]) => void, categories: UserCategory[], onCategoriesChanged: (categories: UserCategory[], inventory?: FoodItem[]) => void, onUpdate: (u: UserProfile) => void, onLogout: () => void, onDeleteProfile: () => void, onImported: (message: string) => void, onSwitched: (message: string) => void }> = ({ user, locations, onLocationsChanged, categories, onCategoriesChanged, onUpdate, onLogout, onDeleteProfile, onImported, onSwitched }) => {
   return (
     <div className="max-w-2xl auto space-y-10 animate-in fade-in duration-500">
       <div className={`bg-white dark:bg-slate-800 p-10 ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} border border-slate-100 dark:border-slate-700 shadow-sm flex flex-col items-center text-center space-y-6`}>
@@ -1335,7 +2154,7 @@ const ProfileHub: React.FC<{ user: UserProfile, onUpdate: (u: UserProfile) => vo
                 <span className="text-sm font-bold italic uppercase tracking-tight">App Scale</span>
                 <select 
                   value={user.appScale} 
-                  onChange={e => onUpdate(StorageService.updateProfile({ appScale: e.target.value as any })!)}
+                  onChange={e => StorageService.updateProfile({ appScale: e.target.value as any }).then(u => u && onUpdate(u))}
                   className="bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-[10px] font-black uppercase"
                 >
                   <option value="small">Compact</option>
@@ -1346,7 +2165,7 @@ const ProfileHub: React.FC<{ user: UserProfile, onUpdate: (u: UserProfile) => vo
              <div className="flex justify-between items-center">
                 <span className="text-sm font-bold italic uppercase tracking-tight">Gamified Overlay</span>
                 <button 
-                  onClick={() => onUpdate(StorageService.updateProfile({ isGamified: !user.isGamified })!)}
+                  onClick={() => StorageService.updateProfile({ isGamified: !user.isGamified }).then(u => u && onUpdate(u))}
                   className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all bouncy ${user.isGamified ? 'bg-violet-100 text-violet-600' : 'bg-slate-100 text-slate-400'}`}
                 >
                   {user.isGamified ? 'Active' : 'Offline'}
@@ -1358,7 +2177,18 @@ const ProfileHub: React.FC<{ user: UserProfile, onUpdate: (u: UserProfile) => vo
         <div className={`bg-white dark:bg-slate-800 p-8 ${user.isGamified ? 'rounded-blob' : 'rounded-[2.5rem]'} border border-slate-100 dark:border-slate-700 shadow-sm flex flex-col justify-between`}>
           <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-50 dark:border-slate-700 pb-2">Account Management</h3>
           <div className="pt-6 space-y-4">
+            <ProfileSwitcher user={user} onSwitched={onSwitched} />
+            <SyncPanel user={user} />
+            <NotificationSettingsPanel user={user} />
+            <LocationsPanel user={user} locations={locations} onChanged={onLocationsChanged} />
+            <CategoriesPanel user={user} categories={categories} onChanged={onCategoriesChanged} />
+            <ProductCataloguePanel user={user} />
+            <AiSettingsPanel user={user} />
+            <LookupCachePanel user={user} />
+            <CalendarExportPanel user={user} locations={locations} />
+            <BackupPanel user={user} onImported={onImported} />
             <button onClick={onLogout} className="w-full py-5 bg-red-50 text-red-600 border border-red-100 dark:bg-red-950/20 rounded-2xl font-black uppercase tracking-widest text-[10px] italic hover:bg-red-100 transition-colors bouncy shadow-sm">Logout</button>
+            <button onClick={onDeleteProfile} className="w-full text-[10px] font-black uppercase tracking-widest text-red-400 hover:text-red-600 transition-colors">Delete Profile</button>
             <p className="text-[9px] text-slate-400 font-bold text-center uppercase tracking-widest">Joined: {new Date(user.joinedDate).toLocaleDateString()}</p>
           </div>
         </div>
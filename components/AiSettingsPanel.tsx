@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { AiModelRole, AiProviderId, AiProviderSettings, AiSettings, UserProfile } from '../types';
+import * as AiService from '../services/aiService';
+
+interface AiSettingsPanelProps {
+  user: UserProfile;
+}
+
+const MODEL_ROLE_LABELS: Record<AiModelRole, string> = {
+  fast: 'Fast',
+  complex: 'Reasoning & chat',
+  vision: 'Label scans',
+  tts: 'Speech',
+  live: 'Live scanner'
+};
+
+const PROVIDERS = Object.keys(AiService.AI_PROVIDER_LABELS) as AiProviderId[];
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ user }) => {
+  const [settings, setSettings] = useState<AiSettings | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => { AiService.getAiSettings().then(setSettings); }, []);
+
+  if (!settings) return null;
+
+  const current = settings.providers[settings.provider];
+  const update = (patch: Partial<AiProviderSettings>) => {
+    setSettings({ ...settings, providers: { ...settings.providers, [settings.provider]: { ...current, ...patch } } });
+    setSaved(false);
+  };
+
+  const save = async () => {
+    await AiService.saveAiSettings(settings);
+    setSaved(true);
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-xs font-bold outline-none";
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">AI Provider</label>
+      <select value={settings.provider} onChange={e => { setSettings({ ...settings, provider: e.target.value as AiProviderId }); setSaved(false); }} aria-label="AI provider" className={inputClass}>
+        {PROVIDERS.map(id => <option key={id} value={id}>{AiService.AI_PROVIDER_LABELS[id]}</option>)}
+      </select>
+      {settings.provider === 'openai' && (
+        <>
+          <input value={current.baseUrl ?? ''} onChange={e => update({ baseUrl: e.target.value })} placeholder="Server URL, e.g. http://localhost:11434/v1" aria-label="Server URL" className={inputClass} />
+          <input type="password" value={current.apiKey ?? ''} onChange={e => update({ apiKey: e.target.value })} placeholder="API key (if the server needs one)" aria-label="API key" className={inputClass} />
+        </>
+      )}
+      {settings.provider !== 'mock' && (
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(MODEL_ROLE_LABELS) as AiModelRole[]).map(role => (
+            <div key={role} className="space-y-1">
+              <span className="text-[9px] font-black uppercase text-slate-400 ml-2 tracking-widest">{MODEL_ROLE_LABELS[role]}</span>
+              <input value={current.models[role]} onChange={e => update({ models: { ...current.models, [role]: e.target.value } })} aria-label={`${MODEL_ROLE_LABELS[role]} model`} className={inputClass} />
+            </div>
+          ))}
+        </div>
+      )}
+      <button onClick={save} className={`w-full py-3 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-xl text-[10px] font-black uppercase tracking-widest bouncy`}>
+        {saved ? 'Saved' : 'Save AI Settings'}
+      </button>
+      <p className="text-[9px] font-bold text-slate-400">
+        {settings.provider === 'gemini' && 'Uses your AI Studio key. Price lookups and scans can search the web.'}
+        {settings.provider === 'openai' && 'For local model servers. No web search, and the live scanner needs Gemini.'}
+        {settings.provider === 'mock' && 'Canned answers for working offline. Nothing leaves this device.'}
+      </p>
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,118 @@
+
+import React, { useRef, useState } from 'react';
+import { UserProfile } from '../types';
+import * as BackupService from '../services/backupService';
+
+interface BackupPanelProps {
+  user: UserProfile;
+  onImported: (message: string) => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ user, onImported }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupService.BackupFile | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<BackupService.ImportMode>('merge');
+  const [strategy, setStrategy] = useState<BackupService.ConflictStrategy>('keep-local');
+  const [plan, setPlan] = useState<BackupService.ImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setBackup(null); setPlan(null); setErrors([]);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const result = await BackupService.parseBackupFile(file);
+    setErrors(result.errors);
+    setBackup(result.backup);
+    if (result.backup) setPlan(await BackupService.planImport(result.backup, mode));
+  };
+
+  const changeMode = async (next: BackupService.ImportMode) => {
+    setMode(next);
+    if (backup) setPlan(await BackupService.planImport(backup, next));
+  };
+
+  const confirmImport = async () => {
+    if (!backup) return;
+    setBusy(true);
+    try {
+      const result = await BackupService.applyImport(backup, mode, strategy);
+      reset();
+      onImported(mode === 'replace'
+        ? `Backup restored: ${result.added.length} items.`
+        : `Backup merged: ${result.added.length} added, ${result.conflicts.length} conflicts ${strategy === 'use-backup' ? 'overwritten' : 'kept local'}.`);
+    } catch (e: any) {
+      console.error("Backup Import Failure:", e);
+      // The plan stays open so the import can be retried
+      setErrors([`Import failed: ${e?.message || String(e)}`]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={() => BackupService.downloadBackup()} className={`py-4 ${user.isGamified ? 'bg-violet-50 text-violet-600 border-violet-100' : 'bg-emerald-50 text-emerald-600 border-emerald-100'} border dark:bg-slate-900 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-[10px] italic transition-colors bouncy shadow-sm`}>
+          {user.isGamified ? 'Save Loot' : 'Export Backup'}
+        </button>
+        <button onClick={() => inputRef.current?.click()} className="py-4 bg-slate-50 text-slate-600 border border-slate-100 dark:bg-slate-900 dark:text-slate-300 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-[10px] italic transition-colors bouncy shadow-sm">
+          {user.isGamified ? 'Load Loot' : 'Import Backup'}
+        </button>
+      </div>
+      <input ref={inputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" aria-hidden="true" tabIndex={-1} />
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-950/20 border border-red-100 dark:border-red-900/40 p-4 rounded-2xl space-y-1" role="alert">
+          {errors.slice(0, 5).map((err, i) => <p key={i} className="text-[10px] font-bold text-red-600">{err}</p>)}
+          {errors.length > 5 && <p className="text-[10px] font-bold text-red-400">+{errors.length - 5} more</p>}
+        </div>
+      )}
+
+      {backup && plan && (
+        <div className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 p-4 rounded-2xl space-y-4 text-left">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            Backup from {new Date(backup.exportedAt).toLocaleDateString()} • {backup.inventory.length} items
+          </p>
+          <div className="flex gap-2">
+            {(['merge', 'replace'] as BackupService.ImportMode[]).map(m => (
+              <button key={m} onClick={() => changeMode(m)} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all bouncy ${mode === m ? 'bg-white dark:bg-slate-800 shadow text-violet-600' : 'text-slate-400'}`}>{m}</button>
+            ))}
+          </div>
+          {mode === 'replace' ? (
+            <p className="text-xs font-bold text-red-600">Replaces profile, stats and meal plan, and removes {plan.removed} local items.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs font-bold">{plan.added.length} new • {plan.unchanged} unchanged • {plan.conflicts.length} conflicts</p>
+              {plan.conflicts.length > 0 && (
+                <>
+                  <ul className="max-h-32 overflow-y-auto no-scrollbar space-y-1">
+                    {plan.conflicts.map(c => (
+                      <li key={c.id} className="text-[10px] font-bold text-slate-500">{c.localName} ↔ {c.backupName}</li>
+                    ))}
+                  </ul>
+                  <select value={strategy} onChange={e => setStrategy(e.target.value as BackupService.ConflictStrategy)} className="w-full bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-[10px] font-black uppercase">
+                    <option value="keep-local">Keep this device's version</option>
+                    <option value="use-backup">Use the backup's version</option>
+                  </select>
+                </>
+              )}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={reset} className="flex-1 py-3 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest bouncy">Cancel</button>
+            <button onClick={confirmImport} disabled={busy} className={`flex-[2] py-3 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>
+              {busy ? '...' : 'Confirm Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
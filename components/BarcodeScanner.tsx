@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UserProfile } from '../types';
+import * as BarcodeService from '../services/barcodeService';
+import { IconX } from './Icons';
+
+interface BarcodeScannerProps {
+  user: UserProfile;
+  // `frame` is a JPEG of the moment the code was read, for the AI if the code is unknown
+  onDetected: (barcode: string, frame: string | null) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ user, onDetected, onClose }) => {
+  const supported = BarcodeService.isDetectionSupported();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState<string | null>(supported ? null : 'This browser cannot read barcodes from the camera. Type the digits under the bars instead.');
+
+  useEffect(() => {
+    if (!supported) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+
+    const captureFrame = (): string | null => {
+      const video = videoRef.current, canvas = canvasRef.current;
+      if (!video || !canvas || !video.videoWidth) return null;
+      canvas.width = video.videoWidth; canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+      return canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+    };
+
+    const scan = async () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          const code = await BarcodeService.detectBarcode(video);
+          if (code && !stopped) {
+            const frame = captureFrame();
+            stop();
+            onDetected(code, frame);
+            return;
+          }
+        } catch (e) {
+          console.error("Barcode Detection Failed:", e);
+        }
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(s => {
+        if (stopped) return s.getTracks().forEach(t => t.stop());
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+        scan();
+      })
+      .catch(() => setError('The camera is not available. Type the digits under the bars instead.'));
+
+    return stop;
+  }, []);
+
+  const submitTyped = () => {
+    const code = BarcodeService.normaliseBarcode(typed);
+    if (!code) return setError(`${typed.trim()} is not a valid EAN or UPC code. Check the digits and try again.`);
+    onDetected(code, null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
+      <div className={`max-w-md w-full bg-white dark:bg-slate-900 ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} p-10 space-y-6 shadow-3xl border border-slate-100 dark:border-slate-800`}>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Zap the Stripes' : 'Barcode Scan'}</h3>
+          <button onClick={onClose} aria-label="Close barcode scanner" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors bouncy"><IconX className="w-5 h-5" /></button>
+        </div>
+        {supported && (
+          <div className="relative aspect-video bg-black rounded-2xl overflow-hidden">
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" aria-label="Camera view" />
+            <canvas ref={canvasRef} className="hidden" />
+            <div className="scan-line"></div>
+          </div>
+        )}
+        <div className="space-y-1">
+          <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Or type the code</label>
+          <div className="flex gap-2">
+            <input value={typed} onChange={e => setTyped(e.target.value)} onKeyDown={e => e.key === 'Enter' && submitTyped()} inputMode="numeric" placeholder="5000112637922" aria-label="Barcode digits" className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl px-4 py-3 text-sm font-black outline-none" />
+            <button onClick={submitTyped} disabled={!typed.trim()} className={`px-5 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>Look Up</button>
+          </div>
+        </div>
+        {error && <p className="text-[10px] font-bold text-red-600" role="alert">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { FoodItem, ScanResult, StorageLocation, UserCategory, UserLocation, UserProfile } from '../types';
+import * as LocationService from '../services/locationService';
+import * as CategoryService from '../services/categoryService';
+import * as AiResponseService from '../services/aiResponseService';
+import { IconX } from './Icons';
+
+interface BatchVerificationModalProps {
+  user: UserProfile;
+  locations: UserLocation[];
+  categories: UserCategory[];
+  image: string; // base64 JPEG the results were detected in
+  results: ScanResult[];
+  onAdd: (items: FoodItem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface Row {
+  selected: boolean;
+  name: string;
+  category: string; // A base category or the id of a custom one
+  quantity: number;
+  unit: string;
+  expiryDate: string;
+  storageLocation: StorageLocation;
+  estimatedPrice?: number; // Left unset rather than 0 when the scan had no price
+}
+
+// The date input gives '' while a date is half typed; normaliseDate rejects days that do not exist
+const hasValidExpiry = (row: Row) => AiResponseService.normaliseDate(row.expiryDate) === row.expiryDate;
+
+/**
+ * Review for a shelf scan: every detected item is outlined in the photo and
+ * listed below it, where it can be left out or corrected before all of them
+ * are logged together.
+ */
+const BatchVerificationModal: React.FC<BatchVerificationModalProps> = ({ user, locations, categories, image, results, onAdd, onClose }) => {
+  const [rows, setRows] = useState<Row[]>(() => results.map(r => ({
+    // Mouldy finds start deselected; logging them is a deliberate choice
+    selected: !r.mouldDetected,
+    name: r.name,
+    category: r.category,
+    quantity: r.quantity || 1,
+    unit: r.unit,
+    expiryDate: r.expiryDate,
+    // The scanner only knows Fridge, Freezer and Pantry
+    storageLocation: LocationService.matchLocation(locations, r.storageLocation),
+    estimatedPrice: r.estimatedPrice || undefined
+  })));
+  const [focused, setFocused] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const update = (index: number, patch: Partial<Row>) => setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  const chosen = rows.filter(r => r.selected);
+  const canSave = chosen.length > 0 && chosen.every(r => r.name.trim() && r.unit.trim() && r.quantity > 0 && hasValidExpiry(r)) && !saving;
+  const boxBorder = user.isGamified ? 'border-violet-400' : 'border-emerald-400';
+  const boxLabel = user.isGamified ? 'bg-violet-500' : 'bg-emerald-500';
+
+  const save = async () => {
+    const now = Date.now();
+    const addedDate = new Date(now).toISOString();
+    const items: FoodItem[] = [];
+    rows.forEach((row, i) => {
+      if (!row.selected) return;
+      const scanned = results[i];
+      items.push({
+        id: `${now}-${i}`,
+        name: row.name.trim(),
+        ...CategoryService.resolveCategory(categories, row.category),
+        expiryDate: row.expiryDate,
+        quantity: row.quantity,
+        unit: row.unit.trim(),
+        storageLocation: row.storageLocation,
+        addedDate,
+        brandInfo: scanned.brandInfo,
+        mouldDetected: scanned.mouldDetected,
+        calories: scanned.calories,
+        estimatedPrice: row.estimatedPrice
+      });
+    });
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onAdd(items);
+    } catch (e) {
+      console.error("Batch Add Failure:", e);
+      setSaveError('Nothing was logged; the items could not be saved. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
+      <div className={`max-w-2xl w-full bg-white dark:bg-slate-900 ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} p-10 space-y-6 shadow-3xl border border-slate-100 dark:border-slate-800 overflow-y-auto max-h-[90vh] no-scrollbar`}>
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Loot Haul' : 'Batch Verification'}</h3>
+            <p className="text-[10px] font-bold text-slate-400 mt-1">{results.length} items found · {chosen.length} selected</p>
+          </div>
+          <button onClick={onClose} aria-label="Close batch verification" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors bouncy"><IconX className="w-5 h-5" /></button>
+        </div>
+
+        <div className="relative rounded-2xl overflow-hidden bg-black">
+          <img src={`data:image/jpeg;base64,${image}`} alt="Scanned shelf" className="w-full h-auto block" />
+          {results.map((r, i) => r.box && (
+            <button
+              key={i}
+              onClick={() => update(i, { selected: !rows[i].selected })}
+              onMouseEnter={() => setFocused(i)}
+              onMouseLeave={() => setFocused(null)}
+              aria-label={`${rows[i].selected ? 'Leave out' : 'Include'} ${rows[i].name || `item ${i + 1}`}`}
+              style={{ left: `${r.box.x * 100}%`, top: `${r.box.y * 100}%`, width: `${r.box.width * 100}%`, height: `${r.box.height * 100}%` }}
+              className={`absolute border-2 rounded-lg transition-all ${rows[i].selected ? (r.mouldDetected ? 'border-red-500' : boxBorder) : 'border-white/40 border-dashed'} ${focused === i ? 'bg-white/20' : ''}`}
+            >
+              <span className={`absolute -top-px -left-px px-1.5 rounded-br-lg text-[9px] font-black text-white ${rows[i].selected ? (r.mouldDetected ? 'bg-red-500' : boxLabel) : 'bg-slate-500'}`}>{i + 1}</span>
+            </button>
+          ))}
+        </div>
+
+        <ul className="space-y-3">
+          {rows.map((row, i) => {
+            const scanned = results[i];
+            return (
+              <li
+                key={i}
+                onMouseEnter={() => setFocused(i)}
+                onMouseLeave={() => setFocused(null)}
+                className={`p-4 rounded-2xl border-2 space-y-3 transition-all ${row.selected ? 'border-slate-100 dark:border-slate-700' : 'border-transparent opacity-50'} ${focused === i ? 'bg-slate-50 dark:bg-slate-800/60' : ''}`}
+              >
+                <div className="flex items-center gap-3">
+                  <input type="checkbox" checked={row.selected} onChange={e => update(i, { selected: e.target.checked })} aria-label={`Log item ${i + 1}`} className="w-4 h-4 shrink-0" />
+                  <span className="text-[10px] font-black text-slate-400 w-4">{i + 1}</span>
+                  <input value={row.name} onChange={e => update(i, { name: e.target.value })} aria-label={`Name of item ${i + 1}`} className={`${inputClass} flex-1 text-sm font-black`} />
+                </div>
+                {scanned.mouldDetected && <p className="text-[10px] font-black text-red-500 uppercase">! Mould detected — left out unless you tick it</p>}
+                {AiResponseService.isLowConfidence(scanned) && (
+                  <div className="text-[10px] font-bold text-amber-600" role="status">
+                    <p className="font-black uppercase">Low confidence ({Math.round(scanned.confidence * 100)}%) — check this one</p>
+                    {scanned.warnings?.map((w, j) => <p key={j}>{w}</p>)}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Qty</span>
+                    <input type="number" min={1} value={row.quantity} onChange={e => update(i, { quantity: Number(e.target.value) })} className={inputClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Unit</span>
+                    <input value={row.unit} onChange={e => update(i, { unit: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Category</span>
+                    <select value={row.category} onChange={e => update(i, { category: e.target.value })} className={inputClass}>
+                      {CategoryService.categoryOptions(categories).map(o => <option key={o.value} value={o.value}>{o.value === o.base ? o.label : `${o.base} › ${o.label}`}</option>)}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">{user.isGamified ? 'Gold' : 'Price'}</span>
+                    <input type="number" min={0} step="0.01" value={row.estimatedPrice ?? ''} placeholder="Unknown" onChange={e => update(i, { estimatedPrice: e.target.value === '' ? undefined : Number(e.target.value) })} className={inputClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">{user.isGamified ? 'Spoils In' : 'Expiry'}</span>
+                    <input type="date" value={row.expiryDate} onChange={e => update(i, { expiryDate: e.target.value })} aria-invalid={row.selected && !hasValidExpiry(row)} className={inputClass} />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">{user.isGamified ? 'Chest' : 'Sector'}</span>
+                    <select value={row.storageLocation} onChange={e => update(i, { storageLocation: e.target.value })} className={inputClass}>
+                      {locations.map(loc => <option key={loc.id} value={loc.id}>{loc.name}</option>)}
+                    </select>
+                  </label>
+                </div>
+                {row.selected && !hasValidExpiry(row) && <p className="text-[10px] font-bold text-red-600" role="alert">Enter a valid expiry date to log this item.</p>}
+              </li>
+            );
+          })}
+        </ul>
+
+        {saveError && <p className="text-[10px] font-bold text-red-600" role="alert">{saveError}</p>}
+        <button onClick={save} disabled={!canSave} className={`w-full py-5 ${user.isGamified ? 'bg-violet-600 rounded-mega-blob' : 'bg-emerald-600 rounded-3xl'} text-white font-black uppercase tracking-widest italic shadow-xl hover:opacity-90 transition-all disabled:opacity-50 bouncy`}>
+          {saving ? 'Logging...' : user.isGamified ? `Collect ${chosen.length} Rewards` : `Log ${chosen.length} to Sectors`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchVerificationModal;
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarExportSettings, Category, UserLocation, UserProfile } from '../types';
+import * as CalendarService from '../services/calendarService';
+
+interface CalendarExportPanelProps {
+  user: UserProfile;
+  locations: UserLocation[];
+}
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+const toggled = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const CalendarExportPanel: React.FC<CalendarExportPanelProps> = ({ user, locations }) => {
+  const [settings, setSettings] = useState<CalendarExportSettings | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    CalendarService.getCalendarSettings().then(setSettings);
+  }, []);
+
+  if (!settings) return null;
+
+  const save = (patch: Partial<CalendarExportSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    setMessage(null);
+    CalendarService.saveCalendarSettings(next);
+  };
+
+  const handleExport = async () => {
+    const count = await CalendarService.downloadCalendar();
+    setMessage(`Exported ${count} expiry ${count === 1 ? 'date' : 'dates'}. Importing the file again updates the same events.`);
+  };
+
+  const chipClass = (active: boolean) => `px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border transition-colors ${active
+    ? (user.isGamified ? 'bg-violet-100 text-violet-600 border-violet-200' : 'bg-emerald-100 text-emerald-600 border-emerald-200')
+    : 'bg-slate-50 dark:bg-slate-900 text-slate-400 border-slate-100 dark:border-slate-700'}`;
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Calendar Export</label>
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Storage locations to include">
+        {locations.map(loc => (
+          <button key={loc.id} onClick={() => save({ excludedLocations: toggled(settings.excludedLocations, loc.id) })} aria-pressed={!settings.excludedLocations.includes(loc.id)} className={chipClass(!settings.excludedLocations.includes(loc.id))}>{loc.name}</button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Categories to include">
+        {CATEGORIES.map(cat => (
+          <button key={cat} onClick={() => save({ categories: toggled(settings.categories, cat) })} aria-pressed={settings.categories.includes(cat)} className={chipClass(settings.categories.includes(cat))}>{cat}</button>
+        ))}
+      </div>
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Remind days before</span>
+        <input type="number" min={0} max={14} value={settings.reminderDays} onChange={e => save({ reminderDays: Math.max(0, Number(e.target.value) || 0) })} className="w-16 text-center bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none" />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+        <input type="checkbox" checked={settings.includeMealPlan} onChange={e => save({ includeMealPlan: e.target.checked })} />
+        Include meal plan days
+      </label>
+      {message && <p className="text-[10px] font-bold text-slate-400" role="status">{message}</p>}
+      <button
+        onClick={handleExport}
+        disabled={locations.every(l => settings.excludedLocations.includes(l.id)) || settings.categories.length === 0}
+        className="w-full py-3 bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy"
+      >
+        Download .ics
+      </button>
+    </div>
+  );
+};
+
+export default CalendarExportPanel;
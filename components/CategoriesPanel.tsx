@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Category, FoodItem, UserCategory, UserProfile } from '../types';
+import * as CategoryService from '../services/categoryService';
+import { IconTrash } from './Icons';
+
+interface CategoriesPanelProps {
+  user: UserProfile;
+  categories: UserCategory[];
+  onChanged: (categories: UserCategory[], inventory?: FoodItem[]) => void;
+}
+
+const CategoriesPanel: React.FC<CategoriesPanelProps> = ({ user, categories, onChanged }) => {
+  const [newName, setNewName] = useState('');
+  const [newBase, setNewBase] = useState<Category>('Other');
+  const [error, setError] = useState<string | null>(null);
+
+  // Custom names may not shadow a base category or each other
+  const taken = (name: string, except?: string) =>
+    [...CategoryService.BASE_CATEGORIES, ...categories.filter(c => c.id !== except).map(c => c.name)]
+      .some(n => n.toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (taken(newName)) return setError(`There is already a category called ${newName.trim()}.`);
+    onChanged(await CategoryService.createCategory(newName, newBase));
+    setNewName('');
+    setError(null);
+  };
+
+  const handleUpdate = async (category: UserCategory, patch: Partial<Omit<UserCategory, 'id'>>) => {
+    if (patch.name !== undefined && (!patch.name.trim() || patch.name.trim() === category.name)) return;
+    if (patch.name !== undefined && taken(patch.name, category.id)) return setError(`There is already a category called ${patch.name.trim()}.`);
+    const result = await CategoryService.updateCategory(category.id, patch);
+    onChanged(result.categories, result.inventory);
+    setError(null);
+  };
+
+  const handleDelete = async (category: UserCategory) => {
+    if (!window.confirm(`Delete ${category.name}? Its items move back to ${category.base}.`)) return;
+    const result = await CategoryService.deleteCategory(category.id);
+    onChanged(result.categories, result.inventory);
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none";
+  const baseSelect = (value: Category, onChange: (base: Category) => void, label: string) => (
+    <select value={value} onChange={e => onChange(e.target.value as Category)} aria-label={label} className={`${inputClass} text-[10px] uppercase`}>
+      {CategoryService.BASE_CATEGORIES.map(base => <option key={base} value={base}>{base}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Custom Categories</label>
+      {categories.length > 0 && (
+        <ul className="space-y-2">
+          {categories.map(cat => (
+            <li key={cat.id} className="flex items-center gap-1">
+              <input
+                defaultValue={cat.name}
+                key={cat.name}
+                onBlur={e => handleUpdate(cat, { name: e.target.value })}
+                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                aria-label={`Name of ${cat.name}`}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              {baseSelect(cat.base, base => handleUpdate(cat, { base }), `Base category of ${cat.name}`)}
+              <button onClick={() => handleDelete(cat)} aria-label={`Delete ${cat.name}`} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><IconTrash className="w-4 h-4" /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-1">
+        <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleCreate()} placeholder="Fish, sauces, pet food…" aria-label="New category name" className={`${inputClass} flex-1 min-w-0`} />
+        {baseSelect(newBase, setNewBase, 'New category base')}
+        <button onClick={handleCreate} disabled={!newName.trim()} className={`px-4 py-2 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>Add</button>
+      </div>
+      {error && <p className="text-[10px] font-bold text-red-600" role="alert">{error}</p>}
+      <p className="text-[9px] font-bold text-slate-400">Stats and CO2 estimates count each one under its base category.</p>
+    </div>
+  );
+};
+
+export default CategoriesPanel;
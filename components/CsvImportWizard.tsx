@@ -0,0 +1,191 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FoodItem, UserCategory, UserLocation, UserProfile } from '../types';
+import * as CsvService from '../services/csvService';
+import * as StorageService from '../services/storageService';
+import { findLocation } from '../services/locationService';
+import { categoryLabel } from '../services/categoryService';
+import { IconX } from './Icons';
+
+interface CsvImportWizardProps {
+  user: UserProfile;
+  locations: UserLocation[];
+  categories: UserCategory[];
+  onImported: (items: FoodItem[]) => void;
+  onClose: () => void;
+}
+
+type WizardStep = 'file' | 'mapping' | 'preview';
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ user, locations, categories, onImported, onClose }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>('file');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvService.ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvService.DateFormat>('YYYY-MM-DD');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Read when the preview opens; rows whose id is already there are not new
+  const [local, setLocal] = useState<FoodItem[]>([]);
+  const [strategy, setStrategy] = useState<CsvService.CsvConflictStrategy>('keep-local');
+
+  const preview = useMemo(
+    () => step === 'preview' ? CsvService.buildImportPreview(rows, mapping, dateFormat, locations, categories) : [],
+    [step, rows, mapping, dateFormat, locations, categories]
+  );
+  const invalidRows = preview.filter(r => !r.item);
+  const plan = useMemo(() => CsvService.planCsvImport(preview.filter(r => r.item).map(r => r.item!), local), [preview, local]);
+  const writeCount = plan.added.length + (strategy === 'use-file' ? plan.conflicts.length : 0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = CsvService.parseCsv(await file.text());
+    if (parsed.length < 2) {
+      setFileError('The file needs a header row and at least one data row.');
+      return;
+    }
+    const [head, ...data] = parsed;
+    const guessed = CsvService.guessColumnMapping(head);
+    setHeaders(head);
+    setRows(data);
+    setMapping(guessed);
+    if (guessed.expiryDate !== undefined) {
+      setDateFormat(CsvService.detectDateFormat(data.map(r => r[guessed.expiryDate!] ?? '')));
+    }
+    setFileError(null);
+    setStep('mapping');
+  };
+
+  const updateMapping = (field: CsvService.FoodItemField, column: string) => {
+    setMapping(p => {
+      const next = { ...p };
+      if (column === '') delete next[field];
+      else next[field] = Number(column);
+      return next;
+    });
+    if (field === 'expiryDate' && column !== '') {
+      setDateFormat(CsvService.detectDateFormat(rows.map(r => r[Number(column)] ?? '')));
+    }
+  };
+
+  const showPreview = async () => {
+    setLocal(await StorageService.getInventory());
+    setSaveError(null);
+    setStep('preview');
+  };
+
+  const commit = async () => {
+    if (writeCount === 0) return;
+    const replaced = strategy === 'use-file' ? plan.conflicts : [];
+    setSaving(true);
+    try {
+      // Written as edits of the local copies, so they are not logged as new
+      // purchases. First, so a copy changed since the preview stops the import.
+      if (replaced.length) await StorageService.updateFoodItems(replaced.map(c => c.incoming), replaced.map(c => c.local));
+      await StorageService.addFoodItems(plan.added);
+      onImported([...plan.added, ...replaced.map(c => c.incoming)]);
+    } catch (error: any) {
+      console.error("CSV Import Failure:", error);
+      setSaveError(error instanceof StorageService.ConcurrentWriteError
+        ? `${error.message}. Go back and open the preview again to compare with the latest version.`
+        : 'The import could not be saved. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClass = "w-full bg-slate-50 dark:bg-slate-800 p-3 rounded-xl text-xs font-bold border-2 border-slate-100 dark:border-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
+      <div className={`max-w-2xl w-full bg-white dark:bg-slate-900 ${user.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} p-10 space-y-6 shadow-3xl border border-slate-100 dark:border-slate-800 overflow-y-auto max-h-[90vh] no-scrollbar`}>
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-black uppercase italic tracking-tighter">{user.isGamified ? 'Bulk Loot Import' : 'Spreadsheet Import'}</h3>
+            <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mt-1">Step {step === 'file' ? 1 : step === 'mapping' ? 2 : 3} of 3</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors bouncy"><IconX className="w-5 h-5" /></button>
+        </div>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <input ref={inputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" aria-hidden="true" tabIndex={-1} />
+            <button onClick={() => inputRef.current?.click()} className="w-full h-40 border-2 border-dashed border-emerald-300 rounded-2xl text-emerald-600 font-black uppercase tracking-widest text-xs hover:bg-emerald-50 dark:hover:bg-emerald-950/20 transition-colors bouncy">
+              Choose CSV File
+            </button>
+            {fileError && <p className="text-xs font-bold text-red-600" role="alert">{fileError}</p>}
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-xs text-slate-500 font-medium">Match your spreadsheet columns to item fields. {rows.length} rows found.</p>
+            <div className="grid grid-cols-2 gap-3">
+              {CsvService.FOOD_ITEM_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{field}{(field === 'name' || field === 'expiryDate') && ' *'}</label>
+                  <select value={mapping[field] ?? ''} onChange={e => updateMapping(field, e.target.value)} className={selectClass}>
+                    <option value="">— not imported —</option>
+                    {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Expiry Date Format (detected)</label>
+              <select value={dateFormat} onChange={e => setDateFormat(e.target.value as CsvService.DateFormat)} className={selectClass}>
+                {CsvService.DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+            <div className="flex gap-4 pt-2">
+              <button onClick={() => setStep('file')} className="flex-1 py-4 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-black rounded-2xl uppercase tracking-widest text-[10px] italic bouncy">Back</button>
+              <button onClick={showPreview} disabled={mapping.name === undefined || mapping.expiryDate === undefined} className={`flex-[2] py-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white font-black rounded-2xl uppercase tracking-widest italic text-[10px] disabled:opacity-50 bouncy`}>Preview</button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <p className="text-xs font-bold">{plan.added.length} new • {plan.unchanged} unchanged • {plan.conflicts.length} conflicts • <span className={invalidRows.length ? 'text-red-600' : ''}>{invalidRows.length} with errors (skipped)</span></p>
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-bold text-slate-500">These rows have the id of an item you already have, with different details:</p>
+                <ul className="max-h-32 overflow-y-auto no-scrollbar space-y-1">
+                  {plan.conflicts.map(c => (
+                    <li key={c.local.id} className="text-[10px] font-bold text-slate-500">{c.local.name} ↔ {c.incoming.name}</li>
+                  ))}
+                </ul>
+                <select value={strategy} onChange={e => setStrategy(e.target.value as CsvService.CsvConflictStrategy)} className={selectClass}>
+                  <option value="keep-local">Keep this device's version</option>
+                  <option value="use-file">Use the file's version</option>
+                </select>
+              </div>
+            )}
+            <div className="max-h-64 overflow-y-auto no-scrollbar border border-slate-100 dark:border-slate-700 rounded-2xl divide-y divide-slate-100 dark:divide-slate-800">
+              {preview.map(r => (
+                <div key={r.rowNumber} className={`px-4 py-2 text-xs ${r.item ? '' : 'bg-red-50 dark:bg-red-950/20'}`}>
+                  <span className="text-[10px] font-black text-slate-400 mr-3">#{r.rowNumber}</span>
+                  {r.item
+                    ? <span className="font-bold">{r.item.name} • {r.item.quantity} {r.item.unit} • {categoryLabel(categories, r.item)} • {findLocation(locations, r.item.storageLocation).name} • {r.item.expiryDate}</span>
+                    : <span className="font-bold text-red-600">{r.errors.join('; ')}</span>}
+                </div>
+              ))}
+            </div>
+            {saveError && <p className="text-xs font-bold text-red-600" role="alert">{saveError}</p>}
+            <div className="flex gap-4 pt-2">
+              <button onClick={() => setStep('mapping')} className="flex-1 py-4 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-black rounded-2xl uppercase tracking-widest text-[10px] italic bouncy">Back</button>
+              <button onClick={commit} disabled={saving || writeCount === 0} className={`flex-[2] py-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white font-black rounded-2xl uppercase tracking-widest italic text-[10px] disabled:opacity-50 bouncy`}>
+                {saving ? '...' : `Import ${writeCount} Items`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
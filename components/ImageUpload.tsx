@@ -1,13 +1,16 @@
 
 import React, { useRef, useState } from 'react';
 import { IconCamera } from './Icons';
+import { detectBarcodeInImage } from '../services/barcodeService';
 
 interface ImageUploadProps {
-  onImageSelected: (base64: string) => void;
+  onImageSelected: (base64: string, barcode: string | null) => void;
   isLoading: boolean;
+  title?: string;
+  hint?: string;
 }
 
-const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isLoading }) => {
+const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isLoading, title = 'Tap to Scan Food Label', hint = 'OCR detects name, expiry & barcode' }) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const [preview, setPreview] = useState<string | null>(null);
 
@@ -15,12 +18,13 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isLoading })
     const file = e.target.files?.[0];
     if (file) {
       const reader = new FileReader();
-      reader.onloadend = () => {
+      reader.onloadend = async () => {
         const result = reader.result as string;
         setPreview(result);
         // Remove data URL prefix for API
         const base64 = result.split(',')[1];
-        onImageSelected(base64);
+        // A readable barcode lets the catalogue answer without an AI call
+        onImageSelected(base64, await detectBarcodeInImage(base64, file.type));
       };
       reader.readAsDataURL(file);
     }
@@ -55,7 +59,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isLoading })
           onClick={triggerCamera}
           onKeyDown={handleKeyDown}
           disabled={isLoading}
-          aria-label="Tap to scan food label with camera"
+          aria-label={`${title} with camera`}
           className={`w-full h-48 border-2 border-dashed rounded-xl flex flex-col items-center justify-center transition-colors focus:outline-none focus:ring-4 focus:ring-emerald-200
             ${isLoading ? 'bg-gray-50 border-gray-300 cursor-wait' : 'bg-white border-emerald-300 text-emerald-600 hover:bg-emerald-50 active:bg-emerald-100'}
           `}
@@ -68,8 +72,8 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelected, isLoading })
           ) : (
             <>
               <IconCamera className="w-8 h-8 mb-2" />
-              <span className="font-semibold">Tap to Scan Food Label</span>
-              <span className="text-xs text-gray-400 mt-1">OCR detects name & expiry</span>
+              <span className="font-semibold">{title}</span>
+              <span className="text-xs text-gray-400 mt-1">{hint}</span>
             </>
           )}
         </button>
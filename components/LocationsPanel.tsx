@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { FoodItem, LocationType, StorageLocation, UserLocation, UserProfile } from '../types';
+import * as LocationService from '../services/locationService';
+import { IconTrash, IconX } from './Icons';
+
+interface LocationsPanelProps {
+  user: UserProfile;
+  locations: UserLocation[];
+  onChanged: (locations: UserLocation[], inventory?: FoodItem[]) => void;
+}
+
+const TYPES = Object.keys(LocationService.LOCATION_TYPE_LABELS) as LocationType[];
+
+const LocationsPanel: React.FC<LocationsPanelProps> = ({ user, locations, onChanged }) => {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<LocationType>('chilled');
+  const [deleting, setDeleting] = useState<StorageLocation | null>(null);
+  const [moveTo, setMoveTo] = useState<StorageLocation>('');
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null);
+
+  const taken = (name: string, except?: StorageLocation) =>
+    locations.some(l => l.id !== except && l.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (taken(newName)) return setMessage({ text: `There is already a location called ${newName.trim()}.`, error: true });
+    onChanged(await LocationService.createLocation(newName, newType));
+    setNewName('');
+    setMessage(null);
+  };
+
+  const handleRename = async (location: UserLocation, name: string) => {
+    if (!name.trim() || name.trim() === location.name) return;
+    if (taken(name, location.id)) return setMessage({ text: `There is already a location called ${name.trim()}.`, error: true });
+    onChanged(await LocationService.updateLocation(location.id, { name }));
+    setMessage(null);
+  };
+
+  const startDelete = (id: StorageLocation) => {
+    setDeleting(id);
+    setMoveTo(locations.find(l => l.id !== id)?.id ?? '');
+    setMessage(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const name = locations.find(l => l.id === deleting)?.name;
+    try {
+      const result = await LocationService.deleteLocation(deleting, moveTo);
+      onChanged(result.locations, result.inventory);
+      const target = result.locations.find(l => l.id === moveTo)?.name;
+      setMessage({ text: result.moved > 0 ? `Deleted ${name} and moved ${result.moved} ${result.moved === 1 ? 'item' : 'items'} to the ${target}.` : `Deleted ${name}.`, error: false });
+    } catch (e: any) {
+      setMessage({ text: e.message, error: true });
+    }
+    setDeleting(null);
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none";
+  const arrowClass = "w-6 h-6 rounded-full bg-slate-50 dark:bg-slate-900 text-xs font-black disabled:opacity-30 bouncy";
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Storage Locations</label>
+      <ul className="space-y-2">
+        {locations.map((loc, index) => (
+          <li key={loc.id} className="space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                defaultValue={loc.name}
+                key={loc.name}
+                onBlur={e => handleRename(loc, e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                aria-label={`Name of ${loc.name}`}
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <select value={loc.type} onChange={async e => onChanged(await LocationService.updateLocation(loc.id, { type: e.target.value as LocationType }))} aria-label={`Type of ${loc.name}`} className={`${inputClass} text-[10px] uppercase`}>
+                {TYPES.map(type => <option key={type} value={type}>{LocationService.LOCATION_TYPE_LABELS[type]}</option>)}
+              </select>
+              <button onClick={async () => onChanged(await LocationService.reorderLocation(loc.id, -1))} disabled={index === 0} aria-label={`Move ${loc.name} up`} className={arrowClass}>↑</button>
+              <button onClick={async () => onChanged(await LocationService.reorderLocation(loc.id, 1))} disabled={index === locations.length - 1} aria-label={`Move ${loc.name} down`} className={arrowClass}>↓</button>
+              <button onClick={() => startDelete(loc.id)} disabled={locations.length <= 1} aria-label={`Delete ${loc.name}`} className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-30 transition-colors"><IconTrash className="w-4 h-4" /></button>
+            </div>
+            {deleting === loc.id && (
+              <div className="flex items-center gap-2 bg-red-50 dark:bg-red-950/20 border border-red-100 dark:border-red-900/40 rounded-xl px-3 py-2">
+                <span className="text-[10px] font-bold text-red-600">Move its items to</span>
+                <select value={moveTo} onChange={e => setMoveTo(e.target.value)} aria-label="Move items to" className={`${inputClass} flex-1`}>
+                  {locations.filter(l => l.id !== loc.id).map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+                <button onClick={handleDelete} className="px-3 py-2 bg-red-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest bouncy">Delete</button>
+                <button onClick={() => setDeleting(null)} aria-label="Keep this location" className="p-1 text-slate-400"><IconX className="w-4 h-4" /></button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-1">
+        <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleCreate()} placeholder="Garage freezer, wine rack…" aria-label="New location name" className={`${inputClass} flex-1 min-w-0`} />
+        <select value={newType} onChange={e => setNewType(e.target.value as LocationType)} aria-label="New location type" className={`${inputClass} text-[10px] uppercase`}>
+          {TYPES.map(type => <option key={type} value={type}>{LocationService.LOCATION_TYPE_LABELS[type]}</option>)}
+        </select>
+        <button onClick={handleCreate} disabled={!newName.trim()} className={`px-4 py-2 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>Add</button>
+      </div>
+      {message && <p className={`text-[10px] font-bold ${message.error ? 'text-red-600' : 'text-slate-400'}`} role={message.error ? 'alert' : 'status'}>{message.text}</p>}
+      <p className="text-[9px] font-bold text-slate-400">The type sets how long food keeps there. Scans go to the closest match.</p>
+    </div>
+  );
+};
+
+export default LocationsPanel;
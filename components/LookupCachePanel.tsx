@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { LookupCacheEntry, LookupKind, UserProfile } from '../types';
+import * as LookupCacheService from '../services/lookupCacheService';
+import { describeAiError } from '../services/aiErrors';
+import { IconTrash } from './Icons';
+
+interface LookupCachePanelProps {
+  user: UserProfile;
+}
+
+const LookupCachePanel: React.FC<LookupCachePanelProps> = ({ user }) => {
+  const [entries, setEntries] = useState<LookupCacheEntry[]>([]);
+  const [refreshing, setRefreshing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = () => LookupCacheService.getLookupEntries().then(setEntries);
+
+  useEffect(() => { reload(); }, []);
+
+  const handleRefresh = async (entry: LookupCacheEntry) => {
+    setRefreshing(entry.id);
+    setError(null);
+    try {
+      await LookupCacheService.refreshLookupEntry(entry);
+      await reload();
+    } catch (err) {
+      setError(describeAiError(err, user.isGamified));
+    } finally {
+      setRefreshing(null);
+    }
+  };
+
+  const handleDelete = async (entry: LookupCacheEntry) => {
+    await LookupCacheService.deleteLookupEntry(entry.id);
+    reload();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Forget every saved estimate and correction?')) return;
+    await LookupCacheService.clearLookupCache();
+    reload();
+  };
+
+  const describe = (entry: LookupCacheEntry, kind: LookupKind, format: (v: number) => string) => {
+    const value = entry[kind];
+    if (!value) return <span className="text-slate-300">—</span>;
+    const expired = !LookupCacheService.isFresh(value, kind);
+    return (
+      <span className={expired ? 'text-slate-300' : ''} title={`${value.source === 'user' ? 'Your correction' : 'Estimate'} from ${new Date(value.updatedAt).toLocaleDateString()}${expired ? ', expired' : ''}`}>
+        {format(value.value)}{value.source === 'user' && <span className={user.isGamified ? 'text-violet-600' : 'text-emerald-600'}> ✓</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Saved Price &amp; Calorie Lookups</label>
+        {entries.length > 0 && <button onClick={handleClear} className="text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-red-600">Clear</button>}
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-[10px] font-bold text-slate-400 ml-2">Nothing yet. Neural Search results are saved here so the same item is not looked up twice.</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-2 bg-slate-50 dark:bg-slate-900 rounded-xl px-3 py-2 text-[10px] font-bold">
+              <span className="flex-1 min-w-0 truncate">{entry.name} <span className="text-slate-400">· {entry.country}</span></span>
+              <span className="w-14 text-right">{describe(entry, 'price', v => `$${v.toFixed(2)}`)}</span>
+              <span className="w-16 text-right">{describe(entry, 'calories', v => `${v} kcal`)}</span>
+              <button onClick={() => handleRefresh(entry)} disabled={refreshing !== null} aria-label={`Look up ${entry.name} again`} className="px-1 text-slate-400 hover:text-slate-600 disabled:opacity-30">{refreshing === entry.id ? '…' : '↻'}</button>
+              <button onClick={() => handleDelete(entry)} aria-label={`Forget ${entry.name}`} className="p-1 text-slate-400 hover:text-red-500 transition-colors"><IconTrash className="w-3 h-3" /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-[10px] font-bold text-red-600" role="alert">{error}</p>}
+      <p className="text-[9px] font-bold text-slate-400">
+        Estimates are kept {LookupCacheService.LOOKUP_TTL_DAYS.price} days for prices and {LookupCacheService.LOOKUP_TTL_DAYS.calories} for calories. Values you correct (✓) always win.
+      </p>
+    </div>
+  );
+};
+
+export default LookupCachePanel;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { NotificationSettings, UserProfile } from '../types';
+import * as NotificationService from '../services/notificationService';
+
+interface NotificationSettingsPanelProps {
+  user: UserProfile;
+}
+
+const NotificationSettingsPanel: React.FC<NotificationSettingsPanelProps> = ({ user }) => {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [permission, setPermission] = useState(NotificationService.getPermission());
+  const [background, setBackground] = useState(false);
+
+  useEffect(() => {
+    NotificationService.getNotificationSettings().then(setSettings);
+    NotificationService.hasBackgroundAlerts().then(setBackground);
+  }, []);
+
+  if (!settings) return null;
+
+  const save = async (patch: Partial<NotificationSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    await NotificationService.saveNotificationSettings(next);
+    NotificationService.checkNotifications();
+  };
+
+  const toggle = async () => {
+    if (settings.enabled) return save({ enabled: false });
+    const result = permission === 'granted' ? permission : await NotificationService.requestPermission();
+    setPermission(result);
+    if (result === 'granted') await save({ enabled: true });
+  };
+
+  const inputClass = "bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold outline-none";
+  const rowClass = "flex justify-between items-center gap-2";
+  const labelClass = "text-[10px] font-black uppercase text-slate-400 tracking-widest";
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Expiry Alerts</label>
+        <button
+          onClick={toggle}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all disabled:opacity-50 bouncy ${settings.enabled ? (user.isGamified ? 'bg-violet-100 text-violet-600' : 'bg-emerald-100 text-emerald-600') : 'bg-slate-100 text-slate-400'}`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+      {permission === 'unsupported' && <p className="text-[10px] font-bold text-slate-400">This browser cannot show notifications.</p>}
+      {permission === 'denied' && <p className="text-[10px] font-bold text-red-600" role="alert">Notifications are blocked in your browser settings.</p>}
+      {settings.enabled && (
+        <>
+          <div className={rowClass}>
+            <span className={labelClass}>Alert days before expiry</span>
+            <input type="number" min={0} max={14} value={settings.leadDays} onChange={e => save({ leadDays: Math.max(0, Number(e.target.value) || 0) })} className={`${inputClass} w-16 text-center`} />
+          </div>
+          <div className={rowClass}>
+            <span className={labelClass}>Daily digest</span>
+            <div className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.digestEnabled} onChange={e => save({ digestEnabled: e.target.checked })} aria-label="Send a daily digest" />
+              <input type="time" value={settings.digestTime} disabled={!settings.digestEnabled} onChange={e => save({ digestTime: e.target.value })} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+          </div>
+          <div className={rowClass}>
+            <span className={labelClass}>Quiet hours</span>
+            <div className="flex items-center gap-1">
+              <input type="time" value={settings.quietStart} onChange={e => save({ quietStart: e.target.value })} aria-label="Quiet hours start" className={inputClass} />
+              <span className="text-xs text-slate-400">–</span>
+              <input type="time" value={settings.quietEnd} onChange={e => save({ quietEnd: e.target.value })} aria-label="Quiet hours end" className={inputClass} />
+            </div>
+          </div>
+          <p className="text-[9px] font-bold text-slate-400">Set both quiet times equal to turn quiet hours off.</p>
+        </>
+      )}
+      {permission !== 'unsupported' && (background
+        ? <p className="text-[9px] font-bold text-slate-400">Alerts also arrive with the app closed, when your browser next checks in the background.</p>
+        : <p className="text-[10px] font-bold text-amber-600" role="status">Alerts only arrive while Fridgeometer is open in a tab. This browser cannot check for them in the background.</p>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettingsPanel;
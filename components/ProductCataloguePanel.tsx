@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UserProfile } from '../types';
+import * as CatalogueService from '../services/catalogueService';
+
+interface ProductCataloguePanelProps {
+  user: UserProfile;
+}
+
+const ProductCataloguePanel: React.FC<ProductCataloguePanelProps> = ({ user }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [counts, setCounts] = useState<{ imported: number, learned: number } | null>(null);
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => CatalogueService.getCatalogueCounts().then(setCounts);
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setBusy(true);
+    try {
+      const result = await CatalogueService.importCatalogue(await file.text());
+      setMessage({ text: `Imported ${result.imported} products${result.skipped > 0 ? `, skipped ${result.skipped}` : ''}.`, error: false });
+    } catch (err: any) {
+      setMessage({ text: err.message, error: true });
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+      refresh();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all imported products? Ones learned from your scans stay.')) return;
+    await CatalogueService.clearImportedProducts();
+    setMessage(null);
+    refresh();
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Product Catalogue</label>
+      <p className="text-[10px] font-bold text-slate-500 ml-2">
+        {counts ? `${counts.imported} imported · ${counts.learned} learned from your scans` : 'Loading…'}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={() => inputRef.current?.click()} disabled={busy} className={`py-4 ${user.isGamified ? 'bg-violet-50 text-violet-600 border-violet-100' : 'bg-emerald-50 text-emerald-600 border-emerald-100'} border dark:bg-slate-900 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-[10px] italic transition-colors disabled:opacity-50 bouncy shadow-sm`}>
+          {busy ? 'Importing…' : 'Import Products'}
+        </button>
+        <button onClick={handleClear} disabled={busy || !counts?.imported} className="py-4 bg-slate-50 text-slate-600 border border-slate-100 dark:bg-slate-900 dark:text-slate-300 dark:border-slate-700 rounded-2xl font-black uppercase tracking-widest text-[10px] italic transition-colors disabled:opacity-50 bouncy shadow-sm">
+          Clear Imported
+        </button>
+      </div>
+      <input ref={inputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" aria-hidden="true" tabIndex={-1} />
+      {message && <p className={`text-[10px] font-bold ${message.error ? 'text-red-600' : 'text-slate-400'}`} role={message.error ? 'alert' : 'status'}>{message.text}</p>}
+      <p className="text-[9px] font-bold text-slate-400">CSV or TSV with barcode and name columns, e.g. an Open Food Facts export. Known barcodes skip the AI scan.</p>
+    </div>
+  );
+};
+
+export default ProductCataloguePanel;
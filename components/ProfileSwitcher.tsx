@@ -0,0 +1,89 @@
+
+import React, { useEffect, useState } from 'react';
+import { DeviceRegistry, UserProfile } from '../types';
+import * as StorageService from '../services/storageService';
+
+interface ProfileSwitcherProps {
+  user: UserProfile;
+  onSwitched: (message: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ user, onSwitched }) => {
+  const [registry, setRegistry] = useState<DeviceRegistry | null>(null);
+  const [newHousehold, setNewHousehold] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => StorageService.getRegistry().then(setRegistry);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  if (!registry) return null;
+
+  const profile = registry.profiles.find(p => p.id === registry.activeProfileId);
+  if (!profile) return null;
+  const households = registry.households.filter(h => profile.householdIds.includes(h.id));
+  const others = registry.profiles.filter(p => p.id !== profile.id);
+  const householdName = (id: string) => registry.households.find(h => h.id === id)?.name ?? 'Home';
+
+  const run = async (task: () => Promise<unknown>, message: string) => {
+    setBusy(true);
+    try {
+      await task();
+      await refresh();
+      onSwitched(message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-[10px] font-black uppercase";
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">{user.isGamified ? 'Base' : 'Household'}</label>
+        <select
+          value={profile.activeHouseholdId}
+          disabled={busy}
+          onChange={e => run(() => StorageService.switchHousehold(e.target.value), `Switched to ${householdName(e.target.value)}.`)}
+          className={selectClass}
+        >
+          {households.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+        </select>
+        <div className="flex gap-2">
+          <input value={newHousehold} onChange={e => setNewHousehold(e.target.value)} placeholder="New household name" className="flex-1 bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-xs font-bold outline-none" />
+          <button
+            disabled={busy || !newHousehold.trim()}
+            onClick={() => run(async () => { await StorageService.createHousehold(newHousehold); setNewHousehold(''); }, `Created ${newHousehold.trim()}.`)}
+            className={`px-4 ${user.isGamified ? 'bg-violet-600' : 'bg-emerald-600'} text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}
+          >
+            Create
+          </button>
+        </div>
+      </div>
+
+      {others.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Other Profiles On This Device</label>
+          <ul className="space-y-2">
+            {others.map(p => (
+              <li key={p.id} className="flex items-center justify-between gap-2 bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2">
+                <span className="text-xs font-bold truncate">{p.name}</span>
+                <div className="flex gap-2 shrink-0">
+                  {!p.householdIds.includes(profile.activeHouseholdId) && (
+                    <button disabled={busy} onClick={() => run(() => StorageService.joinHousehold(p.id, profile.activeHouseholdId), `${p.name} can now use ${householdName(profile.activeHouseholdId)}.`)} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-600 disabled:opacity-50">Share Household</button>
+                  )}
+                  <button disabled={busy} onClick={() => run(() => StorageService.switchProfile(p.id), `Signed in as ${p.name}.`)} className={`text-[10px] font-black uppercase tracking-widest ${user.isGamified ? 'text-violet-600' : 'text-emerald-600'} disabled:opacity-50`}>Switch</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
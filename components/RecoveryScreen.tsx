@@ -0,0 +1,143 @@
+
+import React, { useEffect, useState } from 'react';
+import { QuarantineEntry, UserProfile } from '../types';
+import * as StorageService from '../services/storageService';
+import { IconX } from './Icons';
+
+interface RecoveryScreenProps {
+  user: UserProfile | null;
+  loadError?: string | null; // Stored data could not be read at all
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<QuarantineEntry['entity'], string> = {
+  inventory: 'Food item',
+  user: 'Profile',
+  stats: 'Stats',
+  mealPlan: 'Meal plan',
+  ledger: 'History event',
+  locations: 'Storage locations',
+  categories: 'Custom categories'
+};
+
+// Parseable values are shown indented for editing; broken JSON as stored
+const editableText = (raw: string) => {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch (error) {
+    return raw;
+  }
+};
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ user, loadError, onChanged, onClose }) => {
+  const [entries, setEntries] = useState<QuarantineEntry[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [problems, setProblems] = useState<Record<string, string[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const next = await StorageService.getQuarantine().catch(error => {
+      console.error("Quarantine Read Failure:", error);
+      return [] as QuarantineEntry[];
+    });
+    setEntries(next);
+    setDrafts(p => Object.fromEntries(next.map(e => [e.id, p[e.id] ?? editableText(e.raw)])));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const restore = async (entry: QuarantineEntry) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(drafts[entry.id]);
+    } catch (error) {
+      setProblems(p => ({ ...p, [entry.id]: ['Not valid JSON'] }));
+      return;
+    }
+    setBusyId(entry.id);
+    try {
+      const errors = await StorageService.restoreQuarantined(entry.id, value);
+      setProblems(p => ({ ...p, [entry.id]: errors }));
+      if (errors.length === 0) {
+        await refresh();
+        onChanged();
+      }
+    } catch (error: any) {
+      console.error("Quarantine Restore Failure:", error);
+      setProblems(p => ({ ...p, [entry.id]: [`Could not save the fix: ${error?.message || String(error)}`] }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const discard = async (entry: QuarantineEntry) => {
+    if (!window.confirm(`Permanently delete this ${ENTITY_LABELS[entry.entity].toLowerCase()}?`)) return;
+    setBusyId(entry.id);
+    try {
+      await StorageService.discardQuarantined(entry.id);
+      await refresh();
+      onChanged();
+    } catch (error: any) {
+      console.error("Quarantine Discard Failure:", error);
+      setProblems(p => ({ ...p, [entry.id]: [`Could not delete the entry: ${error?.message || String(error)}`] }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const accent = user?.isGamified ? 'bg-violet-600' : 'bg-emerald-600';
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6 animate-in zoom-in-95">
+      <div className={`max-w-2xl w-full bg-white dark:bg-slate-900 ${user?.isGamified ? 'rounded-mega-blob' : 'rounded-[3rem]'} p-10 space-y-6 shadow-3xl border border-slate-100 dark:border-slate-800 overflow-y-auto max-h-[90vh] no-scrollbar`}>
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl font-black uppercase italic tracking-tighter">Data Recovery</h3>
+            <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest mt-1">{entries.length} damaged {entries.length === 1 ? 'entry' : 'entries'} set aside</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors bouncy"><IconX className="w-5 h-5" /></button>
+        </div>
+
+        {loadError && (
+          <div className="bg-red-50 dark:bg-red-950/20 border border-red-100 dark:border-red-900/40 rounded-2xl p-4 space-y-3" role="alert">
+            <p className="text-xs font-black text-red-600">Your data could not be loaded: {loadError}</p>
+            <p className="text-[10px] font-bold text-slate-500">Fix or delete the damaged entries below, or close and reload the page. Nothing has been deleted.</p>
+            <button onClick={onChanged} className={`w-full py-3 ${accent} text-white rounded-xl text-[10px] font-black uppercase tracking-widest bouncy`}>Try Again</button>
+          </div>
+        )}
+
+        {entries.length === 0 && !loadError && <p className="text-xs font-bold text-slate-500">Nothing left to review.</p>}
+
+        {entries.map(entry => (
+          <div key={entry.id} className="border border-slate-100 dark:border-slate-700 rounded-2xl p-4 space-y-3">
+            <div className="flex justify-between items-baseline gap-2">
+              <span className="text-xs font-black uppercase tracking-widest">{ENTITY_LABELS[entry.entity]}</span>
+              <span className="text-[10px] font-bold text-slate-400">{new Date(entry.quarantinedAt).toLocaleString()}</span>
+            </div>
+            <ul className="space-y-1">
+              {(problems[entry.id]?.length ? problems[entry.id] : entry.errors).map((err, i) => (
+                <li key={i} className="text-[10px] font-bold text-red-600">{err}</li>
+              ))}
+            </ul>
+            <textarea
+              value={drafts[entry.id] ?? ''}
+              onChange={e => setDrafts(p => ({ ...p, [entry.id]: e.target.value }))}
+              rows={8}
+              spellCheck={false}
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl p-3 text-[11px] font-mono outline-none"
+            />
+            <div className="flex gap-2">
+              <button onClick={() => discard(entry)} disabled={busyId !== null} className="flex-1 py-3 bg-red-50 text-red-600 border border-red-100 dark:bg-red-950/20 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy">Delete</button>
+              <button onClick={() => restore(entry)} disabled={busyId !== null} className={`flex-[2] py-3 ${accent} text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}>{busyId === entry.id ? '...' : 'Save Fix'}</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -0,0 +1,74 @@
+
+import React, { useEffect, useState } from 'react';
+import { SyncConfig, SyncStatus, UserProfile } from '../types';
+import * as SyncService from '../services/syncService';
+
+interface SyncPanelProps {
+  user: UserProfile;
+}
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  disabled: 'Sync Off',
+  idle: 'Synced',
+  syncing: 'Syncing',
+  offline: 'Offline',
+  error: 'Sync Error'
+};
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ user }) => {
+  const [config, setConfig] = useState<SyncConfig | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('disabled');
+  const [error, setError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    SyncService.getSyncConfig().then(setConfig);
+    return SyncService.subscribeSyncStatus((next, err) => {
+      setStatus(next);
+      setError(err);
+      if (next === 'idle') SyncService.getLastSyncedAt().then(setLastSyncedAt);
+    });
+  }, []);
+
+  if (!config) return null;
+
+  const save = async (next: SyncConfig) => {
+    setSaving(true);
+    try {
+      await SyncService.saveSyncConfig(next);
+      setConfig(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl px-4 py-2 text-xs font-bold outline-none";
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase text-slate-400 ml-2 tracking-widest">Device Sync</label>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${status === 'error' ? 'text-red-600' : status === 'idle' ? 'text-emerald-600' : 'text-slate-400'}`}>{SYNC_STATUS_LABELS[status]}</span>
+      </div>
+      <input value={config.endpoint} onChange={e => setConfig({ ...config, endpoint: e.target.value })} placeholder="Server URL" className={inputClass} />
+      <input value={config.space} onChange={e => setConfig({ ...config, space: e.target.value })} placeholder="Space code (same on every device)" className={inputClass} />
+      {error && <p className="text-[10px] font-bold text-red-600" role="alert">{error}</p>}
+      {lastSyncedAt && status !== 'error' && <p className="text-[10px] font-bold text-slate-400">Last synced {new Date(lastSyncedAt).toLocaleString()}</p>}
+      <div className="flex gap-2">
+        <button
+          disabled={saving || !config.endpoint.trim() || !config.space.trim()}
+          onClick={() => save({ ...config, endpoint: config.endpoint.trim(), space: config.space.trim(), enabled: !config.enabled })}
+          className={`flex-[2] py-3 ${config.enabled ? 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300' : (user.isGamified ? 'bg-violet-600 text-white' : 'bg-emerald-600 text-white')} rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy`}
+        >
+          {config.enabled ? 'Turn Off' : 'Turn On'}
+        </button>
+        <button disabled={!config.enabled || status === 'syncing'} onClick={() => SyncService.syncNow()} className="flex-1 py-3 bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50 bouncy">
+          Sync Now
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -1,6 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './services/storageService';
+import { runMigrations } from './services/migrationService';
+import { registerServiceWorker } from './services/notificationService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +11,21 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Select the storage backend and bring persisted data up to the current schema
+// before any view reads it.
+const boot = async () => {
+  await initStorage();
+  await runMigrations();
+};
+
+// Not awaited: the worker only matters once a notification is shown
+registerServiceWorker();
+
+boot()
+  .catch(error => console.error("Storage Boot Failure:", error))
+  .finally(() => root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  ));
\ No newline at end of file
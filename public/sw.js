@@ -0,0 +1,77 @@
+// Fridgeometer service worker: displays expiry notifications and routes a
+// click on one back to the item in the inventory. Scheduling happens in the
+// page (services/notificationService.ts), which leaves the alerts due over
+// the next week in Cache Storage; a periodic sync shows them when no tab is
+// open to do it.
+
+const SCHEDULE_CACHE = 'fridgesmart-notifications';
+const SCHEDULE_URL = './notification-schedule';
+const SHOWN_URL = './notification-shown';
+const PERIODIC_SYNC_TAG = 'expiry-alerts';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const readJson = async (cache, url, fallback) => {
+  const response = await cache.match(url);
+  return response ? response.json() : fallback;
+};
+
+const minutesOf = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Same rule as isQuietTime in the page: a start after the end wraps past midnight
+const isQuietTime = (schedule, now) => {
+  const start = minutesOf(schedule.quietStart);
+  const end = minutesOf(schedule.quietEnd);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const showDueAlerts = async () => {
+  // An open tab checks every minute and would show them twice
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length > 0) return;
+
+  const cache = await caches.open(SCHEDULE_CACHE);
+  const schedule = await readJson(cache, SCHEDULE_URL, null);
+  const now = new Date();
+  if (!schedule || isQuietTime(schedule, now)) return;
+
+  const due = schedule.alerts.filter((alert) => alert.at <= now.getTime());
+  if (due.length === 0) return;
+  const shown = await readJson(cache, SHOWN_URL, { scope: schedule.scope, keys: [] });
+  for (const alert of due) {
+    if (alert.until <= now.getTime()) continue;
+    await self.registration.showNotification(alert.title, { body: alert.body, tag: alert.tag, data: { itemId: alert.itemId } });
+    shown.keys.push(alert.key);
+  }
+  // The page reads these on its next check so it does not repeat them
+  await cache.put(SHOWN_URL, new Response(JSON.stringify(shown)));
+  await cache.put(SCHEDULE_URL, new Response(JSON.stringify({ ...schedule, alerts: schedule.alerts.filter((alert) => alert.at > now.getTime()) })));
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(showDueAlerts());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const itemId = event.notification.data && event.notification.data.itemId;
+  const url = new URL(itemId ? `./?item=${encodeURIComponent(itemId)}` : './', self.registration.scope).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      const client = windows[0];
+      await client.focus();
+      client.postMessage({ type: 'open-item', itemId });
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
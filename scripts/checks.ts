@@ -0,0 +1,284 @@
+// Script-level checks of the pure services, runnable without a browser:
+//
+//   npm run check
+//
+// Each check throws on the first wrong answer. The script exits non-zero when
+// any of them failed.
+
+import { strict as assert } from 'node:assert';
+import { FoodItem, LedgerEvent, SyncChange } from '../types';
+import { createActionId, createLedgerEvent, deriveStats, portionShare } from '../services/ledgerService';
+import { buildImportPreview, guessColumnMapping, inventoryToCsv, parseCsv, parseNumberCell } from '../services/csvService';
+import { normaliseBarcode } from '../services/barcodeService';
+import { createMockProvider, AiFixtures } from '../services/aiProviders';
+import { AiCancelledError, AiQuotaError, AiTimeoutError } from '../services/aiErrors';
+import { normaliseDate } from '../services/aiResponseService';
+import { DEFAULT_AI_SETTINGS, getAiSettings, requestAi } from '../services/aiService';
+import { initStorage, safeStorage, STORAGE_KEYS, DEFAULT_LOCATIONS } from '../services/storageService';
+import { createMemoryAdapter, StorageAdapter } from '../services/storageAdapters';
+import { runMigrations } from '../services/migrationService';
+import { createSpace, mergeChanges } from '../server/syncMerge.mjs';
+
+type Check = [name: string, run: () => void | Promise<void>];
+
+const item = (overrides: Partial<FoodItem> = {}): FoodItem => ({
+  id: 'item-1',
+  name: 'Yoghurt',
+  category: 'Dairy',
+  expiryDate: '2026-01-10',
+  quantity: 4,
+  unit: 'pots',
+  storageLocation: 'Fridge',
+  addedDate: '2026-01-01',
+  estimatedPrice: 2,
+  ...overrides
+});
+
+const carried = { recipesCooked: 0, itemsPosted: 0, unlockedBadges: [] };
+
+// What applyItemAction records: the used part, then the item that is left
+const use = (from: FoodItem, action: 'consumed' | 'tossed' | 'composted', amount: number): { event: LedgerEvent, rest: FoodItem } => ({
+  event: createLedgerEvent(action, from, amount, { share: portionShare(from, amount) }),
+  rest: { ...from, quantity: from.quantity - amount, portionLeft: portionShare(from, from.quantity - amount) }
+});
+
+const counters = (events: LedgerEvent[]) => {
+  const { rescued, wasted, composted, moldDetected, rescuedByCategory, wasteByCategory } = deriveStats(events, carried);
+  return { rescued, wasted, composted, moldDetected, rescued_dairy: rescuedByCategory.Dairy, wasted_dairy: wasteByCategory.Dairy };
+};
+
+const ledgerChecks: Check[] = [
+  ['ledger: partial use plus the rest counts as one item', () => {
+    const whole = counters([use(item(), 'consumed', 4).event]);
+    const first = use(item(), 'consumed', 1);
+    const second = use(first.rest, 'consumed', 3);
+    assert.deepEqual(counters([first.event, second.event]), whole);
+    assert.equal(whole.rescued, 1);
+  }],
+  ['ledger: three partial uses of a mouldy item count it once', () => {
+    const mouldy = item({ quantity: 3, mouldDetected: true });
+    const a = use(mouldy, 'tossed', 1);
+    const b = use(a.rest, 'tossed', 1);
+    const c = use(b.rest, 'tossed', 1);
+    const split = counters([a.event, b.event, c.event]);
+    assert.deepEqual(split, counters([use(mouldy, 'tossed', 3).event]));
+    assert.equal(split.wasted, 1);
+    assert.equal(split.moldDetected, 1);
+  }],
+  ['ledger: a mixed fate splits the item between counters', () => {
+    const first = use(item(), 'consumed', 1);
+    const stats = counters([first.event, use(first.rest, 'tossed', 3).event]);
+    assert.equal(stats.rescued + stats.wasted, 1);
+    assert.equal(stats.wasted, 0.75);
+  }],
+  ['ledger: one action over several lots counts the item and the streak once', () => {
+    const mouldy = item({ mouldDetected: true });
+    const actionId = createActionId();
+    // What applyBulkAction records for an item in lots of 1 and 3
+    const lots = [1, 3].map(quantity => createLedgerEvent('consumed', { ...mouldy, quantity }, quantity, { share: portionShare(mouldy, quantity), actionId }));
+    const whole = [createLedgerEvent('consumed', mouldy, 4, { actionId: createActionId() })];
+    assert.deepEqual(counters(lots), counters(whole));
+    assert.equal(counters(lots).moldDetected, 1);
+    const { streakDays, xp } = deriveStats(lots, carried);
+    assert.deepEqual({ streakDays, xp }, { streakDays: 1, xp: deriveStats(whole, carried).xp });
+  }],
+  ['ledger: events from before shares count one each', () => {
+    const legacy = createLedgerEvent('consumed', item(), 2);
+    assert.equal(counters([legacy, createLedgerEvent('consumed', item({ id: 'item-2' }), 1)]).rescued, 2);
+  }]
+];
+
+const csvChecks: Check[] = [
+  ['csv: numbers read with either decimal separator', () => {
+    const cases: [string, number][] = [['1.5', 1.5], ['1,5', 1.5], ['€1,99', 1.99], ['1,99 €', 1.99], ['$3', 3], ['0,250', 0.25], ['1,234.50', 1234.5], ['1.234,50', 1234.5], ['1,000,000', 1000000], ['-2', -2]];
+    for (const [cell, expected] of cases) assert.deepEqual(parseNumberCell(cell), { value: expected }, cell);
+  }],
+  ['csv: leftover text and ambiguous separators are errors', () => {
+    for (const cell of ['2 x 500g', '500g', 'about 3', '1.2.3', '1,5.0', '1,', '1,500', '2.250']) assert.ok('error' in parseNumberCell(cell), cell);
+  }],
+  ['csv: quoted cells keep delimiters, quotes and line breaks', () => {
+    assert.deepEqual(parseCsv('\uFEFFname,notes\r\n"Milk, whole","say ""hi""\nthere"\r\n\r\nEggs,\n'), [
+      ['name', 'notes'], ['Milk, whole', 'say "hi"\nthere'], ['Eggs', '']
+    ]);
+    assert.deepEqual(parseCsv('a\tb,c\n1\t2', '\t'), [['a', 'b,c'], ['1', '2']]);
+  }],
+  ['csv: formula-like text is exported inert and portions survive a round trip', () => {
+    const item: FoodItem = {
+      id: 'x1', name: '=HYPERLINK("http://evil")', notes: '@SUM(A1)', category: 'Dairy', expiryDate: '2030-01-01', quantity: 2, portionLeft: 0.4,
+      unit: 'pcs', storageLocation: DEFAULT_LOCATIONS[0].id, addedDate: '2029-12-01T00:00:00.000Z', mouldDetected: false
+    };
+    const [header, ...rows] = parseCsv(inventoryToCsv([item]));
+    assert.equal(rows[0][header.indexOf('name')], `'${item.name}`);
+    assert.equal(rows[0][header.indexOf('notes')], `'${item.notes}`);
+    const [row] = buildImportPreview(rows, guessColumnMapping(header), 'YYYY-MM-DD', DEFAULT_LOCATIONS, []);
+    assert.deepEqual(row.errors, []);
+    assert.deepEqual(row.item, item);
+  }]
+];
+
+const barcodeChecks: Check[] = [
+  ['barcode: valid codes normalise to EAN', () => {
+    assert.equal(normaliseBarcode('4006381333931'), '4006381333931');
+    assert.equal(normaliseBarcode('9638-5074'), '96385074');
+    assert.equal(normaliseBarcode('036000291452'), '0036000291452'); // UPC-A
+    assert.equal(normaliseBarcode('04252614', 'upc_e'), '0042100005264');
+  }],
+  ['barcode: a wrong check digit or length is rejected', () => {
+    for (const code of ['4006381333932', '96385075', '036000291453', '12345', '']) assert.equal(normaliseBarcode(code), null, code);
+  }]
+];
+
+const fixtures: AiFixtures = {
+  vision: [], json: [], chat: [], live: [],
+  text: [{ match: 'Price', response: 'expires {{date+3}}' }, { response: 'fallback' }]
+};
+
+// Runs `run` with console.error silenced, for checks of failures that log
+const quietly = async <T>(run: () => Promise<T>): Promise<T> => {
+  const logError = console.error;
+  console.error = () => undefined;
+  try {
+    return await run();
+  } finally {
+    console.error = logError;
+  }
+};
+
+const aiChecks: Check[] = [
+  ['ai: the mock answers from the first matching fixture', async () => {
+    const mock = createMockProvider(fixtures, () => new Date(2026, 11, 30, 15));
+    assert.equal(await mock.generateText('What is the retail price?'), 'expires 2027-01-02');
+    assert.equal(await mock.generateText('Something else'), 'fallback');
+  }],
+  ['ai: the mock honours an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(createMockProvider(fixtures).generateText('price', { signal: controller.signal }), AiCancelledError);
+  }],
+  ['ai: dates are read in any form the model answers with', () => {
+    const now = new Date(2026, 2, 10);
+    const cases: [string, string][] = [['2026-03-12', '2026-03-12'], ['2026-03-12T09:00:00Z', '2026-03-12'], ['12/03/2026', '2026-03-12'], ['12.03.26', '2026-03-12'], ['12 March 2026', '2026-03-12'], ['tomorrow', '2026-03-11'], ['in 2 weeks', '2026-03-24']];
+    for (const [text, expected] of cases) assert.equal(normaliseDate(text, now), expected, text);
+  }],
+  ['ai: impossible dates and dates without a year are rejected', () => {
+    for (const text of ['2026-13-40', '2026-02-30', '31/02/2026', '12 Mar', 'March 12th', '7', 'soon']) assert.equal(normaliseDate(text), null, text);
+  }],
+  ['ai: unreadable settings fall back to the defaults', async () => {
+    await initStorage();
+    await safeStorage.setItem('fridgesmart_ai_settings_v1', '{not json');
+    assert.deepEqual(await quietly(getAiSettings), DEFAULT_AI_SETTINGS);
+  }],
+  ['ai: quota errors are retried, a timeout that used up the total is not', async () => {
+    await initStorage();
+    let calls = 0;
+    const hang = () => { calls++; return new Promise<never>(() => undefined); };
+    await assert.rejects(quietly(() => requestAi(hang, { timeoutMs: 50, totalMs: 80 })), AiTimeoutError);
+    assert.equal(calls, 1);
+    calls = 0;
+    const busy = async () => { calls++; throw new AiQuotaError('busy'); };
+    await assert.rejects(quietly(() => requestAi(busy, { timeoutMs: 50, totalMs: 10_000 })), AiQuotaError);
+    assert.equal(calls, 3);
+  }]
+];
+
+const change = (overrides: Partial<SyncChange>): SyncChange => ({
+  entity: 'inventory', id: 'item-1', rev: 1, updatedAt: '2026-01-01T10:00:00.000Z', deviceId: 'device-a', deleted: false, data: { name: 'a' }, ...overrides
+});
+
+// The data the space holds for item-1 after `pushes`, and what was rejected
+const merge = (...pushes: SyncChange[]) => {
+  const space = createSpace();
+  const rejected = pushes.flatMap(push => mergeChanges(space, [push]));
+  return { data: space.records['inventory:item-1']?.data, rejected: rejected.length };
+};
+
+const syncChecks: Check[] = [
+  ['sync: the higher revision wins in either order', () => {
+    const older = change({ rev: 1, updatedAt: '2026-01-02T00:00:00.000Z', data: { name: 'old' } });
+    const newer = change({ rev: 2, data: { name: 'new' } });
+    assert.deepEqual(merge(older, newer), { data: { name: 'new' }, rejected: 0 });
+    assert.deepEqual(merge(newer, older), { data: { name: 'new' }, rejected: 1 });
+  }],
+  ['sync: equal revisions go to the later write, then the higher device id', () => {
+    const early = change({ deviceId: 'device-b', data: { name: 'early' } });
+    const late = change({ updatedAt: '2026-01-01T11:00:00.000Z', data: { name: 'late' } });
+    assert.equal(merge(late, early).data.name, 'late');
+    const tie = change({ deviceId: 'device-b', data: { name: 'b' } });
+    assert.equal(merge(change({}), tie).data.name, 'b');
+    assert.equal(merge(tie, change({})).data.name, 'b');
+  }],
+  ['sync: deletions are kept as tombstones and malformed changes skipped', () => {
+    const space = createSpace();
+    mergeChanges(space, [change({}), change({ rev: 2, deleted: true, data: { name: 'ignored' } }), { entity: 'inventory', id: 'item-2' }]);
+    assert.deepEqual(Object.keys(space.records), ['inventory:item-1']);
+    assert.equal(space.records['inventory:item-1'].data, null);
+    assert.equal(space.seq, 2);
+  }]
+];
+
+const migrationChecks: Check[] = [
+  ['migration: a dry run reports the steps and writes nothing', async () => {
+    const memory = createMemoryAdapter();
+    const writes: string[] = [];
+    const logged = (name: keyof StorageAdapter) => async (...args: any[]) => {
+      writes.push(`${name} ${args[0]}`);
+      return (memory[name] as (...a: any[]) => Promise<any>)(...args);
+    };
+    await initStorage({
+      ...memory,
+      setItem: logged('setItem'), removeItem: logged('removeItem'), putRecord: logged('putRecord'),
+      putRecords: logged('putRecords'), deleteRecord: logged('deleteRecord'), clearCollection: logged('clearCollection')
+    });
+    // A schema 1 install: no version stamp, an item without an id, stats without buckets
+    await memory.putRecord(STORAGE_KEYS.inventory, { id: undefined, name: 'Milk', category: 'Dairy', expiryDate: '2026-01-10', storageLocation: 'Fridge' } as any);
+    await memory.setItem(STORAGE_KEYS.stats, JSON.stringify({ rescued: 2 }));
+    const keys = [STORAGE_KEYS.stats, STORAGE_KEYS.user, STORAGE_KEYS.mealPlan, 'fridgesmart_schema_version'];
+    const dump = async () => JSON.stringify([await Promise.all(keys.map(k => memory.getItem(k))), await memory.getRecords(STORAGE_KEYS.inventory)]);
+
+    const before = await dump();
+    const report = await runMigrations({ dryRun: true });
+    assert.equal(report.dryRun, true);
+    assert.ok(report.applied.length > 0 && report.changed.inventory === 1 && report.changed.stats, JSON.stringify(report));
+    assert.equal(report.backupKey, undefined);
+    assert.deepEqual(writes, []);
+    assert.equal(await dump(), before);
+  }]
+];
+
+const storageChecks: Check[] = [
+  ['storage: legacy items without ids are all imported', async () => {
+    const legacy: Record<string, string> = {
+      [STORAGE_KEYS.inventory]: JSON.stringify([{ name: 'Milk' }, { name: 'Eggs' }, { id: 7, name: 'Jam' }])
+    };
+    // Just enough of localStorage for the import: its keys are the enumerable properties
+    const fake = Object.defineProperties({ ...legacy }, {
+      getItem: { value: (k: string) => legacy[k] ?? null },
+      removeItem: { value: (k: string) => { delete legacy[k]; delete (fake as any)[k]; } }
+    });
+    (globalThis as any).localStorage = fake;
+    try {
+      await initStorage(createMemoryAdapter());
+    } finally {
+      delete (globalThis as any).localStorage;
+    }
+    const items = await safeStorage.getRecords<{ id: string, name: string }>(STORAGE_KEYS.inventory);
+    assert.deepEqual(items.map(i => i.name).sort(), ['Eggs', 'Jam', 'Milk']);
+    assert.equal(new Set(items.map(i => i.id)).size, 3);
+    assert.ok(items.some(i => i.id === '7'));
+  }]
+];
+
+const checks: Check[] = [...storageChecks, ...migrationChecks, ...ledgerChecks, ...csvChecks, ...barcodeChecks, ...aiChecks, ...syncChecks];
+
+let failed = 0;
+for (const [name, run] of checks) {
+  try {
+    await run();
+    console.log(`ok   ${name}`);
+  } catch (e) {
+    failed++;
+    console.error(`FAIL ${name}\n${e instanceof Error ? e.message : e}`);
+  }
+}
+console.log(`\n${checks.length - failed}/${checks.length} checks passed`);
+if (failed) process.exit(1);
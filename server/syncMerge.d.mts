@@ -0,0 +1,15 @@
+import { SyncChange } from '../types';
+
+export interface StoredChange extends SyncChange {
+  seq: number;
+}
+
+export interface Space {
+  seq: number;
+  records: Record<string, StoredChange>;
+}
+
+export function table<T>(entries?: Record<string, T>): Record<string, T>;
+export function createSpace(): Space;
+export function wins(incoming: SyncChange, current: SyncChange): boolean;
+export function mergeChanges(space: Space, changes: unknown[]): StoredChange[];
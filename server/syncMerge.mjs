@@ -0,0 +1,37 @@
+// How the sync server merges pushed changes, kept apart from the HTTP server so
+// scripts/checks.ts can run it without opening a port.
+//
+// Each record keeps only its winning version. A pushed change wins when its
+// revision is higher, or on equal revisions when it was written later (device
+// id breaks exact ties).
+
+// Space and record ids come from clients, so they are kept in objects without a
+// prototype: an id like "__proto__" is then just another key
+export const table = (entries = {}) => Object.assign(Object.create(null), entries);
+
+export const createSpace = () => ({ seq: 0, records: table() });
+
+export const wins = (incoming, current) =>
+  incoming.rev > current.rev ||
+  (incoming.rev === current.rev && (incoming.updatedAt > current.updatedAt ||
+    (incoming.updatedAt === current.updatedAt && incoming.deviceId > current.deviceId)));
+
+const isChange = (c) =>
+  c && typeof c.entity === 'string' && typeof c.id === 'string' && typeof c.rev === 'number' &&
+  typeof c.updatedAt === 'string' && typeof c.deviceId === 'string' && typeof c.deleted === 'boolean';
+
+/** Stores the winning changes in `space`. Returns the stored records that beat a pushed change. */
+export const mergeChanges = (space, changes) => {
+  const rejected = [];
+  for (const change of changes) {
+    if (!isChange(change)) continue;
+    const key = `${change.entity}:${change.id}`;
+    const current = space.records[key];
+    if (current && !wins(change, current)) {
+      rejected.push(current);
+      continue;
+    }
+    space.records[key] = { ...change, data: change.deleted ? null : change.data, seq: ++space.seq };
+  }
+  return rejected;
+};
@@ -0,0 +1,76 @@
+// Reference sync server for Fridgeometer. No dependencies beyond Node itself:
+//
+//   npm run sync-server            (PORT defaults to 8787)
+//
+// Then enable sync in the app's profile screen with endpoint
+// http://localhost:8787 and the same space code on every device.
+//
+// POST /spaces/:space/sync   { deviceId, since, changes } -> { cursor, changes, rejected }
+// GET  /health
+//
+// Each record keeps only its winning version (see syncMerge.mjs). Deletions
+// are stored as tombstones so they reach devices that were offline at the time.
+
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { table, createSpace, mergeChanges } from './syncMerge.mjs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || join(tmpdir(), 'fridgeometer-sync.json');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const db = existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, 'utf8')) : { spaces: {} };
+db.spaces = table(db.spaces);
+for (const space of Object.values(db.spaces)) space.records = table(space.records);
+const persist = () => writeFileSync(DATA_FILE, JSON.stringify(db));
+
+const sync = (spaceId, { since = 0, changes = [] }) => {
+  const space = db.spaces[spaceId] ??= createSpace();
+  const rejected = mergeChanges(space, changes);
+  if (changes.length) persist();
+  const feed = Object.values(space.records).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+  return { cursor: space.seq, changes: feed, rejected };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method === 'GET' && req.url === '/health') return send(res, 200, { ok: true });
+
+  const match = req.method === 'POST' && req.url?.match(/^\/spaces\/([^/]+)\/sync$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) { send(res, 413, { error: 'Payload too large' }); req.destroy(); }
+    else chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (res.writableEnded) return;
+    let spaceId;
+    try {
+      spaceId = decodeURIComponent(match[1]);
+    } catch (error) {
+      return send(res, 400, { error: 'Space id is not valid' });
+    }
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      send(res, 200, sync(spaceId, body));
+    } catch (error) {
+      send(res, 400, { error: 'Body is not valid JSON' });
+    }
+  });
+}).listen(PORT, () => console.log(`Fridgeometer sync server on http://localhost:${PORT} (data: ${DATA_FILE})`));
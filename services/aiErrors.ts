@@ -0,0 +1,101 @@
+
+/**
+ * What can go wrong with an AI call, as types callers can branch on instead
+ * of matching provider error strings. `retryable` tells the request pipeline
+ * whether trying again could help.
+ */
+export class AiError extends Error {
+  readonly retryable: boolean = false;
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'AiError';
+  }
+}
+
+/** The key is missing, invalid or lacks access to the model. Prompt for another. */
+export class AiAuthError extends AiError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'AiAuthError';
+  }
+}
+
+/** Rate limit or quota hit. Worth retrying after a pause. */
+export class AiQuotaError extends AiError {
+  readonly retryable = true;
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'AiQuotaError';
+  }
+}
+
+/** The service could not be reached or failed on its side. */
+export class AiNetworkError extends AiError {
+  readonly retryable = true;
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'AiNetworkError';
+  }
+}
+
+export class AiTimeoutError extends AiNetworkError {
+  constructor(public readonly timeoutMs: number) {
+    super(`No answer within ${Math.ceil(timeoutMs / 1000)}s`);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+/** The model answered, but not with anything usable, even after a repair prompt. */
+export class AiInvalidOutputError extends AiError {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'AiInvalidOutputError';
+  }
+}
+
+/** The caller gave up, e.g. the user closed the view. Not shown to the user. */
+export class AiCancelledError extends AiError {
+  constructor() {
+    super('Cancelled');
+    this.name = 'AiCancelledError';
+  }
+}
+
+const AUTH_PATTERN = /PERMISSION_DENIED|UNAUTHENTICATED|API key not valid|API_KEY_INVALID|Requested entity was not found/i;
+const QUOTA_PATTERN = /RESOURCE_EXHAUSTED|quota|rate limit/i;
+const NETWORK_PATTERN = /UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|Failed to fetch|NetworkError|fetch failed|ECONN|ETIMEDOUT|socket/i;
+
+/** The typed error for an HTTP status from an AI server. */
+export const aiErrorFromStatus = (status: number, message: string, cause?: unknown): AiError => {
+  if (status === 401 || status === 403) return new AiAuthError(message, cause);
+  if (status === 429) return new AiQuotaError(message, cause);
+  if (status === 408 || status >= 500) return new AiNetworkError(message, cause);
+  // Gemini reports a key without access to the model as 404
+  if (status === 404 && AUTH_PATTERN.test(message)) return new AiAuthError(message, cause);
+  return new AiError(message, cause);
+};
+
+/** Sorts whatever a provider threw into one of the types above. */
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new AiCancelledError();
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return aiErrorFromStatus(status, message, error);
+  if (AUTH_PATTERN.test(message)) return new AiAuthError(message, error);
+  if (QUOTA_PATTERN.test(message)) return new AiQuotaError(message, error);
+  if (NETWORK_PATTERN.test(message) || error instanceof TypeError) return new AiNetworkError(message, error);
+  return new AiError(message, error);
+};
+
+/** A sentence for the user. Cancellations are silent, so they get none. */
+export const describeAiError = (error: unknown, isGamified: boolean = false): string | null => {
+  const typed = toAiError(error);
+  if (typed instanceof AiCancelledError) return null;
+  if (typed instanceof AiAuthError) return isGamified ? 'Your magic key did not work. Pick another one.' : 'The AI key was rejected. Select a valid key and try again.';
+  if (typed instanceof AiQuotaError) return isGamified ? 'The magic is tired! Try again in a minute.' : 'AI quota reached. Try again in a minute.';
+  if (typed instanceof AiTimeoutError) return isGamified ? 'The magic took too long. Try again.' : 'The AI took too long to answer. Try again.';
+  if (typed instanceof AiNetworkError) return isGamified ? "Can't reach the magic right now." : 'The AI service cannot be reached. Check your connection.';
+  if (typed instanceof AiInvalidOutputError) return isGamified ? "The magic got confused. Try a clearer photo." : 'The AI answer could not be read. Try again.';
+  return isGamified ? 'Something went wrong with the magic.' : 'The AI request failed.';
+};
@@ -0,0 +1,73 @@
+
+import { AiFixtures } from './aiProviders';
+
+// Canned answers for the mock provider, shaped like what the prompts in
+// geminiService ask for. Edit freely when working on the UI offline.
+export const DEFAULT_AI_FIXTURES: AiFixtures = {
+  vision: [{
+    match: 'Multi-Item Scanner',
+    response: JSON.stringify([
+      { name: 'Greek Yoghurt', expiryDate: '{{date+10}}', category: 'Dairy', storageLocation: 'Fridge', quantity: 4, unit: 'pots', confidence: 0.9, brandInfo: 'Mock Dairy Co.', mouldDetected: false, calories: 140, estimatedPrice: 0.85, box: [120, 60, 430, 310] },
+      { name: 'Bananas', expiryDate: '{{date+5}}', category: 'Produce', storageLocation: 'Pantry', quantity: 6, unit: 'pcs', confidence: 0.95, mouldDetected: false, calories: 105, estimatedPrice: 0.25, box: [90, 380, 520, 720] },
+      { name: 'Chopped Tomatoes', expiryDate: '{{date+540}}', category: 'Canned', storageLocation: 'Pantry', quantity: 2, unit: 'tins', confidence: 0.55, brandInfo: 'Mock Foods', mouldDetected: false, calories: 80, estimatedPrice: 0.7, box: [560, 420, 900, 640] }
+    ])
+  }, {
+    response: JSON.stringify({
+      name: 'Semi-Skimmed Milk',
+      expiryDate: '{{date+7}}',
+      category: 'Dairy',
+      storageLocation: 'Fridge',
+      quantity: 1,
+      unit: 'L',
+      confidence: 0.92,
+      brandInfo: 'Mock Dairy Co.',
+      mouldDetected: false,
+      calories: 120,
+      estimatedPrice: 1.45
+    })
+  }],
+  text: [
+    { match: 'retail price', response: '3.50' },
+    { match: 'calorie', response: '150' },
+    { response: 'Mock response.' }
+  ],
+  json: [
+    {
+      match: 'recipes',
+      response: JSON.stringify([
+        {
+          id: 'mock-1', title: 'Fridge Frittata', description: 'Eggs and whatever needs using up.',
+          ingredients: ['6 eggs', '1 onion', 'Leftover vegetables'], steps: ['Whisk the eggs.', 'Fry the onion and vegetables.', 'Add the eggs and bake for 15 minutes.'],
+          prepTime: '25 mins', difficulty: 'Easy', caloriesPerServing: 320
+        },
+        {
+          id: 'mock-2', title: 'Pantry Pasta', description: 'A store-cupboard standby.',
+          ingredients: ['200g pasta', '1 tin tomatoes', '2 garlic cloves'], steps: ['Boil the pasta.', 'Simmer the tomatoes with garlic.', 'Toss together.'],
+          prepTime: '20 mins', difficulty: 'Easy', caloriesPerServing: 450
+        },
+        {
+          id: 'mock-3', title: 'Rescue Soup', description: 'Soft vegetables, blended.',
+          ingredients: ['Vegetables', '1L stock', '1 potato'], steps: ['Chop everything.', 'Simmer for 30 minutes.', 'Blend until smooth.'],
+          prepTime: '40 mins', difficulty: 'Medium', caloriesPerServing: 210
+        }
+      ])
+    },
+    {
+      match: 'meal strategy',
+      response: JSON.stringify([
+        { day: 'Day 1', breakfast: 'Porridge', lunch: 'Cheese toastie', dinner: 'Fridge Frittata', ingredientsUsed: ['Milk', 'Cheese', 'Eggs'] },
+        { day: 'Day 2', breakfast: 'Yoghurt and fruit', lunch: 'Rescue Soup', dinner: 'Pantry Pasta', ingredientsUsed: ['Yoghurt', 'Vegetables', 'Pasta'] },
+        { day: 'Day 3', breakfast: 'Eggs on toast', lunch: 'Leftover soup', dinner: 'Stir fry', ingredientsUsed: ['Eggs', 'Bread', 'Vegetables'] }
+      ])
+    },
+    { response: '{}' }
+  ],
+  chat: [
+    { match: 'expire', response: 'Mock assistant: check the items marked orange and red on your dashboard first.' },
+    { response: 'Mock assistant online. Ask me about your inventory.' }
+  ],
+  live: [
+    'I see a carton of milk. It looks fresh.',
+    'This is a block of cheddar. No mould detected.'
+  ]
+};
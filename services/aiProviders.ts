@@ -0,0 +1,283 @@
+
+/**
+ * Pluggable AI backends. Every provider exposes the same async surface so the
+ * prompts in geminiService and the live scanner do not care whether they talk
+ * to Gemini, a local OpenAI-compatible server or canned fixtures.
+ */
+import { GoogleGenAI, LiveServerMessage, Modality, Schema, Type } from '@google/genai';
+import { AiModelRole, AiProviderId, AiProviderSettings } from '../types';
+import { AiCancelledError, aiErrorFromStatus, toAiError } from './aiErrors';
+
+export interface AiImage {
+  data: string; // base64, no data URL prefix
+  mimeType: string;
+}
+
+export interface AiAudio {
+  data: string; // base64
+  mimeType: string; // 'audio/pcm;rate=24000' is raw 16-bit mono, anything else the browser decodes
+}
+
+// The JSON Schema subset both Gemini and OpenAI-compatible servers accept
+export interface AiSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  properties?: Record<string, AiSchema>;
+  items?: AiSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+export interface AiRequestOptions {
+  signal?: AbortSignal; // Aborting rejects the call with an AiCancelledError
+}
+
+export interface AiCallOptions extends AiRequestOptions {
+  model?: AiModelRole; // Defaults to 'complex'
+  grounded?: boolean; // Allow web search; ignored by providers without one
+}
+
+export type AiVoice = 'playful' | 'formal';
+
+export interface AiChat {
+  sendMessage(message: string, options?: AiRequestOptions): Promise<string>;
+}
+
+export interface AiLiveCallbacks {
+  onOpen(): void;
+  onAudio(audio: AiAudio): void;
+  onTranscript(text: string): void;
+  onError(error: unknown): void;
+  onClose(): void;
+}
+
+export interface AiLiveSession {
+  sendMedia(media: AiImage): void; // Video frames and microphone audio alike
+  close(): void;
+}
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  analyzeImage(image: AiImage, prompt: string, options?: AiCallOptions): Promise<string>;
+  generateText(prompt: string, options?: AiCallOptions): Promise<string>;
+  generateJson(prompt: string, schema: AiSchema, options?: AiCallOptions): Promise<string>; // Raw text; callers parse it
+  createChat(systemInstruction: string): AiChat;
+  synthesizeSpeech(text: string, voice: AiVoice, options?: AiRequestOptions): Promise<AiAudio | null>;
+  connectLive(systemInstruction: string, callbacks: AiLiveCallbacks): Promise<AiLiveSession>;
+}
+
+// --- Gemini ---
+
+const toGeminiSchema = (schema: AiSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && { properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])) }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required })
+});
+
+const GEMINI_VOICES: Record<AiVoice, string> = { playful: 'Kore', formal: 'Charon' };
+// Image analysis gets a large thinking budget: mould spotting benefits from it
+const VISION_THINKING_BUDGET = 32000;
+
+export const createGeminiProvider = (settings: AiProviderSettings): AiProvider => {
+  // A fresh client per call picks up a key chosen in AI Studio since the last one
+  const client = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const model = (options?: AiCallOptions) => settings.models[options?.model ?? 'complex'];
+  const tools = (options?: AiCallOptions) => options?.grounded ? { tools: [{ googleSearch: {} }] } : {};
+  const abort = (options?: AiRequestOptions) => options?.signal ? { abortSignal: options.signal } : {};
+
+  return {
+    id: 'gemini',
+    analyzeImage: async (image, prompt, options) => {
+      const response = await client().models.generateContent({
+        model: settings.models[options?.model ?? 'vision'],
+        contents: { parts: [{ inlineData: image }, { text: prompt }] },
+        config: { ...tools(options), ...abort(options), thinkingConfig: { thinkingBudget: VISION_THINKING_BUDGET } }
+      });
+      return response.text ?? '';
+    },
+    generateText: async (prompt, options) => {
+      const response = await client().models.generateContent({ model: model(options), contents: prompt, config: { ...tools(options), ...abort(options) } });
+      return response.text ?? '';
+    },
+    generateJson: async (prompt, schema, options) => {
+      const response = await client().models.generateContent({
+        model: model(options),
+        contents: prompt,
+        config: { ...tools(options), ...abort(options), responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }
+      });
+      return response.text ?? '';
+    },
+    createChat: (systemInstruction) => {
+      const chat = client().chats.create({ model: settings.models.complex, config: { systemInstruction } });
+      // A per-message config replaces the chat's, so the instruction is passed again
+      return { sendMessage: async (message, options) => (await chat.sendMessage({ message, config: { systemInstruction, ...abort(options) } })).text ?? '' };
+    },
+    synthesizeSpeech: async (text, voice, options) => {
+      const response = await client().models.generateContent({
+        model: settings.models.tts,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          ...abort(options),
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: GEMINI_VOICES[voice] } } }
+        }
+      });
+      const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      return data ? { data, mimeType: 'audio/pcm;rate=24000' } : null;
+    },
+    connectLive: async (systemInstruction, callbacks) => {
+      const session = await client().live.connect({
+        model: settings.models.live,
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (msg: LiveServerMessage) => {
+            const audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audio) callbacks.onAudio({ data: audio, mimeType: 'audio/pcm;rate=24000' });
+            const transcript = msg.serverContent?.outputTranscription?.text;
+            if (transcript) callbacks.onTranscript(transcript);
+          },
+          onerror: callbacks.onError,
+          onclose: callbacks.onClose
+        },
+        config: { responseModalities: [Modality.AUDIO], outputAudioTranscription: {}, systemInstruction }
+      });
+      return {
+        sendMedia: (media) => session.sendRealtimeInput({ media }),
+        close: () => session.close()
+      };
+    }
+  };
+};
+
+// --- OpenAI-compatible HTTP (llama.cpp, Ollama, LM Studio, vLLM…) ---
+
+type OpenAiMessage = { role: 'system' | 'user' | 'assistant', content: string | object[] };
+
+const OPENAI_VOICES: Record<AiVoice, string> = { playful: 'nova', formal: 'onyx' };
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API. Web
+ * search grounding is not available, and neither are live sessions.
+ */
+export const createOpenAiCompatibleProvider = (settings: AiProviderSettings): AiProvider => {
+  const baseUrl = (settings.baseUrl ?? '').replace(/\/+$/, '');
+
+  const post = async (path: string, body: object, options?: AiRequestOptions): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }) },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+    } catch (e) {
+      throw toAiError(e);
+    }
+    if (!response.ok) throw aiErrorFromStatus(response.status, `AI server responded ${response.status}: ${await response.text()}`);
+    return response;
+  };
+
+  const complete = async (messages: OpenAiMessage[], role: AiModelRole, options?: AiRequestOptions, extra: object = {}): Promise<string> => {
+    const response = await post('/chat/completions', { model: settings.models[role], messages, ...extra }, options);
+    const body = await response.json();
+    return body.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    id: 'openai',
+    analyzeImage: (image, prompt, options) => complete([{
+      role: 'user',
+      content: [
+        { type: 'text', text: prompt },
+        { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+      ]
+    }], options?.model ?? 'vision', options),
+    generateText: (prompt, options) => complete([{ role: 'user', content: prompt }], options?.model ?? 'complex', options),
+    generateJson: (prompt, schema, options) => complete([{ role: 'user', content: prompt }], options?.model ?? 'complex', options, {
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }
+    }),
+    createChat: (systemInstruction) => {
+      const history: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+      return {
+        sendMessage: async (message, options) => {
+          const reply = await complete([...history, { role: 'user', content: message }], 'complex', options);
+          history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+          return reply;
+        }
+      };
+    },
+    synthesizeSpeech: async (text, voice, options) => {
+      const response = await post('/audio/speech', { model: settings.models.tts, input: text, voice: OPENAI_VOICES[voice], response_format: 'wav' }, options);
+      return { data: toBase64(await response.arrayBuffer()), mimeType: 'audio/wav' };
+    },
+    connectLive: async () => {
+      throw new Error('Live sessions are not available with an OpenAI-compatible server.');
+    }
+  };
+};
+
+// --- Mock (offline development and tests) ---
+
+export interface AiFixture {
+  match?: string; // Case-insensitive text the prompt must contain; omit for a fallback
+  response: string; // "{{date+N}}" becomes the date N days from now
+}
+
+export interface AiFixtures {
+  vision: AiFixture[];
+  text: AiFixture[];
+  json: AiFixture[];
+  chat: AiFixture[];
+  live: string[]; // Transcripts, one per video frame received, in turn
+}
+
+/**
+ * Answers every call from fixtures: the first one whose `match` appears in
+ * the prompt wins. The same prompt and clock always give the same answer.
+ */
+export const createMockProvider = (fixtures: AiFixtures, now: () => Date = () => new Date()): AiProvider => {
+  const answer = (list: AiFixture[], prompt: string, options?: AiRequestOptions): string => {
+    if (options?.signal?.aborted) throw new AiCancelledError();
+    const text = prompt.toLowerCase();
+    const fixture = list.find(f => f.match && text.includes(f.match.toLowerCase())) ?? list.find(f => !f.match);
+    return (fixture?.response ?? '').replace(/\{\{date\+(\d+)\}\}/g, (_, days) => {
+      const d = now();
+      const date = new Date(d.getFullYear(), d.getMonth(), d.getDate() + Number(days));
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    });
+  };
+
+  return {
+    id: 'mock',
+    analyzeImage: async (_image, prompt, options) => answer(fixtures.vision, prompt, options),
+    generateText: async (prompt, options) => answer(fixtures.text, prompt, options),
+    generateJson: async (prompt, _schema, options) => answer(fixtures.json, prompt, options),
+    createChat: () => ({ sendMessage: async (message, options) => answer(fixtures.chat, message, options) }),
+    synthesizeSpeech: async () => null,
+    connectLive: async (_systemInstruction, callbacks) => {
+      let frames = 0;
+      let open = true;
+      setTimeout(() => open && callbacks.onOpen(), 0);
+      return {
+        sendMedia: (media) => {
+          if (!open || !media.mimeType.startsWith('image/') || fixtures.live.length === 0) return;
+          callbacks.onTranscript(fixtures.live[frames++ % fixtures.live.length]);
+        },
+        close: () => {
+          if (!open) return;
+          open = false;
+          callbacks.onClose();
+        }
+      };
+    }
+  };
+};
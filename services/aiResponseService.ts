@@ -0,0 +1,249 @@
+
+import { Category, MealSuggestion, Recipe, ScanBox, ScanResult } from '../types';
+import { matchBaseCategory } from './categoryService';
+import { toDateString } from './shelfLifeService';
+
+/**
+ * Checks for structured model output. Each parser coerces what it safely can
+ * (labels onto our unions, loose dates onto YYYY-MM-DD) and reports what it
+ * could not, so the caller can ask the model for a repaired answer.
+ */
+export interface Parsed<T> {
+  value: T | null;
+  errors: string[]; // Why the answer cannot be used as it stands
+}
+
+// Below this the verification modal asks the user to double-check everything
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidence = (result: ScanResult): boolean =>
+  !result.catalogueMatch && (result.confidence < LOW_CONFIDENCE_THRESHOLD || (result.warnings?.length ?? 0) > 0);
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** The JSON inside a reply that may wrap it in prose or a ```json fence. */
+export const extractJson = (text: string): unknown => {
+  const firstBracket = text.indexOf('[');
+  const firstBrace = text.indexOf('{');
+  const [open, close] = firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace) ? ['[', ']'] : ['{', '}'];
+  const start = text.indexOf(open);
+  const end = text.lastIndexOf(close);
+  const candidate = start !== -1 && end > start ? text.substring(start, end + 1) : text.replace(/```json\n?|\n?```/g, '').trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
+
+// --- Field coercion ---
+
+const RELATIVE_UNITS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+// Null for a day or month that would roll over, e.g. 2026-13-40 or 31/02
+const calendarDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? toDateString(date) : null;
+};
+
+/**
+ * A date as YYYY-MM-DD. Understands ISO dates and timestamps, day-first
+ * numeric dates ("12/03/2026", "12.03.2026"), written-out dates with a year
+ * and relative phrases such as "tomorrow", "next week" or "in 5 days". Null
+ * otherwise, including for impossible dates.
+ */
+export const normaliseDate = (value: unknown, now: Date = new Date()): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const plus = (days: number) => toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + days));
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:t.*)?$/);
+  if (iso) return calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  // The prompt asks for ISO; a numeric date that is not is taken day-first, as printed on most labels
+  const dayFirst = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/);
+  if (dayFirst) {
+    const year = Number(dayFirst[3]) < 100 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    return calendarDate(year, Number(dayFirst[2]), Number(dayFirst[1]));
+  }
+  if (text === 'today') return plus(0);
+  if (text === 'tomorrow') return plus(1);
+  const next = text.match(/^next (day|week|month|year)$/);
+  if (next) return plus(RELATIVE_UNITS[next[1]]);
+  const relative = text.match(/^(?:in\s+)?(\d+)\s+(day|week|month|year)s?(?:\s+from now)?$/);
+  if (relative) return plus(Number(relative[1]) * RELATIVE_UNITS[relative[2]]);
+  // Written-out dates only, and only with a year: Date.parse accepts bare
+  // numbers such as "7" and reads "12 Mar" as 2001
+  if (!/[a-z]{3}/.test(text) || !/\b\d{4}\b/.test(text)) return null;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : toDateString(new Date(parsed));
+};
+
+/** A number from 3, "3", "3.50" or "$3.50 each"; null when there is none. */
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.replace(',', '.').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/** A list of strings from an array, or from one string of lines or commas. */
+const toTextList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean);
+  if (typeof value === 'string') return value.split(/\n|,(?![^(]*\))/).map(s => s.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim()).filter(Boolean);
+  return [];
+};
+
+/** Checks a list parser's entries one by one, keeping the usable ones. */
+const parseList = <T>(text: string, parseEntry: (entry: unknown, index: number) => { value: T | null, errors: string[] }): Parsed<T[]> => {
+  const data = extractJson(text);
+  // Some models wrap the list in an object such as { "recipes": [...] }
+  const list = Array.isArray(data) ? data : isObject(data) ? Object.values(data).find(Array.isArray) : undefined;
+  if (!Array.isArray(list)) return { value: null, errors: ['The answer is not a JSON array.'] };
+  const entries = list.map(parseEntry);
+  const value = entries.map(e => e.value).filter((v): v is T => v !== null);
+  return { value, errors: entries.flatMap((e, i) => e.errors.map(err => `[${i}] ${err}`)) };
+};
+
+// Scans suggest one of the built-in locations; the verification modal maps it onto the user's own
+const LOCATION_KEYWORDS: [string, string[]][] = [
+  ['Freezer', ['freez', 'frozen']],
+  ['Fridge', ['fridge', 'refrigerat', 'chill', 'cold']],
+  ['Pantry', ['pantry', 'cupboard', 'shelf', 'room', 'ambient', 'dry', 'counter']]
+];
+const CHILLED_CATEGORIES: Category[] = ['Dairy', 'Meat', 'Produce'];
+
+// --- Scan results ---
+
+/**
+ * A box from [ymin, xmin, ymax, xmax] on a 0-1000 grid, the layout Gemini
+ * is trained to give. Undefined when it is missing or has no area.
+ */
+const toBox = (value: unknown): ScanBox | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  const edges = value.map(toNumber);
+  if (edges.some(v => v === null)) return undefined;
+  const [yMin, xMin, yMax, xMax] = (edges as number[]).map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  if (xMax <= xMin || yMax <= yMin) return undefined;
+  return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin };
+};
+
+/**
+ * Checks a label scan. Unknown categories and locations are mapped to the
+ * nearest one and noted in `warnings`; a missing name or an unreadable expiry
+ * date makes the answer unusable.
+ */
+export const parseScanResult = (text: string, now: Date = new Date()): Parsed<ScanResult> => {
+  const data = extractJson(text);
+  if (!isObject(data)) return { value: null, errors: ['The answer is not a JSON object.'] };
+  return parseScanEntry(data, now);
+};
+
+/**
+ * Checks a shelf scan: one entry per item, each checked like a label scan
+ * and with its `box` in the photo. Unusable entries are left out.
+ */
+export const parseShelfScan = (text: string, now: Date = new Date()): Parsed<ScanResult[]> => parseList<ScanResult>(text, entry => {
+  if (!isObject(entry)) return { value: null, errors: ['is not an object.'] };
+  const parsed = parseScanEntry(entry, now);
+  if (!parsed.value) return parsed;
+  const box = toBox(entry.box);
+  if (box) return { value: { ...parsed.value, box }, errors: parsed.errors };
+  // Still worth logging, it just cannot be pointed out in the photo
+  const warnings = [...(parsed.value.warnings ?? []), 'Its position in the photo is unknown.'];
+  return { value: { ...parsed.value, warnings }, errors: parsed.errors };
+});
+
+const parseScanEntry = (data: Record<string, any>, now: Date): Parsed<ScanResult> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const name = toText(data.name);
+  if (!name) errors.push('"name" is missing.');
+
+  const expiryDate = normaliseDate(data.expiryDate, now);
+  if (!expiryDate) errors.push(`"expiryDate" ${data.expiryDate === undefined ? 'is missing' : `"${data.expiryDate}" is not a date`}; use YYYY-MM-DD.`);
+
+  const rawCategory = toText(data.category);
+  const category = matchBaseCategory(rawCategory) ?? 'Other';
+  if (rawCategory && category.toLowerCase() !== rawCategory.toLowerCase()) warnings.push(`Category "${rawCategory}" was read as ${category}.`);
+
+  const rawLocation = toText(data.storageLocation);
+  const knownLocation = LOCATION_KEYWORDS.find(([, words]) => words.some(w => rawLocation.toLowerCase().includes(w)))?.[0];
+  const storageLocation = knownLocation ?? (CHILLED_CATEGORIES.includes(category) ? 'Fridge' : 'Pantry');
+  if (!knownLocation) warnings.push(`Storage ${rawLocation ? `"${rawLocation}"` : 'was missing and'} is assumed to be the ${storageLocation}.`);
+
+  const quantity = toNumber(data.quantity);
+  if (quantity === null || quantity <= 0) warnings.push('Quantity was missing, so 1 is assumed.');
+
+  // A missing confidence is treated as none at all, so the UI flags it
+  const confidence = toNumber(data.confidence);
+
+  const result: ScanResult = {
+    name,
+    expiryDate: expiryDate ?? '',
+    category,
+    storageLocation,
+    quantity: quantity !== null && quantity > 0 ? quantity : 1,
+    unit: toText(data.unit) || 'pcs',
+    confidence: confidence === null ? 0 : Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence)),
+    mouldDetected: data.mouldDetected === true || data.mouldDetected === 'true'
+  };
+  const brandInfo = toText(data.brandInfo);
+  if (brandInfo) result.brandInfo = brandInfo;
+  const calories = toNumber(data.calories);
+  if (calories !== null && calories >= 0) result.calories = Math.round(calories);
+  const estimatedPrice = toNumber(data.estimatedPrice);
+  if (estimatedPrice !== null && estimatedPrice >= 0) result.estimatedPrice = estimatedPrice;
+  if (warnings.length > 0) result.warnings = warnings;
+
+  return { value: errors.length === 0 ? result : null, errors };
+};
+
+// --- Recipes and meal plans ---
+
+const DIFFICULTIES: Recipe['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+export const parseRecipes = (text: string): Parsed<Recipe[]> => parseList<Recipe>(text, (entry, index) => {
+  if (!isObject(entry)) return { value: null, errors: ['is not an object.'] };
+  const errors: string[] = [];
+  const title = toText(entry.title);
+  if (!title) errors.push('"title" is missing.');
+  const ingredients = toTextList(entry.ingredients);
+  if (ingredients.length === 0) errors.push('"ingredients" is empty.');
+  const steps = toTextList(entry.steps);
+  if (steps.length === 0) errors.push('"steps" is empty.');
+  if (errors.length > 0) return { value: null, errors };
+
+  const prepMinutes = typeof entry.prepTime === 'number' ? entry.prepTime : null;
+  const difficulty = DIFFICULTIES.find(d => d.toLowerCase() === toText(entry.difficulty).toLowerCase()) ?? 'Medium';
+  return {
+    value: {
+      id: toText(entry.id) || `recipe-${index + 1}`,
+      title,
+      description: toText(entry.description),
+      ingredients,
+      steps,
+      prepTime: prepMinutes !== null ? `${prepMinutes} mins` : toText(entry.prepTime),
+      difficulty,
+      caloriesPerServing: Math.round(toNumber(entry.caloriesPerServing) ?? 0)
+    },
+    errors
+  };
+});
+
+export const parseMealPlan = (text: string): Parsed<MealSuggestion[]> => parseList<MealSuggestion>(text, (entry, index) => {
+  if (!isObject(entry)) return { value: null, errors: ['is not an object.'] };
+  const meals = { breakfast: toText(entry.breakfast), lunch: toText(entry.lunch), dinner: toText(entry.dinner) };
+  if (!meals.breakfast && !meals.lunch && !meals.dinner) return { value: null, errors: ['has no meals.'] };
+  return {
+    value: {
+      day: toText(entry.day) || `Day ${index + 1}`,
+      ...meals,
+      ingredientsUsed: toTextList(entry.ingredientsUsed)
+    },
+    errors: []
+  };
+});
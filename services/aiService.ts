@@ -0,0 +1,161 @@
+
+import { AiProviderId, AiSettings } from '../types';
+import { safeStorage } from './storageService';
+import { AiProvider, AiRequestOptions, createGeminiProvider, createOpenAiCompatibleProvider, createMockProvider } from './aiProviders';
+import { AiCancelledError, AiTimeoutError, toAiError } from './aiErrors';
+import { DEFAULT_AI_FIXTURES } from './aiFixtures';
+
+// One choice per device: a local model server is a property of the machine, not the profile
+const AI_SETTINGS_KEY = 'fridgesmart_ai_settings_v1';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible server',
+  mock: 'Offline mock'
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  providers: {
+    gemini: {
+      models: {
+        fast: 'gemini-3-flash-preview',
+        complex: 'gemini-3.1-pro-preview',
+        vision: 'gemini-3.1-pro-preview',
+        tts: 'gemini-2.5-flash-preview-tts',
+        live: 'gemini-2.5-flash-native-audio-preview-12-2025'
+      }
+    },
+    openai: {
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      models: { fast: 'llama3.2', complex: 'llama3.1', vision: 'llava', tts: 'tts-1', live: '' }
+    },
+    mock: {
+      models: { fast: 'mock', complex: 'mock', vision: 'mock', tts: 'mock', live: 'mock' }
+    }
+  }
+};
+
+export const getAiSettings = async (): Promise<AiSettings> => {
+  const data = await safeStorage.getItem(AI_SETTINGS_KEY);
+  let parsed: Partial<AiSettings> = {};
+  try {
+    if (data) parsed = JSON.parse(data);
+  } catch (e) {
+    // Unreadable settings fall back to the defaults rather than breaking every AI call
+    console.error("AI Settings Load Failure:", e);
+  }
+  const providers = { ...DEFAULT_AI_SETTINGS.providers };
+  (Object.keys(providers) as AiProviderId[]).forEach(id => {
+    const saved = parsed.providers?.[id];
+    if (saved) providers[id] = { ...providers[id], ...saved, models: { ...providers[id].models, ...saved.models } };
+  });
+  return { provider: parsed.provider && parsed.provider in providers ? parsed.provider : DEFAULT_AI_SETTINGS.provider, providers };
+};
+
+let provider: AiProvider | null = null;
+
+export const saveAiSettings = async (settings: AiSettings): Promise<void> => {
+  await safeStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+  provider = null;
+};
+
+const createProvider = (settings: AiSettings): AiProvider => {
+  const config = settings.providers[settings.provider];
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(config);
+    case 'mock': return createMockProvider(DEFAULT_AI_FIXTURES);
+    default: return createGeminiProvider(config);
+  }
+};
+
+/** The provider every AI call goes through, as configured in settings. */
+export const getProvider = async (): Promise<AiProvider> => {
+  if (!provider) provider = createProvider(await getAiSettings());
+  return provider;
+};
+
+/** Only Gemini uses the key picked in AI Studio; other providers never prompt for it. */
+export const usesStudioKey = async (): Promise<boolean> => (await getProvider()).id === 'gemini';
+
+// --- Request pipeline ---
+
+// Per-attempt limits. Label scans think hard and search the web, so they get longer
+export const AI_TIMEOUT_MS = { text: 30_000, vision: 90_000 };
+// Limits across all attempts, so a slow call is not waited on three times over
+export const AI_TOTAL_MS = { text: 60_000, vision: 120_000 };
+const RETRY_BASE_MS = 800;
+const RETRY_MAX_MS = 8_000;
+
+export interface AiPipelineOptions extends AiRequestOptions {
+  timeoutMs?: number; // Per attempt; defaults to AI_TIMEOUT_MS.text
+  totalMs?: number; // Across attempts and pauses; defaults to AI_TOTAL_MS.text
+  retries?: number; // Further attempts after a retryable failure; defaults to 2
+}
+
+/** Resolves after `ms`, or rejects with AiCancelledError as soon as `signal` aborts. */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(new AiCancelledError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AiCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * One attempt with its own abort signal, which fires on timeout or when the
+ * caller's signal does. The call is raced against both, so a provider that
+ * ignores its signal cannot hold the caller up.
+ */
+const attempt = <T>(call: (provider: AiProvider, signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const fail = (error: Error) => {
+      controller.abort();
+      reject(error);
+    };
+    const onAbort = () => fail(new AiCancelledError());
+    const timer = setTimeout(() => fail(new AiTimeoutError(timeoutMs)), timeoutMs);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    getProvider()
+      .then(provider => call(provider, controller.signal))
+      .then(resolve, error => reject(toAiError(error)))
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+/**
+ * Runs an AI call with a timeout per attempt, cancellation through
+ * `options.signal` and exponential backoff with jitter between retries of
+ * quota and network failures. A retry is only made while at least half an
+ * attempt's time is left of `totalMs`, so a vision call that timed out is not
+ * repeated. Whatever fails is thrown as an AiError.
+ */
+export const requestAi = async <T>(call: (provider: AiProvider, signal: AbortSignal) => Promise<T>, options: AiPipelineOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = AI_TIMEOUT_MS.text, totalMs = AI_TOTAL_MS.text, retries = 2 } = options;
+  const started = Date.now();
+  for (let tries = 0; ; tries++) {
+    try {
+      return await attempt(call, Math.min(timeoutMs, totalMs - (Date.now() - started)), signal);
+    } catch (error) {
+      const typed = toAiError(error);
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** tries);
+      const pause = delay / 2 + Math.random() * delay / 2;
+      const left = totalMs - (Date.now() - started) - pause;
+      if (!typed.retryable || tries >= retries || signal?.aborted || left < timeoutMs / 2) throw typed;
+      console.error("AI Request Failure:", typed);
+      await wait(pause, signal);
+    }
+  }
+};
@@ -0,0 +1,235 @@
+
+import { FoodItem, UserStats, UserProfile, MealPlan, LedgerEvent, UserLocation, UserCategory } from '../types';
+import { safeStorage, activeKeys, announceChanges, LocalChange, getUserProfile, getInventory, getStats, getMealPlan, saveMealPlan, getLedger, getLocations, saveLocations, getCategories, saveCategories, rebuildStats, ensureLedgerBaseline } from './storageService';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './migrationService';
+import { validateEntity } from './schemaService';
+
+const BACKUP_FORMAT = 'fridgeometer-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+export type ImportMode = 'replace' | 'merge';
+export type ConflictStrategy = 'keep-local' | 'use-backup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  profile: UserProfile | null;
+  inventory: FoodItem[];
+  stats: UserStats | null;
+  mealPlan: MealPlan | null;
+  ledger: LedgerEvent[];
+  locations?: UserLocation[]; // Missing from backups made before custom locations
+  categories?: UserCategory[]; // Missing from backups made before custom categories
+}
+
+export interface BackupConflict {
+  id: string;
+  localName: string;
+  backupName: string;
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  added: FoodItem[];
+  unchanged: number;
+  conflicts: BackupConflict[];
+  removed: number; // Local items dropped by a replace import
+}
+
+export const exportBackup = async (): Promise<BackupFile> => {
+  const [profile, inventory, stats, mealPlan, ledger, locations, categories] = await Promise.all([
+    getUserProfile(), getInventory(), getStats(), getMealPlan(), getLedger(), getLocations(), getCategories()
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile, inventory, stats, mealPlan, ledger, locations, categories
+  };
+};
+
+export const downloadBackup = async (): Promise<void> => {
+  const backup = await exportBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `fridgeometer-backup-${backup.exportedAt.split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Field by field, so the same item stored with its keys in another order matches
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  if (!isObject(a) || !isObject(b)) return false;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])].every(k => sameValue(a[k], b[k]));
+};
+
+/**
+ * Checks the structure of a parsed backup file and brings its entities up to
+ * the current schema. Files written by a newer app version are rejected.
+ */
+export const validateBackup = (data: unknown): { backup: BackupFile | null, errors: string[] } => {
+  const errors: string[] = [];
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) return { backup: null, errors: ['Not a Fridgeometer backup file'] };
+  if (typeof data.formatVersion !== 'number' || data.formatVersion > BACKUP_FORMAT_VERSION) errors.push(`Unsupported backup format version ${data.formatVersion}`);
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > CURRENT_SCHEMA_VERSION) errors.push(`Backup was made by a newer version of the app (schema ${data.schemaVersion})`);
+  if (!Array.isArray(data.inventory)) errors.push('inventory is missing');
+  if (data.profile !== null && !isObject(data.profile)) errors.push('profile is malformed');
+  if (data.stats !== null && !isObject(data.stats)) errors.push('stats are malformed');
+  if (data.mealPlan !== null && !isObject(data.mealPlan)) errors.push('mealPlan is malformed');
+  if (data.locations !== undefined) errors.push(...validateEntity('locations', { locations: data.locations }));
+  if (data.categories !== undefined) errors.push(...validateEntity('categories', { categories: data.categories }));
+  if (errors.length) return { backup: null, errors };
+
+  const { snapshot } = migrateSnapshot({ inventory: data.inventory, stats: data.stats, user: data.profile, mealPlan: data.mealPlan }, data.schemaVersion);
+  snapshot.inventory.forEach((item, i) => errors.push(...validateEntity('inventory', item, `inventory[${i}]`)));
+  if (snapshot.user) errors.push(...validateEntity('user', snapshot.user, 'profile'));
+  if (snapshot.mealPlan) errors.push(...validateEntity('mealPlan', snapshot.mealPlan));
+  if (errors.length) return { backup: null, errors };
+
+  return {
+    backup: {
+      ...(data as BackupFile),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      profile: snapshot.user,
+      inventory: snapshot.inventory,
+      stats: snapshot.stats,
+      mealPlan: snapshot.mealPlan,
+      ledger: Array.isArray(data.ledger) ? data.ledger.filter((e: any) => validateEntity('ledger', e).length === 0) : []
+    },
+    errors
+  };
+};
+
+export const parseBackupFile = async (file: File): Promise<{ backup: BackupFile | null, errors: string[] }> => {
+  try {
+    return validateBackup(JSON.parse(await file.text()));
+  } catch (error) {
+    return { backup: null, errors: ['File is not valid JSON'] };
+  }
+};
+
+/** Works out what an import would do without writing anything. */
+export const planImport = async (backup: BackupFile, mode: ImportMode): Promise<ImportPlan> => {
+  const local = await getInventory();
+  if (mode === 'replace') {
+    return { mode, added: backup.inventory, unchanged: 0, conflicts: [], removed: local.length };
+  }
+  const localById = new Map(local.map(i => [i.id, i]));
+  const plan: ImportPlan = { mode, added: [], unchanged: 0, conflicts: [], removed: 0 };
+  for (const item of backup.inventory) {
+    const existing = localById.get(item.id);
+    if (!existing) plan.added.push(item);
+    else if (sameValue(existing, item)) plan.unchanged += 1;
+    else plan.conflicts.push({ id: item.id, localName: existing.name, backupName: item.name });
+  }
+  return plan;
+};
+
+interface LocalSnapshot {
+  documents: Record<string, string | null>;
+  collections: Record<string, any[]>;
+}
+
+const takeSnapshot = async (documentKeys: string[], collectionKeys: string[]): Promise<LocalSnapshot> => {
+  const snapshot: LocalSnapshot = { documents: {}, collections: {} };
+  for (const key of documentKeys) snapshot.documents[key] = await safeStorage.getItem(key);
+  for (const key of collectionKeys) snapshot.collections[key] = await safeStorage.getRecords<any>(key);
+  return snapshot;
+};
+
+const writeSnapshot = async (snapshot: LocalSnapshot): Promise<void> => {
+  for (const [key, records] of Object.entries(snapshot.collections)) {
+    await safeStorage.clearCollection(key);
+    await safeStorage.putRecords(key, records);
+  }
+  for (const [key, value] of Object.entries(snapshot.documents)) {
+    if (value === null) await safeStorage.removeItem(key);
+    else await safeStorage.setItem(key, value);
+  }
+};
+
+/**
+ * Writes a validated backup. Replace swaps local data for the backup's, and
+ * puts the local data back if any write fails; merge keeps the local profile
+ * and stats, adds missing items, ledger events, locations and categories, and
+ * settles id conflicts with `strategy`. Everything written is announced, so
+ * sync and other tabs pick the import up.
+ */
+export const applyImport = async (backup: BackupFile, mode: ImportMode, strategy: ConflictStrategy = 'keep-local'): Promise<ImportPlan> => {
+  const plan = await planImport(backup, mode);
+  const keys = activeKeys();
+  const written: LocalChange[] = [];
+
+  if (mode === 'replace') {
+    const local = await takeSnapshot([keys.user, keys.stats, keys.mealPlan, keys.locations, keys.categories], [keys.inventory, keys.ledger]);
+    const json = (value: unknown) => value ? JSON.stringify(value) : null;
+    try {
+      await writeSnapshot({
+        collections: { [keys.inventory]: backup.inventory, [keys.ledger]: backup.ledger },
+        documents: {
+          [keys.user]: json(backup.profile),
+          [keys.stats]: json(backup.stats),
+          [keys.mealPlan]: json(backup.mealPlan),
+          [keys.locations]: json(backup.locations && { locations: backup.locations }),
+          [keys.categories]: json(backup.categories && { categories: backup.categories })
+        }
+      });
+    } catch (error) {
+      console.error("Backup Import Failure:", error);
+      await writeSnapshot(local);
+      throw error;
+    }
+    // Local records the backup does not have were deleted
+    const removed = (collection: string, kept: { id: string }[]) => local.collections[collection].filter(r => !kept.some(k => k.id === r.id));
+    removed(keys.inventory, backup.inventory).forEach(r => written.push({ entity: 'inventory', id: r.id, data: null }));
+    removed(keys.ledger, backup.ledger).forEach(r => written.push({ entity: 'ledger', id: r.id, data: null }));
+    backup.inventory.forEach(item => written.push({ entity: 'inventory', id: item.id, data: item }));
+    backup.ledger.forEach(event => written.push({ entity: 'ledger', id: event.id, data: event }));
+    written.push(
+      { entity: 'user', id: 'current', data: backup.profile },
+      { entity: 'mealPlan', id: 'current', data: backup.mealPlan },
+      { entity: 'locations', id: 'current', data: backup.locations ? { locations: backup.locations } : null },
+      { entity: 'categories', id: 'current', data: backup.categories ? { categories: backup.categories } : null }
+    );
+  } else {
+    const conflictIds = new Set(plan.conflicts.map(c => c.id));
+    const overwritten = strategy === 'use-backup' ? backup.inventory.filter(i => conflictIds.has(i.id)) : [];
+    for (const item of [...plan.added, ...overwritten]) {
+      await safeStorage.putRecord(keys.inventory, item);
+      written.push({ entity: 'inventory', id: item.id, data: item });
+    }
+    // Keep local pre-ledger counters, and never count two opening balances
+    await ensureLedgerBaseline();
+    const localEvents = await getLedger();
+    const localIds = new Set(localEvents.map(e => e.id));
+    const hasBaseline = localEvents.some(e => e.action === 'baseline');
+    for (const event of backup.ledger) {
+      if (localIds.has(event.id) || (hasBaseline && event.action === 'baseline')) continue;
+      await safeStorage.putRecord(keys.ledger, event);
+      written.push({ entity: 'ledger', id: event.id, data: event });
+    }
+    if (backup.mealPlan && !(await getMealPlan())) await saveMealPlan(backup.mealPlan);
+    // Locations and categories the imported items may point at
+    const localLocations = await getLocations();
+    const missing = (backup.locations ?? []).filter(l => !localLocations.some(local => local.id === l.id));
+    if (missing.length) await saveLocations([...localLocations, ...missing]);
+    const localCategories = await getCategories();
+    const missingCategories = (backup.categories ?? []).filter(c => !localCategories.some(local => local.id === c.id));
+    if (missingCategories.length) await saveCategories([...localCategories, ...missingCategories]);
+  }
+
+  announceChanges(written);
+  const stats = await rebuildStats();
+  // A rebuild only announces stats it changed; replaced ones are new either way
+  if (mode === 'replace') announceChanges([{ entity: 'stats', id: 'current', data: stats }]);
+  return plan;
+};
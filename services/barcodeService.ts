@@ -0,0 +1,78 @@
+
+// Shape of the browser's Shape Detection API, which TypeScript's DOM types do not include yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+const getDetectorClass = (): BarcodeDetectorConstructor | undefined =>
+  typeof window !== 'undefined' ? (window as any).BarcodeDetector : undefined;
+
+/** GS1 check digit: weights 3 and 1 alternate from the right, excluding the check digit itself. */
+const hasValidCheckDigit = (digits: string): boolean => {
+  const body = digits.slice(0, -1).split('').reverse().map(Number);
+  const sum = body.reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/** Expands a zero-suppressed UPC-E code to its UPC-A form. */
+const expandUpcE = (code: string): string => {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code.split('');
+  const middle = d6 <= '2' ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : d6 === '3' ? `${d1}${d2}${d3}00000${d4}${d5}`
+    : d6 === '4' ? `${d1}${d2}${d3}${d4}00000${d5}`
+    : `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${middle}${check}`;
+};
+
+/**
+ * Brings a scanned or typed code to the form the catalogue is keyed by:
+ * EAN-13 or EAN-8, with UPC-A and UPC-E widened to EAN-13. Returns null when
+ * it is not a valid retail barcode.
+ */
+export const normaliseBarcode = (raw: string, format?: string): string | null => {
+  const digits = raw.replace(/\D/g, '');
+  const code = format === 'upc_e' && digits.length === 8 ? expandUpcE(digits) : digits;
+  if (![8, 12, 13].includes(code.length) || !hasValidCheckDigit(code)) return null;
+  return code.length === 12 ? `0${code}` : code;
+};
+
+export const isDetectionSupported = (): boolean => !!getDetectorClass();
+
+/** The first retail barcode visible in `source`, normalised, or null. */
+export const detectBarcode = async (source: ImageBitmapSource): Promise<string | null> => {
+  const Detector = getDetectorClass();
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats();
+  const formats = RETAIL_FORMATS.filter(f => supported.includes(f));
+  if (formats.length === 0) return null;
+  const found = await new Detector({ formats }).detect(source);
+  for (const barcode of found) {
+    const code = normaliseBarcode(barcode.rawValue, barcode.format);
+    if (code) return code;
+  }
+  return null;
+};
+
+/** Looks for a barcode in a base64 image such as the one `ImageUpload` produces. */
+export const detectBarcodeInImage = async (base64: string, mimeType: string = 'image/jpeg'): Promise<string | null> => {
+  if (!isDetectionSupported()) return null;
+  try {
+    const blob = await (await fetch(`data:${mimeType};base64,${base64}`)).blob();
+    return await detectBarcode(await createImageBitmap(blob));
+  } catch (error) {
+    console.error("Barcode Detection Failed:", error);
+    return null;
+  }
+};
@@ -0,0 +1,143 @@
+
+import { FoodItem, MealPlan, CalendarExportSettings, Category, UserLocation } from '../types';
+import { safeStorage, activeKeys, getInventory, getMealPlan, getLocations } from './storageService';
+import { getEffectiveExpiry, toDateString } from './shelfLifeService';
+import { findLocation } from './locationService';
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+// Calendar apps match re-imported events on UID, so these must never change
+// for the same item or meal-plan day.
+const UID_DOMAIN = 'fridgeometer.app';
+const REMINDER_HOUR = 9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarExportSettings = {
+  excludedLocations: [],
+  categories: CATEGORIES,
+  includeMealPlan: false,
+  reminderDays: 1
+};
+
+export const getCalendarSettings = async (): Promise<CalendarExportSettings> => {
+  const data = await safeStorage.getItem(activeKeys().calendar);
+  return { ...DEFAULT_CALENDAR_SETTINGS, ...(data ? JSON.parse(data) : {}) };
+};
+
+export const saveCalendarSettings = (settings: CalendarExportSettings): Promise<void> =>
+  safeStorage.setItem(activeKeys().calendar, JSON.stringify(settings));
+
+// --- iCalendar formatting (RFC 5545) ---
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; longer ones continue on lines that
+// start with a space. Splits between characters so UTF-8 stays intact.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const addDays = (date: string, days: number) => new Date(new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+// All-day events start at local midnight, so a reminder at 09:00 `days`
+// before is that many days back plus the hours left until the morning.
+const reminderTrigger = (days: number) => days <= 0 ? `PT${REMINDER_HOUR}H` : `-P${days - 1}DT${24 - REMINDER_HOUR}H`;
+
+// Some clients only apply an update to a known UID when SEQUENCE grows, so
+// it is taken from the export time rather than counted.
+const allDayEvent = (uid: string, date: string, summary: string, description: string, now: Date, reminderDays: number): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${uid}`,
+  `SEQUENCE:${Math.floor(now.getTime() / 1000)}`,
+  `DTSTAMP:${toIcsTimestamp(now)}`,
+  `LAST-MODIFIED:${toIcsTimestamp(now)}`,
+  `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+  `DTEND;VALUE=DATE:${toIcsDate(addDays(date, 1))}`,
+  `SUMMARY:${escapeText(summary)}`,
+  `DESCRIPTION:${escapeText(description)}`,
+  'TRANSP:TRANSPARENT',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  `DESCRIPTION:${escapeText(summary)}`,
+  `TRIGGER:${reminderTrigger(reminderDays)}`,
+  'END:VALARM',
+  'END:VEVENT'
+];
+
+const itemEvent = (item: FoodItem, locations: UserLocation[], settings: CalendarExportSettings, now: Date): string[] => {
+  const expiry = getEffectiveExpiry(item);
+  const details = [
+    `${item.quantity} ${item.unit} • ${item.category} • ${findLocation(locations, item.storageLocation).name}`,
+    expiry.basis === 'opened' ? `Opened ${item.openedDate}; printed date ${item.expiryDate}.` : '',
+    item.storageTip || ''
+  ].filter(Boolean).join('\n');
+  return allDayEvent(`item-${item.id}@${UID_DOMAIN}`, expiry.date, `${item.name} expires`, details, now, settings.reminderDays);
+};
+
+// Keyed by plan and day, so exporting the same plan again updates its events
+const mealEvents = (plan: MealPlan, now: Date): string[] => plan.suggestions.flatMap((meal, index) =>
+  allDayEvent(
+    `meal-${plan.id}-${index}@${UID_DOMAIN}`,
+    addDays(plan.startDate, index),
+    `Meal plan: ${meal.day}`,
+    [`Breakfast: ${meal.breakfast}`, `Lunch: ${meal.lunch}`, `Dinner: ${meal.dinner}`,
+      meal.ingredientsUsed.length > 0 ? `Uses: ${meal.ingredientsUsed.join(', ')}` : ''].filter(Boolean).join('\n'),
+    now,
+    0
+  ));
+
+export const selectItems = (items: FoodItem[], settings: CalendarExportSettings): FoodItem[] =>
+  items.filter(i => !settings.excludedLocations.includes(i.storageLocation) && settings.categories.includes(i.category));
+
+/** Builds a calendar with one event per selected item, plus the meal plan if enabled. */
+export const buildCalendar = (items: FoodItem[], locations: UserLocation[], mealPlan: MealPlan | null, settings: CalendarExportSettings, now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Fridgeometer//Expiry Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Fridgeometer',
+    ...selectItems(items, settings).flatMap(item => itemEvent(item, locations, settings, now)),
+    ...(settings.includeMealPlan && mealPlan ? mealEvents(mealPlan, now) : []),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadCalendar = async (): Promise<number> => {
+  const [items, locations, mealPlan, settings] = await Promise.all([getInventory(), getLocations(), getMealPlan(), getCalendarSettings()]);
+  const blob = new Blob([buildCalendar(items, locations, mealPlan, settings)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `fridgeometer-expiry-${toDateString(new Date())}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return selectItems(items, settings).length;
+};
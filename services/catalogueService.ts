@@ -0,0 +1,146 @@
+
+import { FoodItem, Category, CatalogueProduct, ScanResult, UserLocation } from '../types';
+import { safeStorage, STORAGE_KEYS } from './storageService';
+import { parseCsv } from './csvService';
+import { normaliseBarcode } from './barcodeService';
+import { suggestExpiry, daysUntil, toDateString } from './shelfLifeService';
+import { matchLocation, findLocation } from './locationService';
+import { matchBaseCategory } from './categoryService';
+
+// One catalogue per device, shared by every profile: product facts are not personal
+const CATALOGUE_KEY = STORAGE_KEYS.catalogue;
+const IMPORT_BATCH_SIZE = 500;
+
+export const lookupProduct = (barcode: string): Promise<CatalogueProduct | null> =>
+  safeStorage.getRecord<CatalogueProduct>(CATALOGUE_KEY, barcode);
+
+export const getCatalogueCounts = async (): Promise<{ imported: number, learned: number }> => {
+  const products = await safeStorage.getRecords<CatalogueProduct>(CATALOGUE_KEY);
+  const learned = products.filter(p => p.source === 'scan').length;
+  return { imported: products.length - learned, learned };
+};
+
+/** Drops imported products; ones learned from the user's scans stay. */
+export const clearImportedProducts = async (): Promise<void> => {
+  const learned = (await safeStorage.getRecords<CatalogueProduct>(CATALOGUE_KEY)).filter(p => p.source === 'scan');
+  await safeStorage.clearCollection(CATALOGUE_KEY);
+  await safeStorage.putRecords(CATALOGUE_KEY, learned);
+};
+
+// Packaged food tends to be sold into the pantry unless it is one of these
+const CHILLED_CATEGORIES: Category[] = ['Dairy', 'Meat', 'Produce'];
+
+/**
+ * Turns a known product into a scan result for the verification modal. The
+ * expiry is its typical shelf life from today, else the usual rule for its
+ * category and location.
+ */
+export const productToScanResult = (product: CatalogueProduct, locations: UserLocation[], now: Date = new Date()): ScanResult => {
+  const storageLocation = matchLocation(locations, product.storageLocation ?? (CHILLED_CATEGORIES.includes(product.category) ? 'Fridge' : 'Pantry'));
+  const expiryDate = product.shelfLifeDays !== undefined
+    ? toDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + product.shelfLifeDays))
+    : suggestExpiry(product.name, product.category, findLocation(locations, storageLocation), now).expiryDate;
+  return {
+    name: product.name,
+    brandInfo: product.brand,
+    category: product.category,
+    storageLocation,
+    expiryDate,
+    quantity: 1,
+    unit: 'pcs',
+    confidence: 1,
+    mouldDetected: false,
+    calories: product.calories,
+    barcode: product.id,
+    catalogueMatch: true
+  };
+};
+
+/**
+ * Records what the user confirmed for a scanned barcode, so the next scan of
+ * the same product needs no AI call. Overrides imported data for that code.
+ */
+export const rememberProduct = async (item: FoodItem, now: Date = new Date()): Promise<void> => {
+  if (!item.barcode) return;
+  const shelfLifeDays = daysUntil(item.expiryDate, now);
+  const product: CatalogueProduct = {
+    id: item.barcode,
+    name: item.name,
+    category: item.category,
+    storageLocation: item.storageLocation,
+    source: 'scan',
+    updatedAt: now.toISOString()
+  };
+  if (item.brandInfo) product.brand = item.brandInfo;
+  if (item.calories) product.calories = item.calories;
+  if (shelfLifeDays > 0) product.shelfLifeDays = shelfLifeDays;
+  await safeStorage.putRecord(CATALOGUE_KEY, product);
+};
+
+// --- Import ---
+
+// Column names used by Open Food Facts exports and hand-made product lists
+const COLUMN_ALIASES: Record<'barcode' | 'name' | 'brand' | 'category' | 'calories' | 'shelfLifeDays', string[]> = {
+  barcode: ['code', 'barcode', 'ean', 'upc', 'gtin'],
+  name: ['productname', 'name', 'product', 'productnameen'],
+  brand: ['brands', 'brand'],
+  category: ['category', 'categories', 'categoriesen', 'categoriestags', 'maincategory', 'maincategoryen'],
+  calories: ['calories', 'kcal', 'energykcal100g', 'energykcal'],
+  shelfLifeDays: ['shelflifedays', 'shelflife', 'days']
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Loads a product database dump (CSV, or tab-separated as Open Food Facts
+ * publishes it) into the catalogue. Rows without a valid barcode or a name are
+ * skipped, and products learned from the user's scans are never overwritten.
+ */
+export const importCatalogue = async (text: string): Promise<{ imported: number, skipped: number }> => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const rows = parseCsv(text, firstLine.includes('\t') ? '\t' : ',');
+  if (rows.length < 2) throw new Error('The file needs a header row and at least one product.');
+
+  const headers = rows[0].map(normaliseHeader);
+  const column = (field: keyof typeof COLUMN_ALIASES) => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = headers.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+  const columns = {
+    barcode: column('barcode'), name: column('name'), brand: column('brand'),
+    category: column('category'), calories: column('calories'), shelfLifeDays: column('shelfLifeDays')
+  };
+  if (columns.barcode === -1 || columns.name === -1) throw new Error('No barcode or product name column was found.');
+
+  const learned = new Set((await safeStorage.getRecords<CatalogueProduct>(CATALOGUE_KEY)).filter(p => p.source === 'scan').map(p => p.id));
+  const updatedAt = new Date().toISOString();
+  const cell = (row: string[], index: number) => index === -1 ? '' : (row[index] ?? '').trim();
+  const products: CatalogueProduct[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(1)) {
+    const id = normaliseBarcode(cell(row, columns.barcode));
+    const name = cell(row, columns.name);
+    if (!id || !name || learned.has(id)) {
+      skipped++;
+      continue;
+    }
+    const product: CatalogueProduct = { id, name, category: matchBaseCategory(cell(row, columns.category)) ?? 'Other', source: 'import', updatedAt };
+    // Dumps often list several brands; the first is the one on the pack
+    const brand = cell(row, columns.brand).split(',')[0].trim();
+    if (brand) product.brand = brand;
+    const calories = Math.round(Number(cell(row, columns.calories)));
+    if (cell(row, columns.calories) && isFinite(calories)) product.calories = calories;
+    const days = Math.round(Number(cell(row, columns.shelfLifeDays)));
+    if (cell(row, columns.shelfLifeDays) && days > 0) product.shelfLifeDays = days;
+    products.push(product);
+  }
+
+  for (let i = 0; i < products.length; i += IMPORT_BATCH_SIZE) {
+    await safeStorage.putRecords(CATALOGUE_KEY, products.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+  return { imported: products.length, skipped };
+};
@@ -0,0 +1,111 @@
+
+import { FoodItem, Category, UserCategory } from '../types';
+import { getCategories, saveCategories, getInventory, updateFoodItems } from './storageService';
+
+export const BASE_CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+const createCategoryId = () => `cat-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** What an item is filed under: its custom category's name, else its base category. */
+export const categoryLabel = (categories: UserCategory[], item: Pick<FoodItem, 'category' | 'customCategory'>): string =>
+  categories.find(c => c.id === item.customCategory)?.name ?? item.category;
+
+/**
+ * Every category in picker order, each base followed by the custom ones that
+ * belong to it. `value` is the base name or the custom category's id.
+ */
+export const categoryOptions = (categories: UserCategory[]): { value: string, label: string, base: Category }[] =>
+  BASE_CATEGORIES.flatMap(base => [
+    { value: base, label: base, base },
+    ...categories.filter(c => c.base === base).map(c => ({ value: c.id, label: c.name, base }))
+  ]);
+
+/** The picker value an item currently has. Custom categories that were deleted fall back to the base. */
+export const categoryValue = (categories: UserCategory[], item: Pick<FoodItem, 'category' | 'customCategory'>): string =>
+  categories.some(c => c.id === item.customCategory) ? item.customCategory! : item.category;
+
+/** The item fields a picker value stands for. */
+export const resolveCategory = (categories: UserCategory[], value: string): { category: Category, customCategory?: string } => {
+  const custom = categories.find(c => c.id === value);
+  if (custom) return { category: custom.base, customCategory: custom.id };
+  return { category: BASE_CATEGORIES.includes(value as Category) ? value as Category : 'Other' };
+};
+
+// First match wins, so more specific groups come before broad ones
+const CATEGORY_KEYWORDS: [Category, string[]][] = [
+  ['Canned', ['canned', 'tinned', 'preserve']],
+  ['Beverage', ['beverage', 'drink', 'juice', 'soda', 'coffee', 'tea', 'beer', 'wine', 'waters']],
+  ['Dairy', ['dair', 'milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream']],
+  ['Meat', ['meat', 'beef', 'pork', 'chicken', 'poultry', 'sausage', 'ham', 'fish', 'seafood']],
+  ['Snacks', ['snack', 'chocolate', 'biscuit', 'cookie', 'crisp', 'chips', 'candy', 'confection', 'sweet']],
+  ['Grains', ['bread', 'cereal', 'pasta', 'rice', 'grain', 'flour']],
+  ['Produce', ['fruit', 'vegetable', 'produce', 'salad']]
+];
+
+/**
+ * The base category a free-text label such as "Seafood" or "en:canned-soups"
+ * belongs to, or null when nothing in it is recognised.
+ */
+export const matchBaseCategory = (value: string): Category | null => {
+  const text = value.trim().toLowerCase();
+  const exact = BASE_CATEGORIES.find(c => c.toLowerCase() === text);
+  if (exact) return exact;
+  return CATEGORY_KEYWORDS.find(([, words]) => words.some(w => text.includes(w)))?.[0] ?? null;
+};
+
+/** Applies a picker value, dropping any previous custom category. */
+export const withCategory = (item: FoodItem, categories: UserCategory[], value: string): FoodItem => {
+  const { customCategory: _, ...rest } = item;
+  return { ...rest, ...resolveCategory(categories, value) };
+};
+
+/** Whether an item sits in a base category (including its custom ones) or in a custom category. */
+export const inCategory = (item: FoodItem, value: string): boolean =>
+  item.category === value || item.customCategory === value;
+
+// --- Tags ---
+
+export const normaliseTag = (tag: string): string => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+/** Tags typed as "kids, #meal prep; gluten-free", de-duplicated. */
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(/[,;]/).map(normaliseTag).filter(Boolean))];
+
+/** Every tag in use, most used first. */
+export const collectTags = (items: FoodItem[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(i => i.tags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
+
+// --- Editing ---
+
+export const createCategory = async (name: string, base: Category): Promise<UserCategory[]> => {
+  const categories = [...await getCategories(), { id: createCategoryId(), name: name.trim(), base }];
+  await saveCategories(categories);
+  return categories;
+};
+
+/**
+ * Renames a category or moves it under another base. Items in it take the new
+ * base so stats recorded from now on use it; past events keep the old one.
+ */
+export const updateCategory = async (id: string, patch: Partial<Omit<UserCategory, 'id'>>): Promise<{ categories: UserCategory[], inventory?: FoodItem[] }> => {
+  const categories = (await getCategories()).map(c => c.id === id ? { ...c, ...patch, name: (patch.name ?? c.name).trim() } : c);
+  await saveCategories(categories);
+  const base = categories.find(c => c.id === id)?.base;
+  const items = (await getInventory()).filter(i => i.customCategory === id && i.category !== base);
+  if (!base || items.length === 0) return { categories };
+  return { categories, inventory: await updateFoodItems(items.map(i => ({ ...i, category: base })), items) };
+};
+
+/** Deletes a category. Its items stay in its base category. */
+export const deleteCategory = async (id: string): Promise<{ categories: UserCategory[], inventory: FoodItem[] }> => {
+  const categories = (await getCategories()).filter(c => c.id !== id);
+  const items = (await getInventory()).filter(i => i.customCategory === id);
+  const inventory = items.length > 0
+    ? await updateFoodItems(items.map(({ customCategory: _, ...rest }) => rest), items)
+    : await getInventory();
+  await saveCategories(categories);
+  return { categories, inventory };
+};
@@ -0,0 +1,337 @@
+
+import { FoodItem, FoodLot, Category, StorageLocation, UserLocation, UserCategory } from '../types';
+import { parseTags } from './categoryService';
+import { normaliseBarcode } from './barcodeService';
+import { withLots } from './lotService';
+import { toDateString } from './shelfLifeService';
+import { validateEntity } from './schemaService';
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+export type FoodItemField = keyof FoodItem;
+
+/** Column order for exports; also the set of fields an import can map onto. */
+export const FOOD_ITEM_FIELDS: FoodItemField[] = [
+  'id', 'name', 'category', 'customCategory', 'tags', 'barcode', 'expiryDate', 'quantity', 'portionLeft', 'unit', 'storageLocation', 'addedDate', 'openedDate',
+  'brandInfo', 'notes', 'storageTip', 'mouldDetected', 'calories', 'estimatedPrice', 'imageUrl', 'lots'
+];
+
+const REQUIRED_FIELDS: FoodItemField[] = ['name', 'expiryDate'];
+
+// Header spellings people actually use in pantry spreadsheets
+const FIELD_ALIASES: Partial<Record<FoodItemField, string[]>> = {
+  name: ['name', 'item', 'product', 'description'],
+  category: ['category', 'type', 'group'],
+  tags: ['tags', 'tag', 'labels'],
+  expiryDate: ['expirydate', 'expiry', 'expires', 'bestbefore', 'useby', 'bbd'],
+  quantity: ['quantity', 'qty', 'count', 'amount'],
+  unit: ['unit', 'units', 'uom'],
+  storageLocation: ['storagelocation', 'location', 'storage', 'where'],
+  addedDate: ['addeddate', 'added', 'purchased', 'bought'],
+  openedDate: ['openeddate', 'opened', 'openedon'],
+  barcode: ['barcode', 'ean', 'upc', 'gtin'],
+  brandInfo: ['brandinfo', 'brand'],
+  estimatedPrice: ['estimatedprice', 'price', 'unitprice', 'cost'],
+  mouldDetected: ['moulddetected', 'mould', 'mold']
+};
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY';
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY'];
+
+export type ColumnMapping = Partial<Record<FoodItemField, number>>;
+
+export interface CsvPreviewRow {
+  rowNumber: number; // 1-based line in the file, header included
+  item: FoodItem | null;
+  errors: string[];
+}
+
+export type CsvConflictStrategy = 'keep-local' | 'use-file';
+
+export interface CsvImportPlan {
+  added: FoodItem[];
+  unchanged: number;
+  conflicts: { local: FoodItem, incoming: FoodItem }[]; // Same id, different contents
+}
+
+// --- Export ---
+
+const FORMULA_START = /^[=+\-@]/;
+
+const escapeCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  // Tags are a plain list; lots are records and go out as JSON
+  const text = Array.isArray(value) && value.every(v => typeof v === 'string') ? value.join('; ')
+    : typeof value === 'object' ? JSON.stringify(value)
+    : String(value);
+  // Spreadsheets run text starting with these as a formula; the quote makes it plain text
+  const safe = typeof value === 'string' && FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const inventoryToCsv = (items: FoodItem[]): string => {
+  const lines = [FOOD_ITEM_FIELDS.join(',')];
+  items.forEach(item => lines.push(FOOD_ITEM_FIELDS.map(f => escapeCell(item[f])).join(',')));
+  return lines.join('\r\n');
+};
+
+export const downloadInventoryCsv = (items: FoodItem[]): void => {
+  const blob = new Blob([inventoryToCsv(items)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `fridgeometer-inventory-${toDateString(new Date())}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Import ---
+
+/** RFC 4180 parser: quoted cells, escaped quotes, CRLF or LF line endings. Also reads tab-separated files. */
+export const parseCsv = (text: string, delimiter: ',' | '\t' = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  headers.forEach((header, index) => {
+    const key = normaliseHeader(header);
+    const field = FOOD_ITEM_FIELDS.find(f => normaliseHeader(f) === key)
+      ?? (Object.keys(FIELD_ALIASES) as FoodItemField[]).find(f => FIELD_ALIASES[f]!.includes(key));
+    if (field && mapping[field] === undefined) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  'YYYY-MM-DD': /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/,
+  'DD/MM/YYYY': /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+  'MM/DD/YYYY': /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+  'DD.MM.YYYY': /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/
+};
+
+/** Converts a date cell to YYYY-MM-DD, or null if it does not fit `format`. */
+export const parseDateCell = (value: string, format: DateFormat): string | null => {
+  const match = value.trim().match(DATE_PATTERNS[format]);
+  if (!match) return null;
+  let year: number, month: number, day: number;
+  if (format === 'YYYY-MM-DD') [year, month, day] = [match[1], match[2], match[3]].map(Number);
+  else if (format === 'MM/DD/YYYY') [month, day, year] = [match[1], match[2], match[3]].map(Number);
+  else [day, month, year] = [match[1], match[2], match[3]].map(Number);
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Picks the format that parses the most sample values. Day-first wins a tie
+ * between the two slash formats unless some value only works month-first.
+ */
+export const detectDateFormat = (values: string[]): DateFormat => {
+  const samples = values.map(v => v.trim()).filter(Boolean);
+  let best: DateFormat = 'YYYY-MM-DD';
+  let bestScore = -1;
+  DATE_FORMATS.forEach(format => {
+    const score = samples.filter(v => parseDateCell(v, format) !== null).length;
+    if (score > bestScore) { best = format; bestScore = score; }
+  });
+  return best;
+};
+
+const matchUnion = <T extends string>(value: string, options: T[]): T | undefined =>
+  options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+
+/**
+ * Reads a number the way spreadsheets write them: "1.5", "1,5", "€1,99",
+ * "1,234.50" or "1.234,50". Anything with other text in it is an error, and
+ * so is "1,500", where the separator could mean either.
+ */
+export const parseNumberCell = (value: string): { value: number } | { error: string } => {
+  const text = value.trim().replace(/^[€$£¥]\s*|\s*[€$£¥]$/g, '');
+  if (!/^-?\d[\d.,]*$/.test(text) || /[.,]$/.test(text)) return { error: 'is not a number' };
+
+  const separators = [...new Set(text.replace(/[^.,]/g, ''))];
+  if (separators.length === 0) return { value: Number(text) };
+  const grouped = (digits: string, separator: string) => new RegExp(`^-?\\d{1,3}(\\${separator}\\d{3})*$`).test(digits);
+
+  if (separators.length === 2) {
+    // The separator that comes last is the decimal one
+    const decimal = text.lastIndexOf('.') > text.lastIndexOf(',') ? '.' : ',';
+    const grouping = decimal === '.' ? ',' : '.';
+    const [whole, fraction, extra] = text.split(decimal);
+    if (extra !== undefined || fraction.includes(grouping) || !grouped(whole, grouping)) return { error: 'is not a number' };
+    return { value: Number(`${whole.split(grouping).join('')}.${fraction}`) };
+  }
+
+  const [separator] = separators;
+  const parts = text.split(separator);
+  if (parts.length > 2) return grouped(text, separator) ? { value: Number(parts.join('')) } : { error: 'is not a number' };
+  const [whole, fraction] = parts;
+  if (fraction.length === 3 && /^-?[1-9]\d{0,2}$/.test(whole)) {
+    return { error: `is ambiguous: it could be ${whole}${fraction} or ${whole}.${fraction}` };
+  }
+  return { value: Number(`${whole}.${fraction}`) };
+};
+
+/**
+ * Turns data rows into FoodItems using `mapping`, collecting every problem per
+ * row instead of stopping at the first. Nothing is written here.
+ */
+export const buildImportPreview = (rows: string[][], mapping: ColumnMapping, dateFormat: DateFormat, locations: UserLocation[], categories: UserCategory[]): CsvPreviewRow[] => {
+  const now = Date.now();
+  const seenIds = new Set<string>();
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const cell = (field: FoodItemField) => {
+      const text = mapping[field] === undefined ? '' : (row[mapping[field]!] ?? '').trim();
+      // Undo the quote our export puts before formula-like text
+      return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+    };
+    const numberCell = (field: FoodItemField): number | undefined => {
+      if (!cell(field)) return undefined;
+      const parsed = parseNumberCell(cell(field));
+      if ('error' in parsed) errors.push(`${field} "${cell(field)}" ${parsed.error}`);
+      return 'value' in parsed ? parsed.value : undefined;
+    };
+
+    REQUIRED_FIELDS.forEach(f => { if (!cell(f)) errors.push(`${f} is empty`); });
+
+    const expiryDate = cell('expiryDate') ? parseDateCell(cell('expiryDate'), dateFormat) : null;
+    if (cell('expiryDate') && !expiryDate) errors.push(`expiryDate "${cell('expiryDate')}" is not ${dateFormat}`);
+
+    // A custom category's name counts as a category too; its id (our own exports) goes in customCategory
+    let category: Category = 'Other';
+    let custom = categories.find(c => c.id === cell('customCategory'))
+      ?? categories.find(c => c.name === matchUnion(cell('customCategory'), categories.map(c => c.name)));
+    if (cell('category')) {
+      const matched = matchUnion(cell('category'), CATEGORIES);
+      const named = categories.find(c => c.name === matchUnion(cell('category'), categories.map(c => c.name)));
+      if (matched) category = matched;
+      else if (named) custom = named;
+      else errors.push(`category "${cell('category')}" must be one of ${[...CATEGORIES, ...categories.map(c => c.name)].join(', ')}`);
+    }
+    if (custom) category = custom.base;
+
+    // Matched on the location's name; our own exports carry its id
+    let storageLocation: StorageLocation = locations[0].id;
+    if (cell('storageLocation')) {
+      const byId = locations.find(l => l.id === cell('storageLocation'));
+      const byName = matchUnion(cell('storageLocation'), locations.map(l => l.name));
+      const matched = byId ?? locations.find(l => l.name === byName);
+      if (matched) storageLocation = matched.id;
+      else errors.push(`storageLocation "${cell('storageLocation')}" must be one of ${locations.map(l => l.name).join(', ')}`);
+    }
+
+    const openedDate = cell('openedDate') ? parseDateCell(cell('openedDate'), dateFormat) : null;
+    if (cell('openedDate') && !openedDate) errors.push(`openedDate "${cell('openedDate')}" is not ${dateFormat}`);
+
+    const quantity = cell('quantity') ? numberCell('quantity') : 1;
+    if (quantity !== undefined && quantity <= 0) errors.push(`quantity "${cell('quantity')}" is not a positive number`);
+    const portionLeft = numberCell('portionLeft');
+    if (portionLeft !== undefined && (portionLeft < 0 || portionLeft > 1)) errors.push(`portionLeft "${cell('portionLeft')}" is not between 0 and 1`);
+    const calories = numberCell('calories');
+    const estimatedPrice = numberCell('estimatedPrice');
+
+    const barcode = cell('barcode') ? normaliseBarcode(cell('barcode')) : null;
+    if (cell('barcode') && !barcode) errors.push(`barcode "${cell('barcode')}" is not a valid EAN or UPC code`);
+
+    if (cell('id') && seenIds.has(cell('id'))) errors.push(`id "${cell('id')}" is used by an earlier row`);
+    if (cell('id')) seenIds.add(cell('id'));
+
+    let lots: FoodLot[] | undefined;
+    if (cell('lots')) {
+      try {
+        lots = JSON.parse(cell('lots'));
+      } catch {
+        errors.push('lots is not valid JSON');
+      }
+      if (lots !== undefined && !Array.isArray(lots)) errors.push('lots is not a list');
+    }
+
+    // Full ISO timestamps (our own exports) keep their time; plain dates use the detected format
+    const addedDate = !cell('addedDate') ? null
+      : cell('addedDate').includes('T') ? cell('addedDate')
+      : parseDateCell(cell('addedDate'), dateFormat) ?? cell('addedDate');
+
+    if (errors.length) return { rowNumber: index + 2, item: null, errors };
+
+    const item: FoodItem = {
+      id: cell('id') || `${now}-${index}`,
+      name: cell('name'),
+      category,
+      expiryDate: expiryDate!,
+      quantity: quantity!,
+      unit: cell('unit') || 'pcs',
+      storageLocation,
+      addedDate: addedDate && !isNaN(Date.parse(addedDate)) ? new Date(addedDate).toISOString() : new Date().toISOString(),
+      mouldDetected: /^(true|yes|y|1)$/i.test(cell('mouldDetected'))
+    };
+    if (custom) item.customCategory = custom.id;
+    if (parseTags(cell('tags')).length) item.tags = parseTags(cell('tags'));
+    if (openedDate) item.openedDate = openedDate;
+    if (cell('brandInfo')) item.brandInfo = cell('brandInfo');
+    if (cell('notes')) item.notes = cell('notes');
+    if (cell('storageTip')) item.storageTip = cell('storageTip');
+    if (cell('imageUrl')) item.imageUrl = cell('imageUrl');
+    if (portionLeft !== undefined) item.portionLeft = portionLeft;
+    if (calories !== undefined) item.calories = calories;
+    if (estimatedPrice !== undefined) item.estimatedPrice = estimatedPrice;
+    if (barcode) item.barcode = barcode;
+    if (!lots?.length) return { rowNumber: index + 2, item, errors };
+
+    // The rest of the row is known to be valid, so whatever the schema finds is in the lots
+    const lotErrors = validateEntity('inventory', { ...item, lots }, 'row');
+    if (lotErrors.length) return { rowNumber: index + 2, item: null, errors: lotErrors };
+    // The lots are the detail; quantity, expiry and price are refreshed from them
+    return { rowNumber: index + 2, item: withLots(item, lots), errors };
+  });
+};
+
+// Compared as they would be written out, so an item survives a round trip unchanged
+const csvRow = (item: FoodItem) => FOOD_ITEM_FIELDS.map(f => f === 'mouldDetected' ? String(!!item.mouldDetected) : escapeCell(item[f]));
+
+/**
+ * Sorts the preview's items against the local inventory by id. Only files
+ * exported from this app carry ids, so spreadsheets typed by hand are all new.
+ */
+export const planCsvImport = (items: FoodItem[], local: FoodItem[]): CsvImportPlan => {
+  const localById = new Map(local.map(i => [i.id, i]));
+  const plan: CsvImportPlan = { added: [], unchanged: 0, conflicts: [] };
+  for (const item of items) {
+    const existing = localById.get(item.id);
+    if (!existing) plan.added.push(item);
+    else if (csvRow(existing).every((value, i) => value === csvRow(item)[i])) plan.unchanged += 1;
+    else plan.conflicts.push({ local: existing, incoming: item });
+  }
+  return plan;
+};
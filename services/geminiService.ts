@@ -1,77 +1,60 @@
 
-import { GoogleGenAI, Type, Chat, GenerateContentResponse, Modality } from "@google/genai";
-import { ScanResult, Category, StorageLocation, FoodItem, SearchResponse, PlaceResult, MealSuggestion, Recipe } from "../types";
+import { ScanResult, FoodItem, MealSuggestion, Recipe } from "../types";
+import { AiChat, AiRequestOptions } from "./aiProviders";
+import { AI_TIMEOUT_MS, AI_TOTAL_MS, getProvider, requestAi } from "./aiService";
+import { AiAuthError, AiCancelledError, AiInvalidOutputError } from "./aiErrors";
+import { Parsed, parseScanResult, parseShelfScan, parseRecipes, parseMealPlan } from "./aiResponseService";
 
-const getAi = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Parses a structured answer and, when it does not pass, asks the model once
+ * to fix it. Returns whichever attempt is closer to usable.
+ */
+const parseWithRepair = async <T>(text: string, parse: (text: string) => Parsed<T>, format: string, options: AiRequestOptions = {}): Promise<Parsed<T>> => {
+  const first = parse(text);
+  if (first.errors.length === 0) return first;
+  console.warn("AI Output Invalid, Requesting Repair:", first.errors);
+  const prompt = `Your previous answer could not be used:
+${first.errors.map(e => `- ${e}`).join('\n')}
 
-const fastModelId = "gemini-3-flash-preview";
-const complexModelId = "gemini-3.1-pro-preview";
-const mapsModelId = "gemini-3-flash-preview";
-const visionProModelId = "gemini-3.1-pro-preview";
-const ttsModelId = "gemini-2.5-flash-preview-tts";
+Return ONLY the corrected raw JSON (${format}), with no commentary.
 
-const cleanJson = (text: string): string => {
-  if (!text) return '{}';
-  const firstBracket = text.indexOf('[');
-  const firstBrace = text.indexOf('{');
-  let start = -1;
-  let end = -1;
-  if (firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace)) {
-    start = firstBracket;
-    end = text.lastIndexOf(']');
-  } else if (firstBrace !== -1) {
-    start = firstBrace;
-    end = text.lastIndexOf('}');
-  }
-  if (start !== -1 && end !== -1 && end > start) {
-    return text.substring(start, end + 1);
+Previous answer:
+${text}`;
+  try {
+    const second = parse(await requestAi((provider, signal) => provider.generateText(prompt, { model: 'fast', signal }), options));
+    const better = second.value !== null && (first.value === null || second.errors.length < first.errors.length);
+    return better ? second : first;
+  } catch (error) {
+    if (error instanceof AiCancelledError || error instanceof AiAuthError) throw error;
+    console.error("AI Repair Failure:", error);
+    return first;
   }
-  return text.replace(/```json\n?|\n?```/g, '').trim();
 };
 
-export const estimateItemPrice = async (itemName: string): Promise<number> => {
-  const freshAi = getAi();
-  const prompt = `Search and find the current average retail price (USD) for one unit of "${itemName}". 
+/** Average unit price in USD. Throws an AiError when no number came back. */
+export const estimateItemPrice = async (itemName: string, country: string = "USA", options: AiRequestOptions = {}): Promise<number> => {
+  const prompt = `Search and find the current average retail price (USD) for one unit of "${itemName}" in ${country}. 
   Provide ONLY the numerical value. If you find a range, provide the average. 
   If you cannot find it, return a reasonable estimate for a standard unit (e.g., $3.50 for a pack of milk).`;
 
-  try {
-    const response = await freshAi.models.generateContent({
-      model: complexModelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
-    const match = (response.text || "").match(/\d+(\.\d+)?/);
-    return match ? parseFloat(match[0]) : 5.0;
-  } catch (error) {
-    return 5.0;
-  }
+  const text = await requestAi((provider, signal) => provider.generateText(prompt, { grounded: true, signal }), options);
+  const match = text.match(/\d+(\.\d+)?/);
+  if (!match) throw new AiInvalidOutputError(`No price in "${text.slice(0, 80)}"`);
+  return parseFloat(match[0]);
 };
 
-export const estimateItemCalories = async (itemName: string): Promise<number> => {
-  const freshAi = getAi();
-  const prompt = `Search and find the approximate calorie count for one standard unit or serving of "${itemName}". 
+/** Calories per serving. Throws an AiError when no number came back. */
+export const estimateItemCalories = async (itemName: string, country: string = "USA", options: AiRequestOptions = {}): Promise<number> => {
+  const prompt = `Search and find the approximate calorie count for one standard unit or serving of "${itemName}" as sold in ${country}. 
   Provide ONLY the numerical value. If you find a range, provide the average.`;
 
-  try {
-    const response = await freshAi.models.generateContent({
-      model: complexModelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
-    });
-    const match = (response.text || "").match(/\d+/);
-    return match ? parseInt(match[0]) : 0;
-  } catch (error) {
-    return 0;
-  }
+  const text = await requestAi((provider, signal) => provider.generateText(prompt, { grounded: true, signal }), options);
+  const match = text.match(/\d+/);
+  if (!match) throw new AiInvalidOutputError(`No calorie count in "${text.slice(0, 80)}"`);
+  return parseInt(match[0]);
 };
 
-export const analyzeFoodImage = async (base64Image: string): Promise<ScanResult> => {
-  const freshAi = getAi();
+export const analyzeFoodImage = async (base64Image: string, options: AiRequestOptions = {}): Promise<ScanResult> => {
   const prompt = `Act as the Fridgeometer Ultra-Precision Molecular Scanner. Your primary priority is food safety and mould detection.
 
   IMAGE ANALYSIS TASKS:
@@ -100,50 +83,76 @@ export const analyzeFoodImage = async (base64Image: string): Promise<ScanResult>
   Be strictly objective. If there is a risk of mould, mark 'mouldDetected' as true.`;
 
   try {
-    const response = await freshAi.models.generateContent({
-      model: visionProModelId,
-      contents: { parts: [{ inlineData: { mimeType: "image/jpeg", data: base64Image } }, { text: prompt }] },
-      config: {
-        tools: [{ googleSearch: {} }],
-        thinkingConfig: { thinkingBudget: 32000 }
-      }
-    });
-    
+    const text = await requestAi(
+      (provider, signal) => provider.analyzeImage({ mimeType: "image/jpeg", data: base64Image }, prompt, { grounded: true, signal }),
+      { ...options, timeoutMs: AI_TIMEOUT_MS.vision, totalMs: AI_TOTAL_MS.vision }
+    );
     // Extract JSON from text manually since nano banana models don't support responseSchema/responseMimeType
-    const text = response.text ?? '{}';
-    const jsonStr = cleanJson(text);
-    return JSON.parse(jsonStr) as ScanResult;
+    const parsed = await parseWithRepair(text, t => parseScanResult(t), 'one object with name, expiryDate (YYYY-MM-DD), category, storageLocation (Fridge, Freezer or Pantry), quantity, unit, confidence (0-1), brandInfo, mouldDetected, calories and estimatedPrice', options);
+    if (!parsed.value) throw new AiInvalidOutputError(`Unusable scan result: ${parsed.errors.join(' ')}`, parsed.errors);
+    return parsed.value;
   } catch (error: any) { 
-    console.error("Neural Scanner Failure:", error);
+    if (!(error instanceof AiCancelledError)) console.error("Neural Scanner Failure:", error);
     throw error; 
   }
 };
 
+/**
+ * Every distinct item in a photo of a shelf, bag or counter, each with its
+ * bounding box. No web search: looking up a price per item would not fit the
+ * time limit, and prices can be corrected in the review.
+ */
+export const analyzeShelfImage = async (base64Image: string, options: AiRequestOptions = {}): Promise<ScanResult[]> => {
+  const prompt = `Act as the Fridgeometer Multi-Item Scanner. The photo shows a shelf, shopping bag or counter holding several food items.
+
+  TASKS:
+  1. **INVENTORY**: Find EVERY distinct food item. Identical units of one product (e.g. four pots of the same yoghurt) are ONE entry with a quantity.
+  2. **LOCATION**: Give each item's bounding box as [ymin, xmin, ymax, xmax], scaled 0-1000.
+  3. **MOULD DETECTION**: Check each item's surface for fuzz, spores or slime.
+  4. **LOGISTICS**: Category (Produce, Dairy, Meat, Beverage, Grains, Canned, Snacks, Other), storage location (Fridge, Freezer, Pantry) and a predicted expiry date (YYYY-MM-DD).
+
+  OUTPUT FORMAT: Return a RAW JSON array with one object per item:
+  {
+    "name": string,
+    "expiryDate": string (YYYY-MM-DD),
+    "category": string,
+    "storageLocation": string,
+    "quantity": number,
+    "unit": string,
+    "confidence": number (0-1),
+    "brandInfo": string,
+    "mouldDetected": boolean,
+    "calories": integer,
+    "estimatedPrice": number,
+    "box": [ymin, xmin, ymax, xmax]
+  }`;
+
+  try {
+    const text = await requestAi(
+      (provider, signal) => provider.analyzeImage({ mimeType: "image/jpeg", data: base64Image }, prompt, { signal }),
+      { ...options, timeoutMs: AI_TIMEOUT_MS.vision, totalMs: AI_TOTAL_MS.vision }
+    );
+    const parsed = await parseWithRepair(text, t => parseShelfScan(t), 'an array of items, each with name, expiryDate (YYYY-MM-DD), category, storageLocation (Fridge, Freezer or Pantry), quantity, unit, confidence (0-1), brandInfo, mouldDetected, calories, estimatedPrice and box ([ymin, xmin, ymax, xmax], 0-1000)', options);
+    if (!parsed.value?.length) throw new AiInvalidOutputError('No items found in the photo', parsed.errors);
+    return parsed.value;
+  } catch (error: any) {
+    if (!(error instanceof AiCancelledError)) console.error("Shelf Scanner Failure:", error);
+    throw error;
+  }
+};
+
 /**
  * Generate a vocal status report based on scan results.
  */
-export const speakStatusReport = async (result: ScanResult, isGamified: boolean): Promise<void> => {
-  const freshAi = getAi();
+export const speakStatusReport = async (result: ScanResult, isGamified: boolean, options: AiRequestOptions = {}): Promise<void> => {
   const prompt = isGamified 
     ? `Tell the hero that we found ${result.name}! ${result.mouldDetected ? "Oh no! My magic sees icky mould on this. Please don't eat it!" : "It looks super fresh and magical. Safe to add to the loot chest!"}`
     : `Status report for ${result.name}. Mould detection: ${result.mouldDetected ? "POSITIVE. Surface decay detected. Disposal recommended." : "NEGATIVE. Molecular structure appears intact. Safe for consumption."}`;
 
   try {
-    const response = await freshAi.models.generateContent({
-      model: ttsModelId,
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: isGamified ? 'Kore' : 'Charon' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
+    // Speech is a nicety: one try, and a failure only shows up in the console
+    const audio = await requestAi((provider, signal) => provider.synthesizeSpeech(prompt, isGamified ? 'playful' : 'formal', { signal }), { ...options, retries: 0 });
+    if (audio) {
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       
       const decode = (base64: string) => {
@@ -168,89 +177,71 @@ export const speakStatusReport = async (result: ScanResult, isGamified: boolean)
         return buffer;
       };
 
-      const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtx, 24000, 1);
+      // Raw PCM needs decoding by hand; encoded formats such as WAV the browser handles
+      const bytes = decode(audio.data);
+      const audioBuffer = audio.mimeType.startsWith('audio/pcm')
+        ? await decodeAudioData(bytes, audioCtx, 24000, 1)
+        : await audioCtx.decodeAudioData(bytes.buffer);
       const source = audioCtx.createBufferSource();
       source.buffer = audioBuffer;
       source.connect(audioCtx.destination);
       source.start();
     }
   } catch (e) {
-    console.error("TTS Output Error:", e);
+    if (!(e instanceof AiCancelledError)) console.error("TTS Output Error:", e);
   }
 };
 
-export const generateRecipes = async (items: FoodItem[]): Promise<Recipe[]> => {
-  const freshAi = getAi();
+/** Three recipes from the inventory. Throws an AiError rather than returning none. */
+export const generateRecipes = async (items: FoodItem[], options: AiRequestOptions = {}): Promise<Recipe[]> => {
   const inventoryList = items.map(i => i.name).join(', ');
   const prompt = `Act as the Fridgeometer Culinary Neural Engine. CURRENT ASSETS: ${inventoryList}. 
   Synthesize exactly 3 recipes using 'googleSearch'. Return ONLY a raw JSON array.`;
 
-  try {
-    const response = await freshAi.models.generateContent({
-      model: complexModelId,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              title: { type: Type.STRING },
-              description: { type: Type.STRING },
-              ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
-              steps: { type: Type.ARRAY, items: { type: Type.STRING } },
-              prepTime: { type: Type.STRING },
-              difficulty: { type: Type.STRING, enum: ['Easy', 'Medium', 'Hard'] },
-              caloriesPerServing: { type: Type.INTEGER }
-            },
-            required: ["id", "title", "description", "ingredients", "steps", "prepTime", "difficulty", "caloriesPerServing"]
-          }
-        }
-      }
-    });
-    const text = response.text ?? '[]';
-    return JSON.parse(cleanJson(text)) as Recipe[];
-  } catch (error: any) {
-    return [];
-  }
+  const text = await requestAi((provider, signal) => provider.generateJson(prompt, {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        description: { type: 'string' },
+        ingredients: { type: 'array', items: { type: 'string' } },
+        steps: { type: 'array', items: { type: 'string' } },
+        prepTime: { type: 'string' },
+        difficulty: { type: 'string', enum: ['Easy', 'Medium', 'Hard'] },
+        caloriesPerServing: { type: 'integer' }
+      },
+      required: ["id", "title", "description", "ingredients", "steps", "prepTime", "difficulty", "caloriesPerServing"]
+    }
+  }, { grounded: true, signal }), options);
+  const parsed = await parseWithRepair(text, parseRecipes, 'an array of recipes with id, title, description, ingredients, steps, prepTime, difficulty (Easy, Medium or Hard) and caloriesPerServing', options);
+  if (!parsed.value?.length) throw new AiInvalidOutputError('No usable recipes', parsed.errors);
+  return parsed.value;
 };
 
-export const createChatSession = (lang: string = "English") => {
-  const freshAi = getAi();
-  return freshAi.chats.create({
-    model: complexModelId,
-    config: { systemInstruction: `Fridgeometer Assistant. Language: ${lang}. Futuristic, robotic tone.` }
-  });
+/** A chat whose messages go through the request pipeline, so they time out and retry like any other call. */
+export const createChatSession = async (lang: string = "English"): Promise<AiChat> => {
+  const chat = (await getProvider()).createChat(`Fridgeometer Assistant. Language: ${lang}. Futuristic, robotic tone.`);
+  return { sendMessage: (message, options = {}) => requestAi((_provider, signal) => chat.sendMessage(message, { signal }), options) };
 };
 
-export const generateMealPlan = async (items: FoodItem[]): Promise<MealSuggestion[]> => {
-  const freshAi = getAi();
+export const generateMealPlan = async (items: FoodItem[], options: AiRequestOptions = {}): Promise<MealSuggestion[]> => {
   const prompt = `Items: ${items.map(i => i.name).join(', ')}. Create 3-day meal strategy.`;
-  try {
-    const response = await freshAi.models.generateContent({
-      model: complexModelId,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              day: { type: Type.STRING },
-              breakfast: { type: Type.STRING },
-              lunch: { type: Type.STRING },
-              dinner: { type: Type.STRING },
-              ingredientsUsed: { type: Type.ARRAY, items: { type: Type.STRING } }
-            }
-          }
-        }
+  const text = await requestAi((provider, signal) => provider.generateJson(prompt, {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        day: { type: 'string' },
+        breakfast: { type: 'string' },
+        lunch: { type: 'string' },
+        dinner: { type: 'string' },
+        ingredientsUsed: { type: 'array', items: { type: 'string' } }
       }
-    });
-    const text = response.text ?? '[]';
-    return JSON.parse(cleanJson(text)) as MealSuggestion[];
-  } catch (e) { return []; }
+    }
+  }, { signal }), options);
+  const parsed = await parseWithRepair(text, parseMealPlan, 'an array of days with day, breakfast, lunch, dinner and ingredientsUsed', options);
+  if (!parsed.value?.length) throw new AiInvalidOutputError('No usable meal plan', parsed.errors);
+  return parsed.value;
 };
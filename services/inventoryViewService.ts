@@ -0,0 +1,89 @@
+
+import { FoodItem, ExpiryBand, InventorySort, InventoryViewState, UserLocation, UserCategory } from '../types';
+import { safeStorage, activeKeys } from './storageService';
+import { getEffectiveExpiry, daysUntil, getExpiryBand } from './shelfLifeService';
+import { resolveLocationId } from './locationService';
+import { categoryOptions, categoryValue, inCategory } from './categoryService';
+
+export const EXPIRY_BAND_LABELS: Record<ExpiryBand, string> = {
+  expired: 'Expired',
+  today: 'Today',
+  soon: '1–3 Days',
+  week: 'This Week',
+  fresh: 'Fresh'
+};
+
+export const SORT_LABELS: Record<InventorySort, string> = {
+  expiry: 'Expiry',
+  name: 'Name',
+  value: 'Value',
+  added: 'Newest'
+};
+
+export const DEFAULT_INVENTORY_VIEW: InventoryViewState = {
+  location: 'Fridge',
+  search: '',
+  categories: [],
+  tags: [],
+  bands: [],
+  mouldOnly: false,
+  sort: 'expiry',
+  groupByCategory: false
+};
+
+export const getInventoryViewState = async (): Promise<InventoryViewState> => {
+  const data = await safeStorage.getItem(activeKeys().inventoryView);
+  return { ...DEFAULT_INVENTORY_VIEW, ...(data ? JSON.parse(data) : {}) };
+};
+
+export const saveInventoryViewState = (state: InventoryViewState): Promise<void> =>
+  safeStorage.setItem(activeKeys().inventoryView, JSON.stringify(state));
+
+/** Whether anything beyond the storage location narrows the list. */
+export const isFiltered = (state: InventoryViewState): boolean =>
+  state.search.trim() !== '' || state.categories.length > 0 || state.tags.length > 0 || state.bands.length > 0 || state.mouldOnly;
+
+export const itemValue = (item: FoodItem): number => (item.estimatedPrice || 0) * item.quantity;
+
+// Every word typed has to appear somewhere in the name, brand, notes or tags
+const matchesSearch = (item: FoodItem, search: string) => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = [item.name, item.brandInfo, item.notes, ...(item.tags ?? [])].filter(Boolean).join(' ').toLowerCase();
+  return words.every(w => haystack.includes(w));
+};
+
+const COMPARATORS: Record<InventorySort, (a: FoodItem, b: FoodItem) => number> = {
+  expiry: (a, b) => getEffectiveExpiry(a).date.localeCompare(getEffectiveExpiry(b).date),
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  value: (a, b) => itemValue(b) - itemValue(a),
+  added: (a, b) => b.addedDate.localeCompare(a.addedDate)
+};
+
+export interface InventoryGroup {
+  key: string;
+  label: string | null; // Null when the list is not grouped
+  items: FoodItem[];
+}
+
+/**
+ * Applies the view's location, search and filters, sorts what is left and
+ * splits it into category groups when grouping is on. Groups follow the usual
+ * category order, custom categories after their base, and empty ones are
+ * dropped. Items whose location no longer exists are listed under the first one.
+ */
+export const queryInventory = (items: FoodItem[], state: InventoryViewState, locations: UserLocation[], categories: UserCategory[], now: Date = new Date()): InventoryGroup[] => {
+  const matching = items
+    .filter(i => resolveLocationId(locations, i.storageLocation) === state.location)
+    .filter(i => matchesSearch(i, state.search))
+    .filter(i => state.categories.length === 0 || state.categories.some(c => inCategory(i, c)))
+    .filter(i => state.tags.length === 0 || state.tags.some(t => i.tags?.includes(t)))
+    .filter(i => state.bands.length === 0 || state.bands.includes(getExpiryBand(daysUntil(getEffectiveExpiry(i).date, now))))
+    .filter(i => !state.mouldOnly || i.mouldDetected)
+    .sort(COMPARATORS[state.sort]);
+
+  if (!state.groupByCategory) return matching.length > 0 ? [{ key: 'all', label: null, items: matching }] : [];
+  return categoryOptions(categories)
+    .map(option => ({ key: option.value, label: option.label, items: matching.filter(i => categoryValue(categories, i) === option.value) }))
+    .filter(group => group.items.length > 0);
+};
@@ -0,0 +1,203 @@
+
+import { FoodItem, UserStats, Category, LedgerEvent, LedgerAction, LedgerItemSnapshot } from '../types';
+
+export type ItemAction = 'consumed' | 'tossed' | 'composted';
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+const DEFAULT_UNIT_PRICE = 5.0;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Every number that turns an event into stats lives here. Changing a value and
+ * calling `rebuildStats` re-scores the whole history.
+ */
+export const STAT_FORMULAS = {
+  // CO2 multiplier based on category (rough estimate in kg per dollar)
+  co2PerDollar: {
+    Meat: 2.0, Dairy: 1.2, Produce: 0.5, Beverage: 0.3, Grains: 0.4, Canned: 0.3, Snacks: 0.4, Other: 0.5
+  } as Record<Category, number>,
+  compostValueShare: 0.2, // Composting saves some value (soil nutrients)
+  compostCo2Share: 0.7, // Composting is better than landfill
+  xpPerUnit: { consumed: 50, composted: 30, tossed: -20 },
+  xpMouldBonus: 10, // Extra XP for detecting biohazards early
+  xpPerLevel: 300
+};
+
+const toSnapshot = ({ imageUrl, lots, ...snapshot }: FoodItem): LedgerItemSnapshot => snapshot;
+
+const createEventId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Groups the events of one consume, toss or compost, so it counts once towards the streak. */
+export const createActionId = () => `act-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createLedgerEvent = (action: LedgerAction, item: FoodItem, quantity: number = item.quantity || 1, extra: Pick<LedgerEvent, 'share' | 'actionId'> = {}): LedgerEvent => ({
+  id: createEventId(),
+  action,
+  timestamp: new Date().toISOString(),
+  itemId: item.id,
+  item: toSnapshot(item),
+  quantity,
+  ...extra,
+  value: (item.estimatedPrice || DEFAULT_UNIT_PRICE) * quantity
+});
+
+/**
+ * The part of one whole item that `quantity` of it stands for. An item counts
+ * once however it is used up: a partial use takes its share of what is left,
+ * and the rest later takes the remainder.
+ */
+export const portionShare = (item: FoodItem, quantity: number): number =>
+  (item.portionLeft ?? 1) * Math.min(quantity / (item.quantity || 1), 1);
+
+export const createBaselineEvent = (stats: UserStats): LedgerEvent => ({
+  id: createEventId(),
+  action: 'baseline',
+  timestamp: stats.lastActivityDate || new Date().toISOString(),
+  quantity: 0,
+  value: 0,
+  baseline: stats
+});
+
+export const createVoidEvent = (targetEventId: string): LedgerEvent => ({
+  id: createEventId(),
+  action: 'void',
+  timestamp: new Date().toISOString(),
+  targetEventId,
+  quantity: 0,
+  value: 0
+});
+
+const emptyByCategory = () => CATEGORIES.reduce((acc, cat) => ({ ...acc, [cat]: 0 }), {} as Record<Category, number>);
+
+export const sortEvents = (events: LedgerEvent[]): LedgerEvent[] =>
+  [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id));
+
+/**
+ * Replays the ledger from scratch. Fields that are not driven by item events
+ * (recipes, posts, badges) are carried over from `carried`.
+ */
+export const deriveStats = (events: LedgerEvent[], carried: Pick<UserStats, 'recipesCooked' | 'itemsPosted' | 'unlockedBadges'>): UserStats => {
+  const stats: UserStats = {
+    rescued: 0, wasted: 0, composted: 0, moldDetected: 0,
+    wasteByCategory: emptyByCategory(),
+    rescuedByCategory: emptyByCategory(),
+    moneySaved: 0, co2Saved: 0, streakDays: 0,
+    lastActivityDate: new Date().toISOString(),
+    recipesCooked: carried.recipesCooked,
+    itemsPosted: carried.itemsPosted,
+    xp: 0, level: 1,
+    unlockedBadges: carried.unlockedBadges
+  };
+
+  const voided = new Set(events.filter(e => e.action === 'void' && e.targetEventId).map(e => e.targetEventId));
+  const streakActions = new Set<string>();
+  let lastActivity: string | null = null;
+
+  for (const event of sortEvents(events)) {
+    if (voided.has(event.id)) continue;
+
+    if (event.action === 'baseline' && event.baseline) {
+      const b = event.baseline;
+      stats.rescued += b.rescued || 0;
+      stats.wasted += b.wasted || 0;
+      stats.composted += b.composted || 0;
+      stats.moldDetected += b.moldDetected || 0;
+      stats.moneySaved += b.moneySaved || 0;
+      stats.co2Saved += b.co2Saved || 0;
+      stats.streakDays = b.streakDays || 0;
+      stats.xp += b.xp || 0;
+      CATEGORIES.forEach(cat => {
+        stats.wasteByCategory[cat] += b.wasteByCategory?.[cat] || 0;
+        stats.rescuedByCategory[cat] += b.rescuedByCategory?.[cat] || 0;
+      });
+      lastActivity = event.timestamp;
+      continue;
+    }
+
+    if (!event.item || (event.action !== 'consumed' && event.action !== 'tossed' && event.action !== 'composted')) continue;
+
+    const category = event.item.category;
+    const share = event.share ?? 1;
+    const co2Weight = event.value * (STAT_FORMULAS.co2PerDollar[category] || 0.5);
+    // One action drawing from several lots extends the streak once
+    const newAction = !event.actionId || !streakActions.has(event.actionId);
+    if (event.actionId) streakActions.add(event.actionId);
+
+    if (event.action === 'consumed') {
+      stats.rescued += share;
+      stats.rescuedByCategory[category] = (stats.rescuedByCategory[category] || 0) + share;
+      stats.moneySaved += event.value;
+      stats.co2Saved += co2Weight;
+      stats.xp += STAT_FORMULAS.xpPerUnit.consumed * event.quantity;
+      if (newAction) stats.streakDays += 1;
+    } else if (event.action === 'composted') {
+      stats.composted += share;
+      stats.moneySaved += event.value * STAT_FORMULAS.compostValueShare;
+      stats.co2Saved += co2Weight * STAT_FORMULAS.compostCo2Share;
+      stats.xp += STAT_FORMULAS.xpPerUnit.composted * event.quantity;
+      if (newAction) stats.streakDays += 1;
+    } else {
+      stats.wasted += share;
+      stats.wasteByCategory[category] = (stats.wasteByCategory[category] || 0) + share;
+      stats.co2Saved -= co2Weight;
+      stats.streakDays = 0;
+      stats.xp = Math.max(0, stats.xp + STAT_FORMULAS.xpPerUnit.tossed * event.quantity);
+    }
+
+    if (event.item.mouldDetected) {
+      stats.moldDetected += share;
+      stats.xp += STAT_FORMULAS.xpMouldBonus * share;
+    }
+    lastActivity = event.timestamp;
+  }
+
+  // Shares are fractions; rounding keeps partial + rest equal to whole on screen
+  stats.rescued = round(stats.rescued);
+  stats.wasted = round(stats.wasted);
+  stats.composted = round(stats.composted);
+  stats.moldDetected = round(stats.moldDetected);
+  stats.xp = round(stats.xp);
+  CATEGORIES.forEach(cat => {
+    stats.wasteByCategory[cat] = round(stats.wasteByCategory[cat]);
+    stats.rescuedByCategory[cat] = round(stats.rescuedByCategory[cat]);
+  });
+  stats.level = Math.floor(stats.xp / STAT_FORMULAS.xpPerLevel) + 1;
+  if (lastActivity) stats.lastActivityDate = lastActivity;
+  return stats;
+};
+
+export interface Breakdown {
+  key: string;
+  rescued: number;
+  composted: number;
+  wasted: number;
+  wastedValue: number;
+}
+
+/**
+ * Counts item events per key, for views finer than the stored per-category
+ * stats (custom categories, tags). An item with several keys counts towards
+ * each; one with none is left out. Busiest keys come first.
+ */
+export const deriveBreakdown = (events: LedgerEvent[], keysOf: (item: FoodItem) => string[]): Breakdown[] => {
+  const voided = new Set(events.filter(e => e.action === 'void' && e.targetEventId).map(e => e.targetEventId));
+  const rows = new Map<string, Breakdown>();
+  for (const event of events) {
+    if (voided.has(event.id) || !event.item) continue;
+    if (event.action !== 'consumed' && event.action !== 'tossed' && event.action !== 'composted') continue;
+    const share = event.share ?? 1;
+    for (const key of new Set(keysOf(event.item))) {
+      const row = rows.get(key) ?? { key, rescued: 0, composted: 0, wasted: 0, wastedValue: 0 };
+      if (event.action === 'consumed') row.rescued += share;
+      else if (event.action === 'composted') row.composted += share;
+      else {
+        row.wasted += share;
+        row.wastedValue += event.value;
+      }
+      rows.set(key, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => (b.rescued + b.composted + b.wasted) - (a.rescued + a.composted + a.wasted) || a.key.localeCompare(b.key));
+};
@@ -0,0 +1,84 @@
+
+import { FoodItem, LocationType, StorageLocation, UserLocation } from '../types';
+import { getLocations, saveLocations, getInventory, updateFoodItems, DEFAULT_LOCATIONS } from './storageService';
+import { moveLots } from './lotService';
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  chilled: 'Chilled',
+  frozen: 'Frozen',
+  ambient: 'Room Temperature'
+};
+
+// How the built-in names (which the AI scanner and CSV files use) are stored
+const BUILT_IN_TYPES: Record<string, LocationType> = { fridge: 'chilled', freezer: 'frozen', pantry: 'ambient' };
+
+const createLocationId = () => `loc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+/**
+ * The location an item points at. Items can arrive from another device before
+ * its new location does, so unknown ids get a stand-in typed by their name.
+ */
+export const findLocation = (locations: UserLocation[], id: StorageLocation): UserLocation =>
+  locations.find(l => l.id === id) ?? { id, name: id, type: BUILT_IN_TYPES[normalise(id)] ?? 'chilled' };
+
+/** The id an item is shown under: its own location, or the first one if that is gone. */
+export const resolveLocationId = (locations: UserLocation[], id: StorageLocation): StorageLocation =>
+  locations.some(l => l.id === id) || locations.length === 0 ? id : locations[0].id;
+
+/**
+ * The user's location closest to a suggested one such as the scanner's
+ * "Freezer": the same name, else one of the same type whose name contains it
+ * ("Garage Freezer"), else the first of the same type, else the first.
+ */
+export const matchLocation = (locations: UserLocation[], suggested: string): StorageLocation => {
+  const wanted = normalise(suggested);
+  const byName = locations.find(l => normalise(l.name) === wanted || normalise(l.id) === wanted);
+  if (byName) return byName.id;
+  const type = BUILT_IN_TYPES[wanted] ?? (['chilled', 'frozen', 'ambient'].includes(wanted) ? wanted as LocationType : undefined);
+  const sameType = locations.filter(l => l.type === type);
+  const named = sameType.find(l => normalise(l.name).includes(wanted));
+  return (named ?? sameType[0] ?? locations[0] ?? DEFAULT_LOCATIONS[0]).id;
+};
+
+export const createLocation = async (name: string, type: LocationType): Promise<UserLocation[]> => {
+  const locations = [...await getLocations(), { id: createLocationId(), name: name.trim(), type }];
+  await saveLocations(locations);
+  return locations;
+};
+
+/** Renames or retypes a location. Items keep pointing at it by id. */
+export const updateLocation = async (id: StorageLocation, patch: Partial<Omit<UserLocation, 'id'>>): Promise<UserLocation[]> => {
+  const locations = (await getLocations()).map(l => l.id === id ? { ...l, ...patch, name: (patch.name ?? l.name).trim() } : l);
+  await saveLocations(locations);
+  return locations;
+};
+
+/** Moves a location `offset` places along the tab bar. */
+export const reorderLocation = async (id: StorageLocation, offset: number): Promise<UserLocation[]> => {
+  const locations = [...await getLocations()];
+  const from = locations.findIndex(l => l.id === id);
+  const to = Math.min(Math.max(from + offset, 0), locations.length - 1);
+  if (from === -1 || from === to) return locations;
+  const [moved] = locations.splice(from, 1);
+  locations.splice(to, 0, moved);
+  await saveLocations(locations);
+  return locations;
+};
+
+/**
+ * Deletes a location after moving what is in it to `moveTo`, with expiry dates
+ * recomputed for the move. The last location cannot be deleted.
+ */
+export const deleteLocation = async (id: StorageLocation, moveTo: StorageLocation): Promise<{ locations: UserLocation[], inventory: FoodItem[], moved: number }> => {
+  const locations = await getLocations();
+  const target = locations.find(l => l.id === moveTo);
+  if (locations.length <= 1 || !target || moveTo === id) throw new Error('Choose another location to move its items to.');
+  const from = findLocation(locations, id);
+  const items = (await getInventory()).filter(i => i.storageLocation === id);
+  const inventory = items.length > 0 ? await updateFoodItems(items.map(i => moveLots(i, from, target)), items) : await getInventory();
+  const remaining = locations.filter(l => l.id !== id);
+  await saveLocations(remaining);
+  return { locations: remaining, inventory, moved: items.length };
+};
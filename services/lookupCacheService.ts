@@ -0,0 +1,83 @@
+
+import { LookupCacheEntry, LookupKind, LookupValue } from '../types';
+import { safeStorage, activeKeys } from './storageService';
+import { estimateItemPrice, estimateItemCalories } from './geminiService';
+import { AiRequestOptions } from './aiProviders';
+import { AiAuthError, AiCancelledError } from './aiErrors';
+
+// How long a model estimate is trusted. Prices drift faster than recipes do.
+export const LOOKUP_TTL_DAYS: Record<LookupKind, number> = { price: 30, calories: 180 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ESTIMATORS: Record<LookupKind, (name: string, country: string, options?: AiRequestOptions) => Promise<number>> = {
+  price: estimateItemPrice,
+  calories: estimateItemCalories
+};
+const KINDS = Object.keys(ESTIMATORS) as LookupKind[];
+
+/** "  Whole Milk (2L)! " and "whole milk 2l" share a cache entry. */
+export const normaliseItemName = (name: string): string =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const entryId = (name: string, country: string) => `${country.trim().toLowerCase()}:${normaliseItemName(name)}`;
+
+/** Whether a cached value can be used without asking the model again. */
+export const isFresh = (value: LookupValue | undefined, kind: LookupKind, now: Date = new Date()): value is LookupValue =>
+  !!value && (value.source === 'user' || now.getTime() - new Date(value.updatedAt).getTime() < LOOKUP_TTL_DAYS[kind] * DAY_MS);
+
+export const getLookupEntries = async (): Promise<LookupCacheEntry[]> =>
+  (await safeStorage.getRecords<LookupCacheEntry>(activeKeys().lookupCache)).sort((a, b) => a.name.localeCompare(b.name));
+
+export interface ItemLookup {
+  price: number | null;
+  calories: number | null;
+  cached: boolean; // Nothing had to be asked of the model
+}
+
+/**
+ * Price and calories for an item, from the cache when fresh and from the
+ * model otherwise. `refresh` re-asks the model for every value the user has
+ * not corrected. Failed lookups are not cached, so the next try asks again;
+ * a stale value stands in meanwhile. Throws the AiError only when no value at
+ * all is available, or when retrying cannot help (bad key, cancelled).
+ */
+export const lookupItemData = async (name: string, country: string, options: { refresh?: boolean } & AiRequestOptions = {}, now: Date = new Date()): Promise<ItemLookup> => {
+  const id = entryId(name, country);
+  if (!normaliseItemName(name)) return { price: null, calories: null, cached: true };
+  const key = activeKeys().lookupCache;
+  const entry: LookupCacheEntry = await safeStorage.getRecord<LookupCacheEntry>(key, id) ?? { id, name: name.trim(), country };
+
+  const stale = KINDS.filter(kind => entry[kind]?.source !== 'user' && (options.refresh || !isFresh(entry[kind], kind, now)));
+  const fetched = await Promise.allSettled(stale.map(kind => ESTIMATORS[kind](name, country, { signal: options.signal })));
+  const failures = fetched.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  const fatal = failures.find(error => error instanceof AiCancelledError || error instanceof AiAuthError);
+  if (fatal) throw fatal;
+  stale.forEach((kind, i) => {
+    const result = fetched[i];
+    if (result.status === 'fulfilled') entry[kind] = { value: result.value, source: 'model', updatedAt: now.toISOString() };
+  });
+  if (failures.length < fetched.length) await safeStorage.putRecord(key, entry);
+
+  const lookup = { price: entry.price?.value ?? null, calories: entry.calories?.value ?? null, cached: stale.length === 0 };
+  if (failures.length > 0 && lookup.price === null && lookup.calories === null) throw failures[0];
+  return lookup;
+};
+
+/** Remembers values the user typed over an estimate; they win from now on. */
+export const learnCorrection = async (name: string, country: string, values: Partial<Record<LookupKind, number>>, now: Date = new Date()): Promise<void> => {
+  const id = entryId(name, country);
+  const corrected = KINDS.filter(kind => values[kind] !== undefined && isFinite(values[kind]!) && values[kind]! > 0);
+  if (!normaliseItemName(name) || corrected.length === 0) return;
+  const key = activeKeys().lookupCache;
+  const entry: LookupCacheEntry = await safeStorage.getRecord<LookupCacheEntry>(key, id) ?? { id, name: name.trim(), country };
+  corrected.forEach(kind => { entry[kind] = { value: values[kind]!, source: 'user', updatedAt: now.toISOString() }; });
+  await safeStorage.putRecord(key, entry);
+};
+
+/** Asks the model again for one entry's estimates. Corrections stay. */
+export const refreshLookupEntry = (entry: LookupCacheEntry): Promise<ItemLookup> =>
+  lookupItemData(entry.name, entry.country, { refresh: true });
+
+export const deleteLookupEntry = (id: string): Promise<void> => safeStorage.deleteRecord(activeKeys().lookupCache, id);
+
+export const clearLookupCache = (): Promise<void> => safeStorage.clearCollection(activeKeys().lookupCache);
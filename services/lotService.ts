@@ -0,0 +1,95 @@
+
+import { FoodItem, FoodLot, UserLocation } from '../types';
+import { recomputeExpiryForMove } from './shelfLifeService';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const createLotId = () => `lot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** An item's lots, soonest expiry first. Items without lots are one lot. */
+export const getLots = (item: FoodItem): FoodLot[] => {
+  const lots = item.lots?.length ? item.lots : [{
+    id: item.id,
+    quantity: item.quantity,
+    expiryDate: item.expiryDate,
+    addedDate: item.addedDate,
+    estimatedPrice: item.estimatedPrice
+  }];
+  return [...lots].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.addedDate.localeCompare(b.addedDate));
+};
+
+/**
+ * Stores `lots` on the item and refreshes the summary fields from them. A
+ * single remaining lot folds back into the plain item fields.
+ */
+export const withLots = (item: FoodItem, lots: FoodLot[]): FoodItem => {
+  const kept = lots.filter(l => l.quantity > 0)
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.addedDate.localeCompare(b.addedDate));
+  if (kept.length === 0) return { ...item, quantity: 0, lots: undefined };
+  if (kept.length === 1) {
+    const [lot] = kept;
+    return { ...item, quantity: lot.quantity, expiryDate: lot.expiryDate, addedDate: lot.addedDate, estimatedPrice: lot.estimatedPrice, lots: undefined };
+  }
+  const quantity = round(kept.reduce((sum, l) => sum + l.quantity, 0));
+  const value = kept.reduce((sum, l) => sum + (l.estimatedPrice || 0) * l.quantity, 0);
+  const priced = kept.some(l => l.estimatedPrice !== undefined);
+  return {
+    ...item,
+    quantity,
+    expiryDate: kept[0].expiryDate,
+    addedDate: kept.map(l => l.addedDate).sort()[0],
+    estimatedPrice: priced ? round(value / quantity) : undefined,
+    lots: kept
+  };
+};
+
+/** The item as it was for one lot, so ledger events carry that lot's price and dates. */
+export const lotAsItem = (item: FoodItem, lot: FoodLot): FoodItem =>
+  ({ ...item, quantity: lot.quantity, expiryDate: lot.expiryDate, addedDate: lot.addedDate, estimatedPrice: lot.estimatedPrice, lots: undefined });
+
+export interface LotDraw {
+  lot: FoodLot;
+  quantity: number;
+}
+
+/**
+ * Takes `amount` first-expiry-first-out. Returns what came from each lot and
+ * the item with what is left (quantity 0 once it is used up).
+ */
+export const drawFromLots = (item: FoodItem, amount: number): { draws: LotDraw[], remaining: FoodItem } => {
+  let left = amount;
+  const draws: LotDraw[] = [];
+  const lots = getLots(item).map(lot => {
+    if (left <= 0) return lot;
+    const quantity = round(Math.min(lot.quantity, left));
+    left = round(left - quantity);
+    draws.push({ lot, quantity });
+    return { ...lot, quantity: round(lot.quantity - quantity) };
+  });
+  // The opened pack is the one used first, so emptying a lot reseals what is left
+  const emptied = draws.some(d => d.quantity >= d.lot.quantity);
+  return { draws, remaining: withLots(emptied ? { ...item, openedDate: undefined } : item, lots) };
+};
+
+const sameProduct = (a: FoodItem, b: FoodItem) =>
+  a.name.trim().toLowerCase() === b.name.trim().toLowerCase() &&
+  a.category === b.category && a.customCategory === b.customCategory && a.unit === b.unit && a.storageLocation === b.storageLocation;
+
+/** An existing item a new purchase should join as another lot, if any. */
+export const findLotTarget = (items: FoodItem[], incoming: FoodItem): FoodItem | undefined =>
+  items.find(i => i.id !== incoming.id && !i.mouldDetected && !incoming.mouldDetected && sameProduct(i, incoming));
+
+// Tags are kept from both purchases
+const mergeTags = (a?: string[], b?: string[]) => a || b ? [...new Set([...(a ?? []), ...(b ?? [])])] : undefined;
+
+// A restocked item is whole again, however much of the old stock was used
+export const addLot = (item: FoodItem, incoming: FoodItem): FoodItem => withLots({ ...item, tags: mergeTags(item.tags, incoming.tags), portionLeft: undefined }, [
+  ...getLots(item),
+  { id: createLotId(), quantity: incoming.quantity, expiryDate: incoming.expiryDate, addedDate: incoming.addedDate, estimatedPrice: incoming.estimatedPrice }
+]);
+
+/** Moves every lot, recomputing each one's expiry for the new location. */
+export const moveLots = (item: FoodItem, from: UserLocation, to: UserLocation, today: Date = new Date()): FoodItem => {
+  const lots = getLots(item).map(lot => ({ ...lot, expiryDate: recomputeExpiryForMove(lotAsItem(item, lot), from, to, today).expiryDate }));
+  return withLots({ ...item, storageLocation: to.id }, lots);
+};
@@ -0,0 +1,242 @@
+
+import { Category } from '../types';
+import { safeStorage, STORAGE_KEYS, DEFAULT_SCOPE, getRegistry, profileKeys, householdKeys } from './storageService';
+
+const SCHEMA_VERSION_KEY = 'fridgesmart_schema_version';
+const BACKUP_KEY = 'fridgesmart_migration_backup';
+
+// Data written before the version key existed is treated as version 1.
+const LEGACY_SCHEMA_VERSION = 1;
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+
+/**
+ * A single schema step. Each transform receives a record in the shape of the
+ * previous version and returns it in the shape of `version`. Transforms must be
+ * pure: they run in memory and nothing is persisted until every step succeeds.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  inventory?: (item: any, index: number) => any; // `index` keeps ids minted in one pass distinct
+  stats?: (stats: any) => any;
+  user?: (profile: any) => any;
+  mealPlan?: (plan: any) => any;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  applied: { version: number, description: string }[];
+  changed: { inventory: number, stats: boolean, user: boolean, mealPlan: boolean };
+  backupKey?: string;
+  error?: string;
+}
+
+export interface MigrationBackup {
+  fromVersion: number;
+  createdAt: string;
+  data: Record<string, string | null>;
+  collections: Record<string, any[]>; // Inventory records per household key
+  inventory?: any[]; // Backups taken before households only held the default inventory
+}
+
+const fillCategoryBuckets = (buckets: any): Record<Category, number> =>
+  CATEGORIES.reduce((acc, cat) => ({ ...acc, [cat]: Number(buckets?.[cat]) || 0 }), {} as Record<Category, number>);
+
+/**
+ * Ordered list of schema steps. Append new entries here whenever a persisted
+ * type in `types.ts` changes shape; never edit a step that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Backfill required fields and per-category stat buckets',
+    inventory: (item, index) => ({
+      ...item,
+      id: String(item.id ?? `${Date.now()}-${index}`),
+      quantity: typeof item.quantity === 'number' && item.quantity > 0 ? item.quantity : 1,
+      unit: item.unit || 'pcs',
+      addedDate: item.addedDate || new Date().toISOString(),
+      mouldDetected: Boolean(item.mouldDetected)
+    }),
+    stats: (stats) => ({
+      ...stats,
+      wasteByCategory: fillCategoryBuckets(stats.wasteByCategory),
+      rescuedByCategory: fillCategoryBuckets(stats.rescuedByCategory),
+      unlockedBadges: Array.isArray(stats.unlockedBadges) ? stats.unlockedBadges : []
+    }),
+    user: (profile) => ({
+      ...profile,
+      isGamified: Boolean(profile.isGamified),
+      appScale: profile.appScale || 'medium',
+      highContrast: Boolean(profile.highContrast),
+      theme: profile.theme || 'light',
+      hasSeenOnboarding: Boolean(profile.hasSeenOnboarding)
+    }),
+    mealPlan: (plan) => ({
+      ...plan,
+      suggestions: Array.isArray(plan.suggestions) ? plan.suggestions : []
+    })
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length ? MIGRATIONS[MIGRATIONS.length - 1].version : LEGACY_SCHEMA_VERSION;
+
+export interface EntitySnapshot {
+  inventory: any[];
+  stats: any;
+  user: any;
+  mealPlan: any;
+}
+
+/**
+ * Runs every step newer than `fromVersion` over an in-memory snapshot. Shared by
+ * the startup migration and by imports of backups taken on older versions.
+ */
+export const migrateSnapshot = (snapshot: EntitySnapshot, fromVersion: number): { snapshot: EntitySnapshot, applied: Migration[] } => {
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+  let { inventory, stats, user, mealPlan } = snapshot;
+  for (const step of pending) {
+    if (step.inventory) inventory = inventory.map(step.inventory);
+    if (stats && step.stats) stats = step.stats(stats);
+    if (user && step.user) user = step.user(user);
+    if (mealPlan && step.mealPlan) mealPlan = step.mealPlan(mealPlan);
+  }
+  return { snapshot: { inventory, stats, user, mealPlan }, applied: pending };
+};
+
+type DocumentEntity = 'stats' | 'user' | 'mealPlan';
+
+/** The storage keys one migration pass covers: a profile's or a household's. */
+interface MigrationScope {
+  documents: Partial<Record<DocumentEntity, string>>;
+  inventory?: string;
+}
+
+/**
+ * Every profile and household on the device. The default scopes are always
+ * included so installs without a registry are still migrated.
+ */
+const collectScopes = async (): Promise<MigrationScope[]> => {
+  const registry = await getRegistry();
+  const profileIds = new Set([DEFAULT_SCOPE, ...registry.profiles.map(p => p.id)]);
+  const householdIds = new Set([DEFAULT_SCOPE, ...registry.households.map(h => h.id)]);
+  return [
+    ...[...profileIds].map(id => { const k = profileKeys(id); return { documents: { stats: k.stats, user: k.user } }; }),
+    ...[...householdIds].map(id => { const k = householdKeys(id); return { documents: { mealPlan: k.mealPlan }, inventory: k.inventory }; })
+  ];
+};
+
+export const getSchemaVersion = async (): Promise<number> => {
+  const stored = await safeStorage.getItem(SCHEMA_VERSION_KEY);
+  return stored ? parseInt(stored, 10) || LEGACY_SCHEMA_VERSION : LEGACY_SCHEMA_VERSION;
+};
+
+/**
+ * Brings every persisted entity up to `CURRENT_SCHEMA_VERSION`.
+ * With `dryRun` the steps are evaluated and reported but nothing is written.
+ * Otherwise a snapshot of every entity is saved under `BACKUP_KEY` before the
+ * migrated values replace the originals.
+ */
+export const runMigrations = async (options: { dryRun?: boolean } = {}): Promise<MigrationReport> => {
+  const dryRun = Boolean(options.dryRun);
+  const fromVersion = await getSchemaVersion();
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    dryRun,
+    applied: [],
+    changed: { inventory: 0, stats: false, user: false, mealPlan: false }
+  };
+
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+  if (pending.length === 0) return report;
+
+  try {
+    const scopes = await collectScopes();
+    const raw: Record<string, string | null> = {};
+    const rawCollections: Record<string, any[]> = {};
+    for (const scope of scopes) {
+      for (const k of Object.values(scope.documents)) raw[k!] = await safeStorage.getItem(k!);
+      if (scope.inventory) rawCollections[scope.inventory] = await safeStorage.getRecords<any>(scope.inventory);
+    }
+
+    // Fresh installs have nothing to migrate; just stamp the current version.
+    if (Object.values(rawCollections).every(c => c.length === 0) && Object.values(raw).every(v => v === null)) {
+      report.toVersion = CURRENT_SCHEMA_VERSION;
+      if (!dryRun) await safeStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+      return report;
+    }
+
+    const parse = (k?: string) => k && raw[k] ? JSON.parse(raw[k]!) : null;
+    const next: Record<string, string | null> = {};
+    const changedItems: Record<string, any[]> = {};
+    for (const scope of scopes) {
+      const rawInventory = scope.inventory ? rawCollections[scope.inventory] : [];
+      const { snapshot, applied } = migrateSnapshot({
+        inventory: rawInventory,
+        stats: parse(scope.documents.stats),
+        user: parse(scope.documents.user),
+        mealPlan: parse(scope.documents.mealPlan)
+      }, fromVersion);
+      report.applied = applied.map(m => ({ version: m.version, description: m.description }));
+
+      (Object.keys(scope.documents) as DocumentEntity[]).forEach(entity => {
+        const k = scope.documents[entity]!;
+        next[k] = snapshot[entity] ? JSON.stringify(snapshot[entity]) : null;
+        if (next[k] !== raw[k]) report.changed[entity] = true;
+      });
+      if (scope.inventory) {
+        changedItems[scope.inventory] = snapshot.inventory.filter((item, i) => JSON.stringify(item) !== JSON.stringify(rawInventory[i]));
+        report.changed.inventory += changedItems[scope.inventory].length;
+      }
+    }
+    report.toVersion = pending[pending.length - 1].version;
+
+    if (dryRun) return report;
+
+    const backup: MigrationBackup = { fromVersion, createdAt: new Date().toISOString(), data: raw, collections: rawCollections };
+    await safeStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
+    report.backupKey = BACKUP_KEY;
+
+    for (const [k, v] of Object.entries(next)) {
+      if (v !== null) await safeStorage.setItem(k, v);
+    }
+    for (const [collection, items] of Object.entries(changedItems)) {
+      for (const item of items) await safeStorage.putRecord(collection, item);
+    }
+    await safeStorage.setItem(SCHEMA_VERSION_KEY, String(report.toVersion));
+  } catch (error: any) {
+    console.error("Schema Migration Failure:", error);
+    report.toVersion = fromVersion;
+    report.error = error?.message || String(error);
+  }
+  return report;
+};
+
+export const getMigrationBackup = async (): Promise<MigrationBackup | null> => {
+  const data = await safeStorage.getItem(BACKUP_KEY);
+  return data ? JSON.parse(data) : null;
+};
+
+/**
+ * Restores the snapshot taken before the last migration and rewinds the
+ * schema version so the steps run again on next start.
+ */
+export const restoreMigrationBackup = async (): Promise<boolean> => {
+  const backup = await getMigrationBackup();
+  if (!backup) return false;
+  for (const [k, v] of Object.entries(backup.data)) {
+    if (v === null) await safeStorage.removeItem(k);
+    else await safeStorage.setItem(k, v);
+  }
+  const collections = backup.collections ?? { [STORAGE_KEYS.inventory]: backup.inventory ?? [] };
+  for (const [collection, items] of Object.entries(collections)) {
+    await safeStorage.clearCollection(collection);
+    for (const item of items) await safeStorage.putRecord(collection, item);
+  }
+  await safeStorage.setItem(SCHEMA_VERSION_KEY, String(backup.fromVersion));
+  return true;
+};
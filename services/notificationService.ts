@@ -0,0 +1,330 @@
+
+import { FoodItem, NotificationSettings } from '../types';
+import { safeStorage, activeKeys, getInventory, getLocations } from './storageService';
+import { getEffectiveExpiry, daysUntil, toDateString, addDays, startOfDay } from './shelfLifeService';
+import { findLocation } from './locationService';
+
+const SERVICE_WORKER_URL = './sw.js';
+const CHECK_INTERVAL_MS = 60 * 1000;
+// The 'expired', 'today' (orange) and 'soon' (red) expiry bands
+const DIGEST_MAX_DAYS = 3;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  leadDays: 2,
+  digestEnabled: true,
+  digestTime: '08:00',
+  quietStart: '22:00',
+  quietEnd: '07:00'
+};
+
+/** Settings plus what has already been shown, stored per profile. */
+interface NotificationState {
+  settings: NotificationSettings;
+  sent: Record<string, string>; // `${itemId}:${expiry}` -> date alerted
+  lastDigest: string | null; // Local YYYY-MM-DD of the last digest
+}
+
+export const isSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getPermission = (): NotificationPermission | 'unsupported' => isSupported() ? Notification.permission : 'unsupported';
+
+export const requestPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+  isSupported() ? Notification.requestPermission() : 'unsupported';
+
+const getState = async (): Promise<NotificationState> => {
+  const data = await safeStorage.getItem(activeKeys().notifications);
+  const parsed = data ? JSON.parse(data) : {};
+  return {
+    settings: { ...DEFAULT_NOTIFICATION_SETTINGS, ...parsed.settings },
+    sent: parsed.sent || {},
+    lastDigest: parsed.lastDigest || null
+  };
+};
+
+const saveState = (state: NotificationState): Promise<void> => safeStorage.setItem(activeKeys().notifications, JSON.stringify(state));
+
+export const getNotificationSettings = async (): Promise<NotificationSettings> => (await getState()).settings;
+
+export const saveNotificationSettings = async (settings: NotificationSettings): Promise<void> => {
+  const state = await getState();
+  await saveState({ ...state, settings });
+};
+
+// --- Time helpers (local time) ---
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/** Whether `now` falls in quiet hours; a start after the end wraps past midnight. */
+export const isQuietTime = (settings: NotificationSettings, now: Date = new Date()): boolean => {
+  const start = minutesOf(settings.quietStart);
+  const end = minutesOf(settings.quietEnd);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const describeDays = (days: number) => {
+  if (days < 0) return days === -1 ? 'yesterday' : `${-days} days ago`;
+  return days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+};
+
+// A time of day on the calendar day of `day`
+const atTime = (day: Date, hhmm: string) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutesOf(hhmm));
+
+/** The first moment at or after `at` outside quiet hours. */
+const afterQuietHours = (settings: NotificationSettings, at: Date): Date => {
+  if (!isQuietTime(settings, at)) return at;
+  const end = atTime(at, settings.quietEnd);
+  return end > at ? end : atTime(addDays(at, 1), settings.quietEnd);
+};
+
+// --- Delivery ---
+
+type OpenItemHandler = (itemId: string) => void;
+let openItemHandler: OpenItemHandler | null = null;
+
+interface Alert {
+  key: string; // A `sent` key, or `digest:${date}`
+  title: string;
+  body: string;
+  tag: string;
+  itemId?: string;
+}
+
+/** An alert the service worker shows if no tab is open when it falls due. */
+interface ScheduledAlert extends Alert {
+  at: number;
+  until: number; // Dropped unshown after this, e.g. a digest for a past day
+}
+
+/** What the worker reads on a periodic sync; kept in Cache Storage, which it shares with the page. */
+interface AlertSchedule {
+  scope: string; // The profile's notifications key
+  quietStart: string;
+  quietEnd: string;
+  alerts: ScheduledAlert[];
+}
+
+const DIGEST_KEY_PREFIX = 'digest:';
+
+const show = async ({ title, body, tag, itemId }: Alert): Promise<void> => {
+  const options: NotificationOptions = { body, tag, data: { itemId } };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+    return;
+  }
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    if (itemId && openItemHandler) openItemHandler(itemId);
+    notification.close();
+  };
+};
+
+// --- Background schedule (keep in step with public/sw.js) ---
+
+const SCHEDULE_CACHE = 'fridgesmart-notifications';
+const SCHEDULE_URL = './notification-schedule';
+const SHOWN_URL = './notification-shown';
+const PERIODIC_SYNC_TAG = 'expiry-alerts';
+const PERIODIC_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+const SCHEDULE_DAYS = 7;
+
+// Periodic Background Sync is Chromium-only and missing from the DOM typings
+interface PeriodicSyncManager {
+  register(tag: string, options: { minInterval: number }): Promise<void>;
+  getTags(): Promise<string[]>;
+}
+type PeriodicSyncRegistration = ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager };
+
+const hasCaches = () => typeof caches !== 'undefined';
+
+const writeSchedule = async (schedule: AlertSchedule | null): Promise<void> => {
+  if (!hasCaches()) return;
+  const cache = await caches.open(SCHEDULE_CACHE);
+  if (schedule) await cache.put(SCHEDULE_URL, new Response(JSON.stringify(schedule)));
+  else await cache.delete(SCHEDULE_URL);
+};
+
+/** Keys of alerts the worker showed while no tab was open, for `scope`. Reading clears them. */
+const takeShownKeys = async (scope: string): Promise<string[]> => {
+  if (!hasCaches()) return [];
+  const cache = await caches.open(SCHEDULE_CACHE);
+  const response = await cache.match(SHOWN_URL);
+  if (!response) return [];
+  const shown: { scope: string, keys: string[] } = await response.json();
+  await cache.delete(SHOWN_URL);
+  return shown.scope === scope ? shown.keys : [];
+};
+
+/**
+ * Registers the worker that shows notifications and routes clicks back into
+ * the app, then asks for a periodic sync so alerts can also fire while the
+ * app is closed. Browsers grant that only to installed apps; without it,
+ * alerts need an open tab.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  try {
+    const registration: PeriodicSyncRegistration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    await registration.periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS }).catch(() => undefined);
+  } catch (error) {
+    console.error("Service Worker Registration Failure:", error);
+  }
+};
+
+/** Whether alerts can fire with the app closed, i.e. the periodic sync was granted. */
+export const hasBackgroundAlerts = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+  try {
+    const registration: PeriodicSyncRegistration | undefined = await navigator.serviceWorker.getRegistration();
+    const tags = await registration?.periodicSync?.getTags();
+    return !!tags?.includes(PERIODIC_SYNC_TAG);
+  } catch {
+    return false;
+  }
+};
+
+// --- Checks ---
+
+/** The digest as seen at `at`: everything expired or due within DIGEST_MAX_DAYS, soonest first. */
+const buildDigest = (items: FoodItem[], at: Date): Alert | null => {
+  const urgent = items
+    .map(item => ({ item, days: daysUntil(getEffectiveExpiry(item).date, at) }))
+    .filter(({ days }) => days <= DIGEST_MAX_DAYS)
+    .sort((a, b) => a.days - b.days);
+  if (urgent.length === 0) return null;
+  const lines = urgent.slice(0, 5).map(({ item, days }) => `${item.name} – ${days < 0 ? 'expired ' : ''}${describeDays(days)}`);
+  if (urgent.length > 5) lines.push(`+${urgent.length - 5} more`);
+  return {
+    key: `${DIGEST_KEY_PREFIX}${toDateString(at)}`,
+    title: `${urgent.length} ${urgent.length === 1 ? 'item needs' : 'items need'} attention`,
+    body: lines.join('\n'),
+    tag: 'daily-digest',
+    itemId: urgent[0].item.id
+  };
+};
+
+/**
+ * Shows due alerts and the daily digest, and hands the service worker the
+ * ones due over the next week. Each alert is shown once per item and expiry
+ * date; anything due during quiet hours waits until they end.
+ */
+export const checkNotifications = async (now: Date = new Date()): Promise<void> => {
+  const state = await getState();
+  const { settings } = state;
+  if (getPermission() !== 'granted' || !settings.enabled) {
+    await writeSchedule(null);
+    return;
+  }
+
+  const scope = activeKeys().notifications;
+  const today = toDateString(now);
+  for (const key of await takeShownKeys(scope)) {
+    if (!key.startsWith(DIGEST_KEY_PREFIX)) state.sent[key] = today;
+    else if (key.slice(DIGEST_KEY_PREFIX.length) > (state.lastDigest ?? '')) state.lastDigest = key.slice(DIGEST_KEY_PREFIX.length);
+  }
+
+  const [items, locations] = await Promise.all([getInventory(), getLocations()]);
+  const sentKey = (item: FoodItem) => `${item.id}:${getEffectiveExpiry(item).date}`;
+  const horizon = addDays(startOfDay(now), SCHEDULE_DAYS);
+  const scheduled: ScheduledAlert[] = [];
+
+  // Shown now if due, otherwise left to the worker in case no tab is open then
+  const deliver = async (alert: Alert, dueAt: Date, until: Date): Promise<boolean> => {
+    const at = afterQuietHours(settings, dueAt < now ? now : dueAt);
+    if (at >= until || at >= horizon) return false;
+    if (at > now) {
+      scheduled.push({ ...alert, at: at.getTime(), until: until.getTime() });
+      return false;
+    }
+    await show(alert);
+    return true;
+  };
+
+  for (const item of items) {
+    const expiry = getEffectiveExpiry(item).date;
+    const days = daysUntil(expiry, now);
+    if (days < 0 || state.sent[sentKey(item)]) continue;
+    const dueAt = addDays(startOfDay(now), Math.max(days - settings.leadDays, 0));
+    const alertDays = daysUntil(expiry, afterQuietHours(settings, dueAt < now ? now : dueAt));
+    const alert: Alert = {
+      key: sentKey(item),
+      title: `${item.name} expires ${describeDays(alertDays)}`,
+      body: `${item.quantity} ${item.unit} in the ${findLocation(locations, item.storageLocation).name}.`,
+      tag: `expiry-${item.id}`,
+      itemId: item.id
+    };
+    if (await deliver(alert, dueAt, addDays(startOfDay(now), days + 1))) state.sent[sentKey(item)] = today;
+  }
+
+  if (settings.digestEnabled) {
+    for (let offset = 0; offset < SCHEDULE_DAYS; offset++) {
+      const day = addDays(startOfDay(now), offset);
+      if (offset === 0 && state.lastDigest === today) continue;
+      const dueAt = atTime(day, settings.digestTime);
+      const digest = buildDigest(items, afterQuietHours(settings, dueAt < now ? now : dueAt));
+      // A digest pushed past midnight by quiet hours is skipped; the next day has its own
+      if (digest && await deliver(digest, dueAt, addDays(day, 1))) state.lastDigest = today;
+    }
+  }
+
+  // Forget alerts for items that are gone or have a new date
+  const live = new Set(items.map(sentKey));
+  state.sent = Object.fromEntries(Object.entries(state.sent).filter(([key]) => live.has(key)));
+  await saveState(state);
+  await writeSchedule({ scope, quietStart: settings.quietStart, quietEnd: settings.quietEnd, alerts: scheduled });
+};
+
+const LEADER_LOCK = 'fridgesmart_notifications';
+
+/**
+ * Runs `start` in one tab at a time: the tab holding the lock until it stops
+ * or closes, after which the next waiting tab takes over. Without the Web
+ * Locks API every tab runs it; the shared `sent` state keeps repeats rare.
+ */
+const whileLeader = (start: () => () => void): (() => void) => {
+  if (!navigator.locks) return start();
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+  navigator.locks.request(LEADER_LOCK, { signal: controller.signal }, () => new Promise<void>(resolve => {
+    const stop = start();
+    release = () => {
+      stop();
+      resolve();
+    };
+  })).catch(() => undefined); // Aborted while waiting for the lock
+  return () => {
+    controller.abort();
+    release?.();
+  };
+};
+
+/**
+ * Checks now and every minute while the app is open, in one tab only, and
+ * hands notification clicks (from the worker or a plain Notification) to
+ * `onOpenItem` in whichever tab received them.
+ */
+export const startNotificationScheduler = (onOpenItem: OpenItemHandler): (() => void) => {
+  openItemHandler = onOpenItem;
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'open-item' && event.data.itemId) onOpenItem(event.data.itemId);
+  };
+  if ('serviceWorker' in navigator) navigator.serviceWorker.addEventListener('message', handleMessage);
+  const run = () => checkNotifications().catch(error => console.error("Notification Check Failure:", error));
+  const stopChecks = whileLeader(() => {
+    run();
+    const interval = setInterval(run, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  });
+  return () => {
+    openItemHandler = null;
+    stopChecks();
+    if ('serviceWorker' in navigator) navigator.serviceWorker.removeEventListener('message', handleMessage);
+  };
+};
@@ -0,0 +1,187 @@
+
+import { Category, LocationType, LedgerAction, PersistedEntity } from '../types';
+
+const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
+const LOCATION_TYPES: LocationType[] = ['chilled', 'frozen', 'ambient'];
+const LEDGER_ACTIONS: LedgerAction[] = ['added', 'edited', 'consumed', 'tossed', 'composted', 'baseline', 'void'];
+
+// A check returns a description of what is wrong with a value, or null.
+type Check = (value: unknown) => string | null;
+
+interface Field {
+  check: Check;
+  optional?: boolean;
+}
+
+type Shape = Record<string, Field>;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const text: Check = v => typeof v === 'string' ? null : 'is not text';
+const nonEmpty: Check = v => typeof v === 'string' && v.trim() !== '' ? null : 'is empty';
+const num: Check = v => typeof v === 'number' && isFinite(v) ? null : 'is not a number';
+const nonNegative: Check = v => typeof v === 'number' && isFinite(v) && v >= 0 ? null : 'is not a positive number';
+const bool: Check = v => typeof v === 'boolean' ? null : 'is not true/false';
+const date: Check = v => typeof v === 'string' && !isNaN(Date.parse(v)) ? null : `"${v}" is not a date`;
+const oneOf = (options: readonly string[]): Check => v => options.includes(v as string) ? null : `"${v}" is not one of ${options.join(', ')}`;
+const object: Check = v => isObject(v) ? null : 'is not an object';
+const arrayOf = (item: Check): Check => v => {
+  if (!Array.isArray(v)) return 'is not a list';
+  const bad = v.findIndex(entry => item(entry) !== null);
+  return bad === -1 ? null : `[${bad}] ${item(v[bad])}`;
+};
+const countsByCategory: Check = v => {
+  if (!isObject(v)) return 'is not an object';
+  const bad = CATEGORIES.find(c => num(v[c]) !== null);
+  return bad ? `.${bad} is not a number` : null;
+};
+
+const required = (check: Check): Field => ({ check });
+const optional = (check: Check): Field => ({ check, optional: true });
+
+const FOOD_LOT: Check = v => {
+  if (!isObject(v)) return 'is not an object';
+  if (nonEmpty(v.id)) return '.id is empty';
+  if (nonNegative(v.quantity)) return '.quantity is not a positive number';
+  const badDate = ['expiryDate', 'addedDate'].find(k => date(v[k]));
+  if (badDate) return `.${badDate} ${date(v[badDate])}`;
+  return v.estimatedPrice === undefined || num(v.estimatedPrice) === null ? null : '.estimatedPrice is not a number';
+};
+
+const FOOD_ITEM: Shape = {
+  id: required(nonEmpty),
+  name: required(text),
+  category: required(oneOf(CATEGORIES)),
+  expiryDate: required(date),
+  quantity: required(nonNegative),
+  unit: required(text),
+  storageLocation: required(nonEmpty),
+  addedDate: required(date),
+  openedDate: optional(date),
+  imageUrl: optional(text),
+  notes: optional(text),
+  storageTip: optional(text),
+  brandInfo: optional(text),
+  mouldDetected: optional(bool),
+  calories: optional(num),
+  estimatedPrice: optional(num),
+  portionLeft: optional(nonNegative),
+  lots: optional(arrayOf(FOOD_LOT)),
+  customCategory: optional(nonEmpty),
+  tags: optional(arrayOf(nonEmpty)),
+  barcode: optional(nonEmpty)
+};
+
+const USER_PROFILE: Shape = {
+  name: required(nonEmpty),
+  email: required(text),
+  country: required(text),
+  language: required(text),
+  tempUnit: required(oneOf(['Celsius', 'Fahrenheit'])),
+  distUnit: required(oneOf(['km', 'miles'])),
+  joinedDate: required(date),
+  avatar: optional(text),
+  isGamified: required(bool),
+  appScale: required(oneOf(['small', 'medium', 'large'])),
+  highContrast: required(bool),
+  theme: required(oneOf(['light', 'dark'])),
+  hasSeenOnboarding: required(bool)
+};
+
+const USER_STATS: Shape = {
+  rescued: required(num),
+  wasted: required(num),
+  composted: required(num),
+  moldDetected: required(num),
+  wasteByCategory: required(countsByCategory),
+  rescuedByCategory: required(countsByCategory),
+  moneySaved: required(num),
+  co2Saved: required(num),
+  streakDays: required(num),
+  lastActivityDate: required(date),
+  recipesCooked: required(num),
+  itemsPosted: required(num),
+  xp: required(num),
+  level: required(num),
+  unlockedBadges: required(arrayOf(text))
+};
+
+const MEAL_SUGGESTION: Check = v => {
+  if (!isObject(v)) return 'is not an object';
+  const bad = ['day', 'breakfast', 'lunch', 'dinner'].find(k => typeof v[k] !== 'string');
+  if (bad) return `.${bad} is not text`;
+  return Array.isArray(v.ingredientsUsed) ? null : '.ingredientsUsed is not a list';
+};
+
+const MEAL_PLAN: Shape = {
+  id: required(text),
+  startDate: required(date),
+  suggestions: required(arrayOf(MEAL_SUGGESTION))
+};
+
+const LEDGER_EVENT: Shape = {
+  id: required(nonEmpty),
+  action: required(oneOf(LEDGER_ACTIONS)),
+  timestamp: required(date),
+  itemId: optional(text),
+  item: optional(object),
+  quantity: required(num),
+  share: optional(nonNegative),
+  actionId: optional(text),
+  value: required(num),
+  baseline: optional(object),
+  targetEventId: optional(text)
+};
+
+const USER_LOCATION: Check = v => {
+  if (!isObject(v)) return 'is not an object';
+  if (nonEmpty(v.id)) return '.id is empty';
+  if (nonEmpty(v.name)) return '.name is empty';
+  const badType = oneOf(LOCATION_TYPES)(v.type);
+  return badType ? `.type ${badType}` : null;
+};
+
+const STORAGE_LAYOUT: Shape = {
+  locations: required(arrayOf(USER_LOCATION))
+};
+
+const USER_CATEGORY: Check = v => {
+  if (!isObject(v)) return 'is not an object';
+  if (nonEmpty(v.id)) return '.id is empty';
+  if (nonEmpty(v.name)) return '.name is empty';
+  const badBase = oneOf(CATEGORIES)(v.base);
+  return badBase ? `.base ${badBase}` : null;
+};
+
+const CATEGORY_CATALOG: Shape = {
+  categories: required(arrayOf(USER_CATEGORY))
+};
+
+const SCHEMAS: Record<PersistedEntity, Shape> = {
+  inventory: FOOD_ITEM,
+  user: USER_PROFILE,
+  stats: USER_STATS,
+  mealPlan: MEAL_PLAN,
+  ledger: LEDGER_EVENT,
+  locations: STORAGE_LAYOUT,
+  categories: CATEGORY_CATALOG
+};
+
+/**
+ * Lists everything wrong with `value` as a stored `entity`, one message per
+ * field. An empty list means the value is safe to hand to the UI.
+ */
+export const validateEntity = (entity: PersistedEntity, value: unknown, path: string = entity): string[] => {
+  if (!isObject(value)) return [`${path} is not an object`];
+  const errors: string[] = [];
+  for (const [key, field] of Object.entries(SCHEMAS[entity])) {
+    const fieldValue = value[key];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!field.optional) errors.push(`${path}.${key} is missing`);
+      continue;
+    }
+    const problem = field.check(fieldValue);
+    if (problem) errors.push(`${path}.${key} ${problem}`);
+  }
+  return errors;
+};
@@ -0,0 +1,178 @@
+
+import { Category, LocationType, UserLocation, FoodItem, ExpiryBand } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Typical days a sealed item keeps from purchase, by category and how the
+ * location stores it. Conservative food-safety guidance rather than best-case
+ * figures.
+ */
+export const SHELF_LIFE_DAYS: Record<Category, Record<LocationType, number>> = {
+  Produce:  { chilled: 7,  frozen: 240, ambient: 4 },
+  Dairy:    { chilled: 7,  frozen: 90,  ambient: 1 },
+  Meat:     { chilled: 3,  frozen: 120, ambient: 0 },
+  Beverage: { chilled: 14, frozen: 180, ambient: 180 },
+  Grains:   { chilled: 14, frozen: 180, ambient: 180 },
+  Canned:   { chilled: 4,  frozen: 60,  ambient: 730 },
+  Snacks:   { chilled: 30, frozen: 90,  ambient: 60 },
+  Other:    { chilled: 7,  frozen: 90,  ambient: 30 }
+};
+
+export interface NameRule {
+  label: string;
+  keywords: string[]; // Matched as whole words against the lower-cased item name
+  days: Partial<Record<LocationType, number>>;
+  opened?: number; // Days it keeps once opened, when different from its category
+}
+
+// Items that behave very differently from the rest of their category.
+// Location types left out fall back to the category table.
+export const NAME_RULES: NameRule[] = [
+  { label: 'Fish & seafood', keywords: ['fish', 'salmon', 'tuna', 'cod', 'shrimp', 'prawns', 'seafood'], days: { chilled: 2, frozen: 90 } },
+  { label: 'Minced meat', keywords: ['mince', 'minced', 'ground beef', 'ground pork', 'burger'], days: { chilled: 2, frozen: 90 } },
+  { label: 'Milk', keywords: ['milk'], days: { chilled: 7, frozen: 90 }, opened: 4 },
+  { label: 'Hard cheese', keywords: ['cheddar', 'parmesan', 'gouda', 'emmental'], days: { chilled: 28, frozen: 180 }, opened: 21 },
+  { label: 'Yoghurt', keywords: ['yoghurt', 'yogurt'], days: { chilled: 14, frozen: 60 }, opened: 5 },
+  { label: 'Eggs', keywords: ['egg', 'eggs'], days: { chilled: 28, ambient: 14, frozen: 0 } },
+  { label: 'Bread', keywords: ['bread', 'loaf', 'bagel', 'baguette'], days: { ambient: 4, chilled: 7, frozen: 90 } },
+  { label: 'Berries', keywords: ['berries', 'strawberries', 'raspberries', 'blueberries'], days: { chilled: 4, ambient: 1, frozen: 240 } },
+  { label: 'Leafy greens', keywords: ['lettuce', 'spinach', 'salad', 'rocket', 'kale'], days: { chilled: 5, ambient: 1, frozen: 0 } },
+  { label: 'Root vegetables', keywords: ['potato', 'potatoes', 'onion', 'onions', 'carrot', 'carrots'], days: { chilled: 21, ambient: 30 } },
+  { label: 'Bananas', keywords: ['banana', 'bananas'], days: { ambient: 5, chilled: 7, frozen: 90 } },
+  { label: 'Juice', keywords: ['juice'], days: { chilled: 7, ambient: 180 }, opened: 7 },
+  { label: 'Sauces & condiments', keywords: ['ketchup', 'mayonnaise', 'mayo', 'mustard', 'sauce', 'pesto'], days: {}, opened: 30 }
+];
+
+/** Days an item keeps once opened, regardless of the printed date. */
+export const OPENED_DAYS: Record<Category, number> = {
+  Produce: 3,
+  Dairy: 5,
+  Meat: 2,
+  Beverage: 5,
+  Grains: 30,
+  Canned: 4,
+  Snacks: 14,
+  Other: 7
+};
+
+export interface ShelfLifeRule {
+  days: number; // 0 means the location is unsuitable
+  source: string; // Rule that produced `days`, for explanations
+}
+
+const matchesName = (name: string, rule: NameRule) => {
+  const lower = ` ${name.toLowerCase().replace(/[^a-z ]/g, ' ')} `;
+  return rule.keywords.some(k => lower.includes(` ${k} `));
+};
+
+export const getShelfLifeRule = (name: string, category: Category, type: LocationType): ShelfLifeRule => {
+  const named = NAME_RULES.find(r => matchesName(name, r) && r.days[type] !== undefined);
+  if (named) return { days: named.days[type]!, source: named.label };
+  return { days: (SHELF_LIFE_DAYS[category] ?? SHELF_LIFE_DAYS.Other)[type], source: category };
+};
+
+export const getOpenedRule = (name: string, category: Category): ShelfLifeRule => {
+  const named = NAME_RULES.find(r => matchesName(name, r) && r.opened !== undefined);
+  if (named) return { days: named.opened!, source: named.label };
+  return { days: OPENED_DAYS[category] ?? OPENED_DAYS.Other, source: category };
+};
+
+/** YYYY-MM-DD in local time, the form every stored date takes. */
+export const toDateString = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Calendar days, so a daylight saving change cannot move the result
+export const addDays = (from: Date, days: number) => new Date(from.getFullYear(), from.getMonth(), from.getDate() + days);
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Local midnight of a stored date; `new Date('YYYY-MM-DD')` would read it as UTC
+const parseDate = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const describe = (days: number) => days === 1 ? '1 day' : `${days} days`;
+
+export interface ExpirySuggestion {
+  expiryDate: string;
+  explanation: string;
+}
+
+/** Default expiry for a newly entered item stored at `location` from `from`. */
+export const suggestExpiry = (name: string, category: Category, location: UserLocation, from: Date = new Date()): ExpirySuggestion => {
+  const rule = getShelfLifeRule(name, category, location.type);
+  if (rule.days === 0) {
+    return { expiryDate: toDateString(from), explanation: `${rule.source} should not be kept in the ${location.name}.` };
+  }
+  return {
+    expiryDate: toDateString(addDays(from, rule.days)),
+    explanation: `${rule.source} keeps about ${describe(rule.days)} in the ${location.name}.`
+  };
+};
+
+/**
+ * New expiry for an item moved from `from` to `to`. The share of shelf life it
+ * had left is carried over to the new location's rule, so a chilled item with
+ * half its life left gets half the frozen life. Leaving a freezer restarts the
+ * clock with the destination's full rule, since freezing pauses spoilage.
+ * Moves between locations of the same type keep the date.
+ */
+export const recomputeExpiryForMove = (item: FoodItem, from: UserLocation, to: UserLocation, today: Date = new Date()): ExpirySuggestion => {
+  const now = startOfDay(today);
+  if (from.type === to.type) return { expiryDate: item.expiryDate, explanation: '' };
+
+  const oldRule = getShelfLifeRule(item.name, item.category, from.type);
+  const newRule = getShelfLifeRule(item.name, item.category, to.type);
+  const daysLeft = Math.round((parseDate(item.expiryDate).getTime() - now.getTime()) / DAY_MS);
+
+  if (newRule.days === 0) {
+    return { expiryDate: toDateString(now), explanation: `${newRule.source} should not be kept in the ${to.name}; use it today.` };
+  }
+  if (daysLeft <= 0) {
+    return { expiryDate: item.expiryDate, explanation: `Already at or past its expiry, so moving it to the ${to.name} does not extend it.` };
+  }
+  if (from.type === 'frozen') {
+    return {
+      expiryDate: toDateString(addDays(now, newRule.days)),
+      explanation: `Thawed items start fresh: ${newRule.source} keeps about ${describe(newRule.days)} in the ${to.name}.`
+    };
+  }
+
+  const share = oldRule.days > 0 ? Math.min(daysLeft / oldRule.days, 1) : 1;
+  const newDays = Math.max(1, Math.round(share * newRule.days));
+  return {
+    expiryDate: toDateString(addDays(now, newDays)),
+    explanation: `${newRule.source} keeps about ${describe(oldRule.days)} in the ${from.name} and ${describe(newRule.days)} in the ${to.name}. ` +
+      `It had ${describe(daysLeft)} (${Math.round(share * 100)}%) left, which becomes ${describe(newDays)}.`
+  };
+};
+
+/** Whole days from today until a YYYY-MM-DD date, in local time. */
+export const daysUntil = (date: string, now: Date = new Date()): number => {
+  return Math.round((parseDate(date).getTime() - startOfDay(now).getTime()) / DAY_MS);
+};
+
+export const getExpiryBand = (daysLeft: number): ExpiryBand => {
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft === 0) return 'today';
+  if (daysLeft <= 3) return 'soon';
+  if (daysLeft <= 7) return 'week';
+  return 'fresh';
+};
+
+export interface EffectiveExpiry {
+  date: string;
+  basis: 'printed' | 'opened'; // Which of the two dates is the earlier one
+  openedExpiry: string | null;
+}
+
+/** The date to act on: the printed expiry, or the opened-based one if sooner. */
+export const getEffectiveExpiry = (item: FoodItem): EffectiveExpiry => {
+  if (!item.openedDate) return { date: item.expiryDate, basis: 'printed', openedExpiry: null };
+  const rule = getOpenedRule(item.name, item.category);
+  const openedExpiry = toDateString(addDays(parseDate(item.openedDate), rule.days));
+  return openedExpiry < item.expiryDate
+    ? { date: openedExpiry, basis: 'opened', openedExpiry }
+    : { date: item.expiryDate, basis: 'printed', openedExpiry };
+};
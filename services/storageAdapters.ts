@@ -0,0 +1,200 @@
+
+/**
+ * Pluggable persistence backends. Every adapter exposes the same async surface:
+ * a plain key/value area for small documents (profile, stats, meal plan) and
+ * record collections for large lists (inventory) so that a single item can be
+ * written without re-serialising its neighbours.
+ */
+
+export type RecordIndex = 'expiryDate' | 'storageLocation';
+
+export interface RecordQuery {
+  equals?: string;
+  upTo?: string; // inclusive upper bound, ISO strings compare lexically
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getRecords<T extends { id: string }>(collection: string): Promise<T[]>;
+  getRecord<T extends { id: string }>(collection: string, id: string): Promise<T | null>;
+  queryRecords<T extends { id: string }>(collection: string, index: RecordIndex, query: RecordQuery): Promise<T[]>;
+  putRecord<T extends { id: string }>(collection: string, record: T): Promise<void>;
+  putRecords<T extends { id: string }>(collection: string, records: T[]): Promise<void>; // One write for bulk imports
+  deleteRecord(collection: string, id: string): Promise<void>;
+  clearCollection(collection: string): Promise<void>;
+}
+
+const matchesQuery = (record: any, index: RecordIndex, query: RecordQuery): boolean => {
+  const value = record?.[index];
+  if (typeof value !== 'string') return false;
+  if (query.equals !== undefined && value !== query.equals) return false;
+  if (query.upTo !== undefined && value > query.upTo) return false;
+  return true;
+};
+
+// --- In-memory (tests, private browsing fallback) ---
+export const createMemoryAdapter = (): StorageAdapter => {
+  const kv = new Map<string, string>();
+  const collections = new Map<string, Map<string, any>>();
+  const bucket = (name: string) => {
+    if (!collections.has(name)) collections.set(name, new Map());
+    return collections.get(name)!;
+  };
+
+  return {
+    name: 'memory',
+    getItem: async (key) => kv.has(key) ? kv.get(key)! : null,
+    setItem: async (key, value) => { kv.set(key, value); },
+    removeItem: async (key) => { kv.delete(key); },
+    getRecords: async <T extends { id: string }>(collection: string) =>
+      Array.from(bucket(collection).values()).map(r => structuredClone(r) as T),
+    getRecord: async <T extends { id: string }>(collection: string, id: string) =>
+      bucket(collection).has(id) ? structuredClone(bucket(collection).get(id)) as T : null,
+    queryRecords: async <T extends { id: string }>(collection: string, index: RecordIndex, query: RecordQuery) =>
+      Array.from(bucket(collection).values()).filter(r => matchesQuery(r, index, query)).map(r => structuredClone(r) as T),
+    putRecord: async (collection, record) => { bucket(collection).set(record.id, structuredClone(record)); },
+    putRecords: async (collection, records) => { records.forEach(r => bucket(collection).set(r.id, structuredClone(r))); },
+    deleteRecord: async (collection, id) => { bucket(collection).delete(id); },
+    clearCollection: async (collection) => { collections.delete(collection); }
+  };
+};
+
+// --- localStorage (legacy layout: each collection is one JSON array) ---
+export const createLocalStorageAdapter = (): StorageAdapter => {
+  const read = (collection: string): any[] => {
+    const data = localStorage.getItem(collection);
+    return data ? JSON.parse(data) : [];
+  };
+  const write = (collection: string, records: any[]) => localStorage.setItem(collection, JSON.stringify(records));
+
+  return {
+    name: 'localStorage',
+    getItem: async (key) => localStorage.getItem(key),
+    setItem: async (key, value) => localStorage.setItem(key, value),
+    removeItem: async (key) => localStorage.removeItem(key),
+    getRecords: async (collection) => read(collection),
+    getRecord: async (collection, id) => read(collection).find(r => r.id === id) ?? null,
+    queryRecords: async (collection, index, query) => read(collection).filter(r => matchesQuery(r, index, query)),
+    putRecord: async (collection, record) => {
+      const current = read(collection);
+      const exists = current.some(r => r.id === record.id);
+      write(collection, exists ? current.map(r => r.id === record.id ? record : r) : [record, ...current]);
+    },
+    putRecords: async (collection, records) => {
+      const incoming = new Map(records.map(r => [r.id, r]));
+      const current = read(collection).filter(r => !incoming.has(r.id));
+      write(collection, [...incoming.values(), ...current]);
+    },
+    deleteRecord: async (collection, id) => write(collection, read(collection).filter(r => r.id !== id)),
+    clearCollection: async (collection) => localStorage.removeItem(collection)
+  };
+};
+
+// --- IndexedDB (default in browsers) ---
+const IDB_NAME = 'fridgesmart';
+const IDB_VERSION = 1;
+const KV_STORE = 'kv';
+const RECORD_STORE = 'records';
+
+interface RecordRow {
+  collection: string;
+  id: string;
+  expiryDate?: string;
+  storageLocation?: string;
+  value: any;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+    if (!db.objectStoreNames.contains(RECORD_STORE)) {
+      const records = db.createObjectStore(RECORD_STORE, { keyPath: ['collection', 'id'] });
+      records.createIndex('collection', 'collection');
+      records.createIndex('expiryDate', ['collection', 'expiryDate']);
+      records.createIndex('storageLocation', ['collection', 'storageLocation']);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+});
+
+const toRow = (collection: string, record: any): RecordRow => ({
+  collection,
+  id: record.id,
+  expiryDate: typeof record.expiryDate === 'string' ? record.expiryDate : undefined,
+  storageLocation: typeof record.storageLocation === 'string' ? record.storageLocation : undefined,
+  value: record
+});
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+  const store = (name: string, mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+
+  return {
+    name: 'indexedDB',
+    getItem: async (key) => {
+      const value = await promisify(store(KV_STORE, 'readonly').get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => { await promisify(store(KV_STORE, 'readwrite').put(value, key)); },
+    removeItem: async (key) => { await promisify(store(KV_STORE, 'readwrite').delete(key)); },
+    getRecords: async (collection) => {
+      const rows = await promisify(store(RECORD_STORE, 'readonly').index('collection').getAll(IDBKeyRange.only(collection)));
+      return (rows as RecordRow[]).map(r => r.value);
+    },
+    getRecord: async (collection, id) => {
+      const row = await promisify(store(RECORD_STORE, 'readonly').get([collection, id])) as RecordRow | undefined;
+      return row ? row.value : null;
+    },
+    queryRecords: async (collection, index, query) => {
+      const range = query.equals !== undefined
+        ? IDBKeyRange.only([collection, query.equals])
+        : IDBKeyRange.bound([collection, ''], [collection, query.upTo ?? '\uffff']);
+      const rows = await promisify(store(RECORD_STORE, 'readonly').index(index).getAll(range));
+      return (rows as RecordRow[]).map(r => r.value).filter(r => matchesQuery(r, index, query));
+    },
+    putRecord: async (collection, record) => { await promisify(store(RECORD_STORE, 'readwrite').put(toRow(collection, record))); },
+    putRecords: (collection, records) => new Promise((resolve, reject) => {
+      const tx = db.transaction(RECORD_STORE, 'readwrite');
+      records.forEach(r => tx.objectStore(RECORD_STORE).put(toRow(collection, r)));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    }),
+    deleteRecord: async (collection, id) => { await promisify(store(RECORD_STORE, 'readwrite').delete([collection, id])); },
+    clearCollection: async (collection) => {
+      await promisify(store(RECORD_STORE, 'readwrite').delete(IDBKeyRange.bound([collection, ''], [collection, '\uffff'])));
+    }
+  };
+};
+
+/**
+ * Picks the best backend the browser supports: IndexedDB, then localStorage,
+ * then memory (nothing persists, but the app still runs).
+ */
+export const createDefaultAdapter = async (): Promise<StorageAdapter> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbAdapter();
+    } catch (error) {
+      console.error("IndexedDB Unavailable:", error);
+    }
+  }
+  try {
+    if (typeof localStorage !== 'undefined') return createLocalStorageAdapter();
+  } catch (error) {
+    console.error("localStorage Unavailable:", error);
+  }
+  return createMemoryAdapter();
+};
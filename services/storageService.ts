@@ -1,28 +1,387 @@
 
-import { FoodItem, UserStats, UserProfile, Category, CommunityPost, MealPlan, AppScale, TempUnit, DistUnit, AppTheme } from '../types';
+import { FoodItem, UserStats, UserProfile, Category, CommunityPost, MealPlan, AppScale, TempUnit, DistUnit, AppTheme, StorageLocation, LedgerEvent, DeviceRegistry, LocalProfile, Household, SyncEntity, PersistedEntity, QuarantineEntry, UserLocation, StorageLayout, UserCategory, CategoryCatalog } from '../types';
+import { StorageAdapter, createDefaultAdapter, createMemoryAdapter } from './storageAdapters';
+import { validateEntity } from './schemaService';
+import { ItemAction, createActionId, createLedgerEvent, createBaselineEvent, createVoidEvent, deriveStats, portionShare, sortEvents } from './ledgerService';
+import { findLotTarget, addLot, drawFromLots, getLots, lotAsItem } from './lotService';
 
-const STORAGE_KEY = 'fridgesmart_inventory_v1';
-const STATS_KEY = 'fridgesmart_stats_v1';
-const USER_KEY = 'fridgesmart_user_v1';
-const THEME_KEY = 'fridgesmart_theme_v1';
-const MEAL_PLAN_KEY = 'fridgesmart_mealplan_v1';
+// Key names are frozen: the `_v1` suffix predates schema versioning and shape
+// changes are handled by migrationService instead of new keys.
+export const STORAGE_KEYS = {
+  inventory: 'fridgesmart_inventory_v1',
+  stats: 'fridgesmart_stats_v1',
+  user: 'fridgesmart_user_v1',
+  theme: 'fridgesmart_theme_v1',
+  mealPlan: 'fridgesmart_mealplan_v1',
+  ledger: 'fridgesmart_ledger_v1',
+  sync: 'fridgesmart_sync_v1',
+  syncQueue: 'fridgesmart_syncqueue_v1',
+  quarantine: 'fridgesmart_quarantine_v1',
+  notifications: 'fridgesmart_notifications_v1',
+  calendar: 'fridgesmart_calendar_v1',
+  inventoryView: 'fridgesmart_inventory_view_v1',
+  locations: 'fridgesmart_locations_v1',
+  categories: 'fridgesmart_categories_v1',
+  lookupCache: 'fridgesmart_lookup_cache_v1',
+  catalogue: 'fridgesmart_catalogue_v1'
+} as const;
 
-export const safeStorage = {
-  getItem: (key: string): string | null => localStorage.getItem(key),
-  setItem: (key: string, value: string): void => localStorage.setItem(key, value),
-  removeItem: (key: string): void => localStorage.removeItem(key)
+// Keys that hold a collection of records rather than one value. Every reader
+// of raw keys (the legacy import, for one) decides from this list.
+export const COLLECTION_KEYS: readonly string[] = [
+  STORAGE_KEYS.inventory,
+  STORAGE_KEYS.ledger,
+  STORAGE_KEYS.syncQueue,
+  STORAGE_KEYS.quarantine,
+  STORAGE_KEYS.lookupCache,
+  STORAGE_KEYS.catalogue
+];
+
+const REGISTRY_KEY = 'fridgesmart_registry_v1';
+const LEGACY_KEY_PREFIX = 'fridgesmart_';
+
+// --- Namespacing ---
+// Personal data (profile, stats, ledger, theme) is scoped per profile; food
+// data (inventory, meal plan, locations, categories) per household so several
+// people can share one.
+// The default profile and household keep the original key names, which means
+// single-user installs from before namespacing need no data move.
+export const DEFAULT_SCOPE = 'default';
+
+let activeProfileId: string | null = DEFAULT_SCOPE;
+let activeHouseholdId: string = DEFAULT_SCOPE;
+
+export const scopedKey = (base: string, scopeId: string): string => scopeId === DEFAULT_SCOPE ? base : `${base}@${scopeId}`;
+
+export const profileKeys = (profileId: string) => ({
+  user: scopedKey(STORAGE_KEYS.user, profileId),
+  stats: scopedKey(STORAGE_KEYS.stats, profileId),
+  theme: scopedKey(STORAGE_KEYS.theme, profileId),
+  ledger: scopedKey(STORAGE_KEYS.ledger, profileId),
+  notifications: scopedKey(STORAGE_KEYS.notifications, profileId),
+  calendar: scopedKey(STORAGE_KEYS.calendar, profileId),
+  inventoryView: scopedKey(STORAGE_KEYS.inventoryView, profileId),
+  lookupCache: scopedKey(STORAGE_KEYS.lookupCache, profileId)
+});
+
+export const householdKeys = (householdId: string) => ({
+  inventory: scopedKey(STORAGE_KEYS.inventory, householdId),
+  mealPlan: scopedKey(STORAGE_KEYS.mealPlan, householdId),
+  locations: scopedKey(STORAGE_KEYS.locations, householdId),
+  categories: scopedKey(STORAGE_KEYS.categories, householdId),
+  sync: scopedKey(STORAGE_KEYS.sync, householdId),
+  syncQueue: scopedKey(STORAGE_KEYS.syncQueue, householdId)
+});
+
+export const activeKeys = () => ({ ...profileKeys(activeProfileId ?? DEFAULT_SCOPE), ...householdKeys(activeHouseholdId) });
+export type ScopeKeys = ReturnType<typeof activeKeys>;
+const keys = activeKeys;
+
+export const isCollectionKey = (key: string) => COLLECTION_KEYS.some(base => key === base || key.startsWith(`${base}@`));
+
+let adapter: StorageAdapter = createMemoryAdapter();
+
+// --- Change Feed ---
+// Writes made through the functions below are announced so the sync engine can
+// queue them and other tabs can refresh. Changes pulled from a server are
+// written through `safeStorage` directly and stay silent, which keeps them
+// from echoing back.
+export type ChangeEntity = SyncEntity | 'user';
+
+export interface LocalChange {
+  entity: ChangeEntity;
+  id: string;
+  data: any | null; // null when the record was deleted
+}
+
+type ChangeListener = (change: LocalChange) => void;
+const changeListeners = new Set<ChangeListener>();
+
+export const onLocalChange = (listener: ChangeListener): (() => void) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+};
+
+const announce = (entity: ChangeEntity, id: string, data: any | null) => changeListeners.forEach(l => l({ entity, id, data }));
+
+/** For writers that go to `safeStorage` themselves, like backup imports: reports what they wrote. */
+export const announceChanges = (changes: LocalChange[]): void => changes.forEach(c => announce(c.entity, c.id, c.data));
+
+/**
+ * Delegates to whichever backend `initStorage` selected. Callers never hold a
+ * reference to the adapter itself so it can be swapped (e.g. in tests).
+ */
+export const safeStorage: StorageAdapter = {
+  get name() { return adapter.name; },
+  getItem: (key) => adapter.getItem(key),
+  setItem: (key, value) => adapter.setItem(key, value),
+  removeItem: (key) => adapter.removeItem(key),
+  getRecords: (collection) => adapter.getRecords(collection),
+  getRecord: (collection, id) => adapter.getRecord(collection, id),
+  queryRecords: (collection, index, query) => adapter.queryRecords(collection, index, query),
+  putRecord: (collection, record) => adapter.putRecord(collection, record),
+  putRecords: (collection, records) => adapter.putRecords(collection, records),
+  deleteRecord: (collection, id) => adapter.deleteRecord(collection, id),
+  clearCollection: (collection) => adapter.clearCollection(collection)
+};
+
+/**
+ * Moves everything the app previously kept in localStorage into the selected
+ * backend. The inventory array is split into one record per item; every other
+ * key is copied verbatim. Source keys are removed once copied to free quota.
+ */
+const importLegacyLocalStorage = async (): Promise<void> => {
+  if (adapter.name === 'localStorage' || typeof localStorage === 'undefined') return;
+  const legacyKeys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_KEY_PREFIX));
+  if (legacyKeys.length === 0) return;
+
+  for (const key of legacyKeys) {
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+    if (isCollectionKey(key)) {
+      const records: { id?: string | number }[] = JSON.parse(value);
+      // Old saves may lack ids; a shared "undefined" key would keep only the
+      // last of them, so mint distinct ones the way the v2 migration does
+      for (const [index, record] of records.entries()) {
+        await adapter.putRecord(key, { ...record, id: String(record.id ?? `${Date.now()}-${index}`) });
+      }
+    } else {
+      await adapter.setItem(key, value);
+    }
+  }
+  legacyKeys.forEach(k => localStorage.removeItem(k));
+};
+
+/** Thrown when a write was based on a copy of an item that has since changed, e.g. in another tab. */
+export class ConcurrentWriteError extends Error {
+  constructor(public itemName: string) {
+    super(`${itemName} was changed elsewhere`);
+    this.name = 'ConcurrentWriteError';
+  }
+}
+
+/**
+ * Selects the storage backend and imports any legacy localStorage data.
+ * Must resolve before the first read; pass an adapter to override detection.
+ */
+export const initStorage = async (override?: StorageAdapter): Promise<void> => {
+  adapter = override ?? await createDefaultAdapter();
+  try {
+    await importLegacyLocalStorage();
+  } catch (error) {
+    console.error("Legacy Storage Import Failure:", error);
+  }
+  await loadRegistry();
+};
+
+// --- Profiles & Households ---
+
+const emptyRegistry = (): DeviceRegistry => ({ profiles: [], households: [], activeProfileId: null });
+
+const newScopeId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+
+export const getRegistry = async (): Promise<DeviceRegistry> => {
+  const data = await safeStorage.getItem(REGISTRY_KEY);
+  return data ? JSON.parse(data) : emptyRegistry();
+};
+
+const saveRegistry = (registry: DeviceRegistry): Promise<void> => safeStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+
+const activate = (registry: DeviceRegistry) => {
+  const profile = registry.profiles.find(p => p.id === registry.activeProfileId);
+  activeProfileId = profile ? profile.id : null;
+  activeHouseholdId = profile ? profile.activeHouseholdId : DEFAULT_SCOPE;
+};
+
+/**
+ * Reads the registry and points the key resolver at the active profile. An
+ * install from before profiles existed gets a registry wrapping its data as
+ * the default profile in a default household.
+ */
+const loadRegistry = async (): Promise<void> => {
+  let registry = await getRegistry();
+  if (registry.profiles.length === 0) {
+    const legacy = await safeStorage.getItem(STORAGE_KEYS.user);
+    if (legacy) {
+      const user: UserProfile = JSON.parse(legacy);
+      registry = {
+        profiles: [{ id: DEFAULT_SCOPE, name: user.name, email: user.email, householdIds: [DEFAULT_SCOPE], activeHouseholdId: DEFAULT_SCOPE }],
+        households: [{ id: DEFAULT_SCOPE, name: 'Home', createdDate: user.joinedDate || new Date().toISOString() }],
+        activeProfileId: DEFAULT_SCOPE
+      };
+      await saveRegistry(registry);
+    }
+  }
+  activate(registry);
+};
+
+/** The profile active when called, even if another is switched to before the registry loads. */
+export const getActiveProfile = async (): Promise<LocalProfile | null> => {
+  const id = activeProfileId;
+  return (await getRegistry()).profiles.find(p => p.id === id) ?? null;
+};
+
+export const getActiveHousehold = async (): Promise<Household | null> =>
+  (await getRegistry()).households.find(h => h.id === activeHouseholdId) ?? null;
+
+/**
+ * Signs in to the local profile registered under `data.email`, or creates one
+ * with its own household. The very first profile on a device takes the
+ * default scope so its keys match the pre-profile layout.
+ */
+export const signIn = async (data: { name: string, email: string, country: string, language: string, tempUnit: TempUnit, distUnit: DistUnit }): Promise<UserProfile> => {
+  const registry = await getRegistry();
+  const email = data.email.trim().toLowerCase();
+  let profile = registry.profiles.find(p => p.email.toLowerCase() === email);
+  if (!profile) {
+    const isFirst = registry.profiles.length === 0;
+    const household: Household = { id: isFirst ? DEFAULT_SCOPE : newScopeId(), name: `${data.name}'s Home`, createdDate: new Date().toISOString() };
+    profile = { id: isFirst ? DEFAULT_SCOPE : newScopeId(), name: data.name, email: data.email, householdIds: [household.id], activeHouseholdId: household.id };
+    registry.households.push(household);
+    registry.profiles.push(profile);
+  }
+  registry.activeProfileId = profile.id;
+  await saveRegistry(registry);
+  activate(registry);
+  const saved = await saveUserProfile(data);
+  await updateRegistryProfile(p => ({ ...p, name: saved.name }));
+  return saved;
+};
+
+export const switchProfile = async (profileId: string): Promise<UserProfile | null> => {
+  const registry = await getRegistry();
+  if (!registry.profiles.some(p => p.id === profileId)) return null;
+  registry.activeProfileId = profileId;
+  await saveRegistry(registry);
+  activate(registry);
+  return getUserProfile();
+};
+
+const updateRegistryProfile = async (update: (profile: LocalProfile) => LocalProfile): Promise<DeviceRegistry> => {
+  const registry = await getRegistry();
+  registry.profiles = registry.profiles.map(p => p.id === activeProfileId ? update(p) : p);
+  await saveRegistry(registry);
+  activate(registry);
+  return registry;
+};
+
+export const switchHousehold = async (householdId: string): Promise<void> => {
+  await updateRegistryProfile(p => p.householdIds.includes(householdId) ? { ...p, activeHouseholdId: householdId } : p);
+};
+
+/** Creates a household, joins the active profile to it and switches to it. */
+export const createHousehold = async (name: string): Promise<Household> => {
+  const household: Household = { id: newScopeId(), name: name.trim() || 'New Home', createdDate: new Date().toISOString() };
+  const registry = await getRegistry();
+  registry.households.push(household);
+  await saveRegistry(registry);
+  await updateRegistryProfile(p => ({ ...p, householdIds: [...p.householdIds, household.id], activeHouseholdId: household.id }));
+  return household;
+};
+
+/** Lets another local profile on this device share the active household. */
+export const joinHousehold = async (profileId: string, householdId: string): Promise<void> => {
+  const registry = await getRegistry();
+  registry.profiles = registry.profiles.map(p =>
+    p.id === profileId && !p.householdIds.includes(householdId) ? { ...p, householdIds: [...p.householdIds, householdId] } : p);
+  await saveRegistry(registry);
+};
+
+/** Leaves the app on the profile picker without touching anyone's data. */
+export const signOut = async (): Promise<void> => {
+  const registry = await getRegistry();
+  registry.activeProfileId = null;
+  await saveRegistry(registry);
+  activate(registry);
+};
+
+// --- Quarantine ---
+// Values that fail their schema on read are moved here, raw text and all, so
+// one bad entry cannot crash a view and nothing is lost before a person has
+// looked at it. The collection is device-wide; `source` says where each came from.
+
+const QUARANTINE_KEY = STORAGE_KEYS.quarantine;
+
+const quarantine = async (entity: PersistedEntity, source: string, id: string, raw: string, errors: string[]): Promise<void> => {
+  const entry: QuarantineEntry = { id: `${source}:${id}`, entity, source, raw, errors, quarantinedAt: new Date().toISOString() };
+  await safeStorage.putRecord(QUARANTINE_KEY, entry);
+  console.warn(`Quarantined ${entity} from ${source}:`, errors);
+};
+
+/**
+ * Splits records into valid ones and quarantines (and removes) the rest. The
+ * record is deleted under the key it is stored with, which need not be a
+ * string or exist at all, and one that is already in quarantine is not added
+ * again if it could not be removed.
+ */
+const validRecords = async <T>(entity: PersistedEntity, collection: string, records: any[]): Promise<T[]> => {
+  const valid: T[] = [];
+  for (const [index, record] of records.entries()) {
+    const errors = validateEntity(entity, record);
+    if (errors.length === 0) { valid.push(record); continue; }
+    const raw = JSON.stringify(record);
+    const id = String(record?.id ?? `${Date.now()}-${index}`);
+    const existing = await safeStorage.getRecord<QuarantineEntry>(QUARANTINE_KEY, `${collection}:${id}`);
+    if (existing?.raw !== raw) await quarantine(entity, collection, id, raw, errors);
+    await safeStorage.deleteRecord(collection, record?.id);
+  }
+  return valid;
+};
+
+/** Reads a JSON document, quarantining it if it fails to parse or validate. */
+const readDocument = async <T>(entity: PersistedEntity, key: string, fill: (parsed: any) => any = p => p): Promise<T | null> => {
+  const data = await safeStorage.getItem(key);
+  if (data === null) return null;
+  let value: any;
+  let errors: string[];
+  try {
+    value = fill(JSON.parse(data));
+    errors = validateEntity(entity, value);
+  } catch (error) {
+    errors = [`${entity} is not valid JSON`];
+  }
+  if (errors.length === 0) return value;
+  await quarantine(entity, key, entity, data, errors);
+  await safeStorage.removeItem(key);
+  return null;
+};
+
+export const getQuarantine = async (): Promise<QuarantineEntry[]> =>
+  (await safeStorage.getRecords<QuarantineEntry>(QUARANTINE_KEY)).sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+
+/**
+ * Puts a corrected value back where its entry came from. Returns the schema
+ * errors instead if the value still does not pass.
+ */
+export const restoreQuarantined = async (entryId: string, value: unknown): Promise<string[]> => {
+  const entry = (await getQuarantine()).find(e => e.id === entryId);
+  if (!entry) return ['Entry no longer exists'];
+  const errors = validateEntity(entry.entity, value);
+  if (errors.length) return errors;
+
+  if (entry.entity === 'inventory' || entry.entity === 'ledger') await safeStorage.putRecord(entry.source, value as { id: string });
+  else await safeStorage.setItem(entry.source, JSON.stringify(value));
+  await safeStorage.deleteRecord(QUARANTINE_KEY, entry.id);
+
+  const active = activeKeys();
+  if (entry.source === active[entry.entity]) {
+    announce(entry.entity, entry.entity === 'inventory' || entry.entity === 'ledger' ? (value as { id: string }).id : 'current', value);
+  }
+  return [];
 };
 
-export const getTheme = (): AppTheme => (safeStorage.getItem(THEME_KEY) as AppTheme) || 'light';
-export const setTheme = (theme: AppTheme): void => safeStorage.setItem(THEME_KEY, theme);
+export const discardQuarantined = (entryId: string): Promise<void> => safeStorage.deleteRecord(QUARANTINE_KEY, entryId);
+
+export const getTheme = async (): Promise<AppTheme> => ((await safeStorage.getItem(keys().theme)) as AppTheme) || 'light';
+export const setTheme = (theme: AppTheme): Promise<void> => safeStorage.setItem(keys().theme, theme);
 
-export const getUserProfile = (): UserProfile | null => {
-  const data = safeStorage.getItem(USER_KEY);
-  return data ? JSON.parse(data) : null;
+export const getUserProfile = async (): Promise<UserProfile | null> => {
+  if (!activeProfileId) return null;
+  return readDocument<UserProfile>('user', keys().user);
 };
 
-export const saveUserProfile = (data: { name: string, email: string, country: string, language: string, tempUnit: TempUnit, distUnit: DistUnit }): UserProfile => {
-  const existing = getUserProfile();
+export const saveUserProfile = async (data: { name: string, email: string, country: string, language: string, tempUnit: TempUnit, distUnit: DistUnit }): Promise<UserProfile> => {
+  const existing = await getUserProfile();
   const profile: UserProfile = {
     ...data,
     joinedDate: existing?.joinedDate || new Date().toISOString(),
@@ -32,116 +391,327 @@ export const saveUserProfile = (data: { name: string, email: string, country: st
     theme: existing ? existing.theme : 'light',
     hasSeenOnboarding: existing ? existing.hasSeenOnboarding : false
   };
-  safeStorage.setItem(USER_KEY, JSON.stringify(profile));
+  await safeStorage.setItem(keys().user, JSON.stringify(profile));
+  announce('user', 'current', profile);
   return profile;
 };
 
-export const updateProfile = (updates: Partial<UserProfile>): UserProfile | null => {
-  const existing = getUserProfile();
+export const updateProfile = async (updates: Partial<UserProfile>): Promise<UserProfile | null> => {
+  const existing = await getUserProfile();
   if (!existing) return null;
   const updated = { ...existing, ...updates };
-  safeStorage.setItem(USER_KEY, JSON.stringify(updated));
-  if (updates.theme) setTheme(updates.theme);
+  await safeStorage.setItem(keys().user, JSON.stringify(updated));
+  announce('user', 'current', updated);
+  if (updates.theme) await setTheme(updates.theme);
   return updated;
 };
 
-export const clearUserProfile = (): void => {
-  [USER_KEY, STORAGE_KEY, STATS_KEY, MEAL_PLAN_KEY, THEME_KEY].forEach(k => safeStorage.removeItem(k));
+/**
+ * Deletes the active profile and its personal data. Households are only
+ * wiped once no remaining profile belongs to them.
+ */
+export const clearUserProfile = async (): Promise<void> => {
+  const registry = await getRegistry();
+  const profileId = activeProfileId ?? DEFAULT_SCOPE;
+  const personal = profileKeys(profileId);
+  await Promise.all([personal.user, personal.stats, personal.theme, personal.notifications, personal.calendar, personal.inventoryView].map(k => safeStorage.removeItem(k)));
+  await safeStorage.clearCollection(personal.ledger);
+  await safeStorage.clearCollection(personal.lookupCache);
+
+  const leaving = registry.profiles.find(p => p.id === profileId);
+  registry.profiles = registry.profiles.filter(p => p.id !== profileId);
+  const orphaned = (leaving?.householdIds ?? [activeHouseholdId]).filter(h => !registry.profiles.some(p => p.householdIds.includes(h)));
+  for (const householdId of orphaned) {
+    const shared = householdKeys(householdId);
+    await safeStorage.removeItem(shared.mealPlan);
+    await safeStorage.removeItem(shared.locations);
+    await safeStorage.removeItem(shared.categories);
+    await safeStorage.removeItem(shared.sync);
+    await safeStorage.clearCollection(shared.inventory);
+    await safeStorage.clearCollection(shared.syncQueue);
+  }
+  registry.households = registry.households.filter(h => !orphaned.includes(h.id));
+  registry.activeProfileId = null;
+  await saveRegistry(registry);
+  activate(registry);
 };
 
-export const getInventory = (): FoodItem[] => {
-  const data = safeStorage.getItem(STORAGE_KEY);
-  return data ? JSON.parse(data) : [];
+// Newest first, matching the order items were historically prepended in.
+const byNewest = (a: FoodItem, b: FoodItem) => (b.addedDate || '').localeCompare(a.addedDate || '') || b.id.localeCompare(a.id);
+
+export const getInventory = async (): Promise<FoodItem[]> => {
+  const items = await validRecords<FoodItem>('inventory', keys().inventory, await safeStorage.getRecords(keys().inventory));
+  return items.sort(byNewest);
 };
 
-export const addFoodItem = (item: FoodItem): FoodItem[] => {
-  const current = getInventory();
-  const updated = [item, ...current];
-  safeStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  return updated;
+export const getInventoryByLocation = async (location: StorageLocation): Promise<FoodItem[]> => {
+  const items = await validRecords<FoodItem>('inventory', keys().inventory, await safeStorage.queryRecords(keys().inventory, 'storageLocation', { equals: location }));
+  return items.sort(byNewest);
 };
 
-export const updateFoodItem = (updatedItem: FoodItem): FoodItem[] => {
-  const current = getInventory();
-  const updated = current.map(item => item.id === updatedItem.id ? updatedItem : item);
-  safeStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  return updated;
+/** Items whose expiryDate (YYYY-MM-DD) is on or before `date`. */
+export const getItemsExpiringBy = async (date: string): Promise<FoodItem[]> => {
+  const items = await validRecords<FoodItem>('inventory', keys().inventory, await safeStorage.queryRecords(keys().inventory, 'expiryDate', { upTo: date }));
+  return items.sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
 };
 
-export const removeFoodItem = (id: string): FoodItem[] => {
-  const current = getInventory();
-  const updated = current.filter(item => item.id !== id);
-  safeStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  return updated;
+/**
+ * Adds a purchase. Buying more of something already on the same shelf adds a
+ * lot to that item instead of a second card.
+ */
+export const addFoodItem = async (item: FoodItem): Promise<FoodItem[]> => {
+  const target = findLotTarget(await getInventory(), item);
+  const stored = target ? addLot(target, item) : item;
+  await safeStorage.putRecord(keys().inventory, stored);
+  announce('inventory', stored.id, stored);
+  await appendLedgerEvent(createLedgerEvent('added', { ...item, id: stored.id }));
+  return getInventory();
+};
+
+/**
+ * Adds several purchases, e.g. a shelf scan, each joining a lot on the same
+ * shelf as addFoodItem would. The ledger and the inventory are each written
+ * in one call, ledger first: if either fails the inventory is as it was and
+ * the whole batch can be tried again.
+ */
+export const addFoodItemsJoiningLots = async (items: FoodItem[]): Promise<FoodItem[]> => {
+  const shelf = await getInventory();
+  const stored = new Map<string, FoodItem>();
+  const events: LedgerEvent[] = [];
+  for (const item of items) {
+    const target = findLotTarget([...shelf.filter(i => !stored.has(i.id)), ...stored.values()], item);
+    const next = target ? addLot(target, item) : item;
+    stored.set(next.id, next);
+    events.push(createLedgerEvent('added', { ...item, id: next.id }));
+  }
+  await ensureLedgerBaseline();
+  await safeStorage.putRecords(keys().ledger, events);
+  await safeStorage.putRecords(keys().inventory, [...stored.values()]);
+  events.forEach(event => announce('ledger', event.id, event));
+  stored.forEach(item => announce('inventory', item.id, item));
+  return getInventory();
+};
+
+/**
+ * Bulk insert used by imports; one inventory read and one stats rebuild at the
+ * end instead of per item.
+ */
+export const addFoodItems = async (items: FoodItem[]): Promise<FoodItem[]> => {
+  for (const item of items) {
+    await safeStorage.putRecord(keys().inventory, item);
+    announce('inventory', item.id, item);
+    await appendLedgerEvent(createLedgerEvent('added', item));
+  }
+  await rebuildStats();
+  return getInventory();
+};
+
+/**
+ * Rejects the write if the stored item no longer matches `base`, the copy the
+ * caller started from, instead of silently overwriting someone else's change.
+ */
+const assertUnchanged = async (base: FoodItem): Promise<void> => {
+  const stored = (await safeStorage.getRecords<FoodItem>(keys().inventory)).find(i => i.id === base.id);
+  if (!stored || JSON.stringify(stored) !== JSON.stringify(base)) throw new ConcurrentWriteError(base.name);
+};
+
+export const updateFoodItem = async (updatedItem: FoodItem, base?: FoodItem): Promise<FoodItem[]> => {
+  if (base) await assertUnchanged(base);
+  await safeStorage.putRecord(keys().inventory, updatedItem);
+  announce('inventory', updatedItem.id, updatedItem);
+  await appendLedgerEvent(createLedgerEvent('edited', updatedItem));
+  return getInventory();
+};
+
+export const removeFoodItem = async (id: string): Promise<FoodItem[]> => {
+  await safeStorage.deleteRecord(keys().inventory, id);
+  announce('inventory', id, null);
+  return getInventory();
+};
+
+// Bulk edits check every item before writing any, so a conflict on one of
+// them leaves the whole selection untouched.
+
+/** Saves several edited items; `bases` are the copies the edits started from. */
+export const updateFoodItems = async (updated: FoodItem[], bases: FoodItem[]): Promise<FoodItem[]> => {
+  for (const base of bases) await assertUnchanged(base);
+  for (const item of updated) {
+    await safeStorage.putRecord(keys().inventory, item);
+    announce('inventory', item.id, item);
+    await appendLedgerEvent(createLedgerEvent('edited', item));
+  }
+  return getInventory();
+};
+
+export const removeFoodItems = async (items: FoodItem[]): Promise<FoodItem[]> => {
+  for (const item of items) await assertUnchanged(item);
+  for (const item of items) {
+    await safeStorage.deleteRecord(keys().inventory, item.id);
+    announce('inventory', item.id, null);
+  }
+  return getInventory();
 };
 
 const CATEGORIES: Category[] = ['Produce', 'Dairy', 'Meat', 'Beverage', 'Grains', 'Canned', 'Snacks', 'Other'];
 
-export const getStats = (): UserStats => {
-  const data = safeStorage.getItem(STATS_KEY);
+export const getDefaultStats = (): UserStats => {
   const emptyByCategory = CATEGORIES.reduce((acc, cat) => ({ ...acc, [cat]: 0 }), {} as Record<Category, number>);
-  const defaults: UserStats = { 
+  return {
     rescued: 0, wasted: 0, composted: 0, moldDetected: 0,
     wasteByCategory: { ...emptyByCategory },
     rescuedByCategory: { ...emptyByCategory },
-    moneySaved: 0, co2Saved: 0, streakDays: 0, 
-    lastActivityDate: new Date().toISOString(), recipesCooked: 0, itemsPosted: 0, xp: 0, level: 1, 
+    moneySaved: 0, co2Saved: 0, streakDays: 0,
+    lastActivityDate: new Date().toISOString(), recipesCooked: 0, itemsPosted: 0, xp: 0, level: 1,
     unlockedBadges: []
   };
-  if (!data) return defaults;
-  const parsed = JSON.parse(data);
-  return { ...defaults, ...parsed };
-};
-
-export const updateStatsForAction = (item: FoodItem, action: 'consumed' | 'tossed' | 'composted'): UserStats => {
-  const current = getStats();
-  const quantity = item.quantity || 1;
-  const unitPrice = item.estimatedPrice || 5.0;
-  const totalValue = unitPrice * quantity;
-  
-  // CO2 multiplier based on category (rough estimate in kg per dollar)
-  const co2Multipliers: Record<Category, number> = {
-    Meat: 2.0, Dairy: 1.2, Produce: 0.5, Beverage: 0.3, Grains: 0.4, Canned: 0.3, Snacks: 0.4, Other: 0.5
-  };
-  const co2Weight = totalValue * (co2Multipliers[item.category] || 0.5);
-
-  if (action === 'consumed') {
-    current.rescued += 1;
-    current.rescuedByCategory[item.category] = (current.rescuedByCategory[item.category] || 0) + 1;
-    current.moneySaved += totalValue;
-    current.co2Saved += co2Weight;
-    current.xp += 50 * quantity;
-    current.streakDays += 1;
-  } else if (action === 'composted') {
-    current.composted += 1;
-    current.moneySaved += totalValue * 0.2; // Composting saves some value (soil nutrients)
-    current.co2Saved += co2Weight * 0.7; // Composting is better than landfill
-    current.xp += 30 * quantity;
-    current.streakDays += 1;
-  } else {
-    current.wasted += 1;
-    current.wasteByCategory[item.category] = (current.wasteByCategory[item.category] || 0) + 1;
-    current.co2Saved -= co2Weight;
-    current.streakDays = 0;
-    current.xp = Math.max(0, current.xp - 20 * quantity);
+};
+
+export const getStats = async (scope: ScopeKeys = keys()): Promise<UserStats> => {
+  const defaults = getDefaultStats();
+  // Fields added since the stats were written fall back to their defaults
+  return (await readDocument<UserStats>('stats', scope.stats, parsed => ({ ...defaults, ...parsed }))) ?? defaults;
+};
+
+// --- Ledger ---
+// Append-only history of item events. UserStats is a cache derived from it.
+
+export const getLedger = async (scope: ScopeKeys = keys()): Promise<LedgerEvent[]> =>
+  sortEvents(await validRecords<LedgerEvent>('ledger', scope.ledger, await safeStorage.getRecords(scope.ledger)));
+
+/**
+ * Counters recorded before the ledger existed have no events behind them, so
+ * the first write carries them over as an opening 'baseline' entry.
+ */
+export const ensureLedgerBaseline = async (): Promise<void> => {
+  const existing = await safeStorage.getRecords<LedgerEvent>(keys().ledger);
+  if (existing.length > 0) return;
+  const stored = await getStats();
+  if (stored.rescued || stored.wasted || stored.composted || stored.xp || stored.moldDetected) {
+    const baseline = createBaselineEvent(stored);
+    await safeStorage.putRecord(keys().ledger, baseline);
+    announce('ledger', baseline.id, baseline);
   }
+};
+
+const appendLedgerEvent = async (event: LedgerEvent): Promise<void> => {
+  await ensureLedgerBaseline();
+  await safeStorage.putRecord(keys().ledger, event);
+  announce('ledger', event.id, event);
+};
+
+/**
+ * Recomputes UserStats from the full ledger and stores the result. `scope`
+ * pins the keys for callers that started before a profile switch.
+ */
+export const rebuildStats = async (scope: ScopeKeys = keys()): Promise<UserStats> => {
+  const current = await getStats(scope);
+  const events = await getLedger(scope);
+  if (events.length === 0) return current;
+  const derived = deriveStats(events, current);
+  // Without consume/toss/compost events the activity date defaults to now, which alone is no change
+  if (JSON.stringify({ ...derived, lastActivityDate: current.lastActivityDate }) === JSON.stringify(current)) return current;
+  await safeStorage.setItem(scope.stats, JSON.stringify(derived));
+  // The change feed speaks for the active profile only
+  if (scope.stats === keys().stats) announce('stats', 'current', derived);
+  return derived;
+};
+
+/** Cancels a recorded event without rewriting history, then re-derives stats. */
+export const voidLedgerEvent = async (eventId: string): Promise<UserStats> => {
+  await appendLedgerEvent(createVoidEvent(eventId));
+  return rebuildStats();
+};
 
-  if (item.mouldDetected) {
-    current.moldDetected += 1;
-    current.xp += 10; // Extra XP for detecting biohazards early
+export const updateStatsForAction = async (item: FoodItem, action: ItemAction, quantity: number = item.quantity || 1): Promise<UserStats> => {
+  await appendLedgerEvent(createLedgerEvent(action, item, quantity));
+  return rebuildStats();
+};
+
+/**
+ * Consumes, tosses or composts `amount` of an item (in its own unit), taking
+ * from the soonest-expiring lot first. Each lot drawn from gets its own ledger
+ * event at its own price and its share of the item; the item stays in the
+ * inventory with whatever quantity remains and is only removed once nothing
+ * is left.
+ */
+export const applyItemAction = async (item: FoodItem, action: ItemAction, amount?: number): Promise<{ inventory: FoodItem[], stats: UserStats, used: number, remaining: number }> => {
+  const available = item.quantity || 1;
+  const used = Math.min(Math.max(amount ?? available, 0), available);
+  const remaining = Math.round((available - used) * 100) / 100;
+
+  await assertUnchanged(item);
+  const whole = { ...item, quantity: available };
+  const { draws, remaining: drawn } = drawFromLots(whole, used);
+  const actionId = createActionId();
+  for (const draw of draws) {
+    await appendLedgerEvent(createLedgerEvent(action, lotAsItem(item, draw.lot), draw.quantity, { share: portionShare(whole, draw.quantity), actionId }));
+  }
+  const stats = await rebuildStats();
+  if (remaining > 0) {
+    const rest = { ...drawn, portionLeft: portionShare(whole, remaining) };
+    await safeStorage.putRecord(keys().inventory, rest);
+    announce('inventory', item.id, rest);
+  } else {
+    await safeStorage.deleteRecord(keys().inventory, item.id);
+    announce('inventory', item.id, null);
   }
+  return { inventory: await getInventory(), stats, used, remaining };
+};
 
-  current.level = Math.floor(current.xp / 300) + 1;
-  current.lastActivityDate = new Date().toISOString();
-  safeStorage.setItem(STATS_KEY, JSON.stringify(current));
-  return current;
+/**
+ * Consumes, tosses or composts all of each item. Every item gets one event per
+ * lot, sharing an action id and splitting the item between them, so each item
+ * counts once; stats are derived once for the whole batch.
+ */
+export const applyBulkAction = async (items: FoodItem[], action: ItemAction): Promise<{ inventory: FoodItem[], stats: UserStats }> => {
+  for (const item of items) await assertUnchanged(item);
+  for (const item of items) {
+    const whole = { ...item, quantity: item.quantity || 1 };
+    const actionId = createActionId();
+    for (const lot of getLots(item)) {
+      await appendLedgerEvent(createLedgerEvent(action, lotAsItem(item, lot), lot.quantity || 1, { share: portionShare(whole, lot.quantity || 1), actionId }));
+    }
+    await safeStorage.deleteRecord(keys().inventory, item.id);
+    announce('inventory', item.id, null);
+  }
+  return { inventory: await getInventory(), stats: await rebuildStats() };
 };
 
 export const getCommunityPosts = (): CommunityPost[] => [];
-export const getMealPlan = (): MealPlan | null => {
-  const data = safeStorage.getItem(MEAL_PLAN_KEY);
-  return data ? JSON.parse(data) : null;
+export const getMealPlan = (scope: ScopeKeys = keys()): Promise<MealPlan | null> => readDocument<MealPlan>('mealPlan', scope.mealPlan);
+export const saveMealPlan = async (plan: MealPlan): Promise<void> => {
+  await safeStorage.setItem(keys().mealPlan, JSON.stringify(plan));
+  announce('mealPlan', 'current', plan);
+};
+
+// --- Storage Locations ---
+
+export const DEFAULT_LOCATIONS: UserLocation[] = [
+  { id: 'Fridge', name: 'Fridge', type: 'chilled' },
+  { id: 'Freezer', name: 'Freezer', type: 'frozen' },
+  { id: 'Pantry', name: 'Pantry', type: 'ambient' }
+];
+
+/** The household's locations in tab order; the built-in three until edited. */
+export const getLocations = async (): Promise<UserLocation[]> => {
+  const layout = await readDocument<StorageLayout>('locations', keys().locations);
+  return layout?.locations.length ? layout.locations : DEFAULT_LOCATIONS;
+};
+
+export const saveLocations = async (locations: UserLocation[]): Promise<void> => {
+  const layout: StorageLayout = { locations };
+  await safeStorage.setItem(keys().locations, JSON.stringify(layout));
+  announce('locations', 'current', layout);
 };
-export const saveMealPlan = (plan: MealPlan): void => {
-  safeStorage.setItem(MEAL_PLAN_KEY, JSON.stringify(plan));
+
+// --- Custom Categories ---
+
+/** The household's own categories, in the order they were created. */
+export const getCategories = async (): Promise<UserCategory[]> =>
+  (await readDocument<CategoryCatalog>('categories', keys().categories))?.categories ?? [];
+
+export const saveCategories = async (categories: UserCategory[]): Promise<void> => {
+  const catalog: CategoryCatalog = { categories };
+  await safeStorage.setItem(keys().categories, JSON.stringify(catalog));
+  announce('categories', 'current', catalog);
 };
@@ -0,0 +1,330 @@
+
+import { SyncChange, SyncConfig, SyncEntity, SyncStatus, FoodItem, LedgerEvent } from '../types';
+import { safeStorage, activeKeys, ScopeKeys, onLocalChange, LocalChange, getActiveProfile, getStats, getMealPlan, getLedger, rebuildStats } from './storageService';
+
+const DEVICE_ID_KEY = 'fridgesmart_device_id';
+const PUSH_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 60000;
+// Pushes are split to stay well under the reference server's 5 MB body limit
+const MAX_BATCH_CHANGES = 200;
+const MAX_BATCH_BYTES = 1024 * 1024;
+
+// Stats and ledger events belong to a person, not the household. Their ids are
+// prefixed with the owner's email on the wire and other owners' copies ignored.
+const PERSONAL_ENTITIES: SyncEntity[] = ['stats', 'ledger'];
+
+/** Per-household sync bookkeeping, stored under `householdKeys().sync`. */
+interface SyncState {
+  config: SyncConfig;
+  cursor: number; // Highest server `seq` already pulled
+  revs: Record<string, number>; // Last known revision per `${entity}:${id}`
+  lastSyncedAt: string | null;
+}
+
+interface QueuedChange {
+  id: string; // `${entity}:${id}`, so repeated writes to one record collapse
+  change: SyncChange;
+}
+
+interface SyncResponse {
+  cursor: number;
+  changes: SyncChange[];
+  rejected: SyncChange[]; // Server's winning versions of pushed changes that lost
+}
+
+const defaultState = (): SyncState => ({
+  config: { enabled: false, endpoint: 'http://localhost:8787', space: '' },
+  cursor: 0,
+  revs: {},
+  lastSyncedAt: null
+});
+
+const recordKey = (entity: SyncEntity, id: string) => `${entity}:${id}`;
+
+// --- Status ---
+
+let status: SyncStatus = 'disabled';
+let lastError: string | null = null;
+const statusListeners = new Set<(status: SyncStatus, error: string | null) => void>();
+const remoteListeners = new Set<() => void>();
+
+const setStatus = (next: SyncStatus, error: string | null = null) => {
+  status = next;
+  lastError = error;
+  statusListeners.forEach(l => l(status, lastError));
+};
+
+/** Calls `listener` now and on every status change. Returns an unsubscribe function. */
+export const subscribeSyncStatus = (listener: (status: SyncStatus, error: string | null) => void): (() => void) => {
+  statusListeners.add(listener);
+  listener(status, lastError);
+  return () => { statusListeners.delete(listener); };
+};
+
+/** Fires after pulled changes were written locally, so views can reload. */
+export const onRemoteChanges = (listener: () => void): (() => void) => {
+  remoteListeners.add(listener);
+  return () => { remoteListeners.delete(listener); };
+};
+
+// --- Persistence ---
+
+export const getDeviceId = async (): Promise<string> => {
+  const existing = await safeStorage.getItem(DEVICE_ID_KEY);
+  if (existing) return existing;
+  const id = `device-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  await safeStorage.setItem(DEVICE_ID_KEY, id);
+  return id;
+};
+
+const getSyncState = async (keys: ScopeKeys = activeKeys()): Promise<SyncState> => {
+  const data = await safeStorage.getItem(keys.sync);
+  return data ? { ...defaultState(), ...JSON.parse(data) } : defaultState();
+};
+
+const saveSyncState = (keys: ScopeKeys, state: SyncState): Promise<void> => safeStorage.setItem(keys.sync, JSON.stringify(state));
+
+export const getSyncConfig = async (): Promise<SyncConfig> => (await getSyncState()).config;
+
+export const getLastSyncedAt = async (): Promise<string | null> => (await getSyncState()).lastSyncedAt;
+
+/**
+ * The keys and owner a sync step works on, resolved once when it is requested
+ * so a profile or household switch midway cannot redirect its reads and writes.
+ */
+interface SyncScope {
+  keys: ScopeKeys;
+  owner: Promise<string>;
+}
+
+const currentScope = (): SyncScope => ({
+  keys: activeKeys(),
+  // getActiveProfile reads the active id before its first await
+  owner: getActiveProfile().then(profile => (profile?.email || 'local').trim().toLowerCase())
+});
+
+// Within a tab every state change goes through one queue, so revisions are
+// never read and bumped by two writers at once. Tabs share storage, so each
+// step also holds a Web Lock per household; browsers without the Locks API
+// only get the in-tab queue.
+let chain: Promise<unknown> = Promise.resolve();
+const serial = <T>(scope: SyncScope, task: () => Promise<T>): Promise<T> => {
+  const locked = async (): Promise<T> => typeof navigator !== 'undefined' && navigator.locks
+    ? await navigator.locks.request(`fridgesmart_sync:${scope.keys.sync}`, task)
+    : task();
+  const run = chain.then(locked, locked);
+  chain = run.catch(() => undefined);
+  return run;
+};
+
+// --- Outgoing ---
+
+const enqueue = async (keys: ScopeKeys, entity: SyncEntity, id: string, data: any | null, state: SyncState, deviceId: string, owner: string) => {
+  const wireId = PERSONAL_ENTITIES.includes(entity) ? `${owner}/${id}` : id;
+  const key = recordKey(entity, wireId);
+  const rev = (state.revs[key] || 0) + 1;
+  state.revs[key] = rev;
+  const change: SyncChange = { entity, id: wireId, rev, updatedAt: new Date().toISOString(), deviceId, deleted: data === null, data };
+  await safeStorage.putRecord<QueuedChange>(keys.syncQueue, { id: key, change });
+};
+
+const queueLocalChange = ({ entity, id, data }: LocalChange) => {
+  if (entity === 'user') return;
+  // The change belongs to the scope it was made in, not whichever is active once the queue gets to it
+  const scope = currentScope();
+  return serial(scope, async () => {
+    const state = await getSyncState(scope.keys);
+    if (!state.config.enabled) return;
+    await enqueue(scope.keys, entity, id, data, state, await getDeviceId(), await scope.owner);
+    await saveSyncState(scope.keys, state);
+    schedulePush();
+  });
+};
+
+/** Queues every local record, used when a device first joins a sync space. */
+const queueSnapshot = async (scope: SyncScope, state: SyncState) => {
+  const { keys } = scope;
+  const deviceId = await getDeviceId();
+  const owner = await scope.owner;
+  const [items, ledger, stats, mealPlan] = await Promise.all([
+    safeStorage.getRecords<FoodItem>(keys.inventory), getLedger(keys), getStats(keys), getMealPlan(keys)
+  ]);
+  for (const item of items) await enqueue(keys, 'inventory', item.id, item, state, deviceId, owner);
+  for (const event of ledger) await enqueue(keys, 'ledger', event.id, event, state, deviceId, owner);
+  // A device with no history would only overwrite real stats with defaults
+  if (ledger.length > 0) await enqueue(keys, 'stats', 'current', stats, state, deviceId, owner);
+  if (mealPlan) await enqueue(keys, 'mealPlan', 'current', mealPlan, state, deviceId, owner);
+  // Only a layout someone edited; untouched devices would push the defaults over it
+  const layout = await safeStorage.getItem(keys.locations);
+  if (layout) await enqueue(keys, 'locations', 'current', JSON.parse(layout), state, deviceId, owner);
+  const catalog = await safeStorage.getItem(keys.categories);
+  if (catalog) await enqueue(keys, 'categories', 'current', JSON.parse(catalog), state, deviceId, owner);
+};
+
+/**
+ * Saves the household's sync settings. Joining a different space (or turning
+ * sync on) starts from a clean cursor and uploads everything held locally.
+ */
+export const saveSyncConfig = (config: SyncConfig): Promise<void> => {
+  const scope = currentScope();
+  return serial(scope, async () => {
+    const state = await getSyncState(scope.keys);
+    const rejoin = config.enabled && (!state.config.enabled || config.space !== state.config.space || config.endpoint !== state.config.endpoint);
+    const next: SyncState = rejoin ? { ...defaultState(), config } : { ...state, config };
+    if (rejoin) {
+      await safeStorage.clearCollection(scope.keys.syncQueue);
+      await queueSnapshot(scope, next);
+    }
+    await saveSyncState(scope.keys, next);
+  }).then(() => runSync(scope));
+};
+
+// --- Incoming ---
+
+/** Writes server changes silently. Returns whether anything local changed. */
+const applyRemote = async (keys: ScopeKeys, changes: SyncChange[], state: SyncState, deviceId: string, owner: string): Promise<boolean> => {
+  let changed = false;
+  let restat = false;
+  for (const change of changes) {
+    const key = recordKey(change.entity, change.id);
+    // Our own writes come back in the feed; skip them unless something newer replaced them
+    if (change.deviceId === deviceId && change.rev <= (state.revs[key] || 0)) continue;
+    state.revs[key] = change.rev;
+
+    if (PERSONAL_ENTITIES.includes(change.entity)) {
+      const [changeOwner, ...rest] = change.id.split('/');
+      if (changeOwner !== owner) continue;
+      const id = rest.join('/');
+      if (change.entity === 'ledger') {
+        if (change.deleted) await safeStorage.deleteRecord(keys.ledger, id);
+        else await safeStorage.putRecord<LedgerEvent>(keys.ledger, change.data);
+      } else if (!change.deleted) {
+        await safeStorage.setItem(keys.stats, JSON.stringify(change.data));
+      }
+      restat = true;
+    } else if (change.entity === 'inventory') {
+      if (change.deleted) await safeStorage.deleteRecord(keys.inventory, change.id);
+      else await safeStorage.putRecord<FoodItem>(keys.inventory, change.data);
+    } else if (change.entity === 'mealPlan' || change.entity === 'locations' || change.entity === 'categories') {
+      if (change.deleted) await safeStorage.removeItem(keys[change.entity]);
+      else await safeStorage.setItem(keys[change.entity], JSON.stringify(change.data));
+    }
+    changed = true;
+  }
+  // Counters come from the merged ledger; only carried fields are taken from remote stats
+  if (restat) await rebuildStats(keys);
+  return changed;
+};
+
+// --- Cycle ---
+
+const endpointUrl = (config: SyncConfig) => `${config.endpoint.replace(/\/+$/, '')}/spaces/${encodeURIComponent(config.space)}/sync`;
+
+/** Groups the queue into pushes under both limits. An empty queue is one empty push, which only pulls. */
+const toBatches = (queued: QueuedChange[]): QueuedChange[][] => {
+  const batches: QueuedChange[][] = [];
+  let batch: QueuedChange[] = [];
+  let bytes = 0;
+  for (const q of queued) {
+    const size = JSON.stringify(q.change).length;
+    if (batch.length && (batch.length >= MAX_BATCH_CHANGES || bytes + size > MAX_BATCH_BYTES)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(q);
+    bytes += size;
+  }
+  if (batch.length || batches.length === 0) batches.push(batch);
+  return batches;
+};
+
+/**
+ * Pushes the offline queue in batches, pulling everything newer than the
+ * cursor with each one. Queued changes stay put until the server has
+ * acknowledged them; a batch the server finds too large is halved and sent
+ * again.
+ */
+const runSync = (scope: SyncScope): Promise<void> => serial(scope, async () => {
+  const { keys } = scope;
+  const state = await getSyncState(keys);
+  if (!state.config.enabled || !state.config.endpoint || !state.config.space) {
+    setStatus('disabled');
+    return;
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    setStatus('offline');
+    return;
+  }
+
+  setStatus('syncing');
+  const deviceId = await getDeviceId();
+  const owner = await scope.owner;
+  const pending = toBatches(await safeStorage.getRecords<QueuedChange>(keys.syncQueue));
+  let changed = false;
+  let failure: { status: SyncStatus, error?: string } | null = null;
+
+  while (pending.length && !failure) {
+    const batch = pending.shift()!;
+    let body: SyncResponse;
+    try {
+      const response = await fetch(endpointUrl(state.config), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deviceId, since: state.cursor, changes: batch.map(q => q.change) })
+      });
+      if (response.status === 413 && batch.length > 1) {
+        const half = Math.ceil(batch.length / 2);
+        pending.unshift(batch.slice(0, half), batch.slice(half));
+        continue;
+      }
+      if (!response.ok) {
+        failure = { status: 'error', error: response.status === 413 ? 'A change is too large for the sync server' : `Server answered ${response.status}` };
+        continue;
+      }
+      body = await response.json();
+    } catch (error) {
+      // Network failures leave the rest of the queue intact for the next attempt
+      failure = { status: 'offline' };
+      continue;
+    }
+
+    for (const q of batch) await safeStorage.deleteRecord(keys.syncQueue, q.id);
+    if (await applyRemote(keys, [...body.changes, ...(body.rejected || [])], state, deviceId, owner)) changed = true;
+    state.cursor = Math.max(state.cursor, body.cursor);
+    state.lastSyncedAt = new Date().toISOString();
+    await saveSyncState(keys, state);
+  }
+
+  setStatus(failure?.status ?? 'idle', failure?.error ?? null);
+  if (changed) remoteListeners.forEach(l => l());
+}).catch(error => {
+  console.error("Sync Failure:", error);
+  setStatus('error', error?.message || String(error));
+});
+
+export const syncNow = (): Promise<void> => runSync(currentScope());
+
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+const schedulePush = () => {
+  if (pushTimer) clearTimeout(pushTimer);
+  pushTimer = setTimeout(() => { pushTimer = null; syncNow(); }, PUSH_DELAY_MS);
+};
+
+/**
+ * Starts queueing local writes and syncing on an interval, on reconnect and
+ * shortly after each change. Returns a function that stops all of it.
+ */
+export const startSync = (): (() => void) => {
+  const unsubscribe = onLocalChange(queueLocalChange);
+  const handleOnline = () => syncNow();
+  window.addEventListener('online', handleOnline);
+  const interval = setInterval(() => syncNow(), POLL_INTERVAL_MS);
+  syncNow();
+  return () => {
+    unsubscribe();
+    window.removeEventListener('online', handleOnline);
+    clearInterval(interval);
+    if (pushTimer) { clearTimeout(pushTimer); pushTimer = null; }
+  };
+};
@@ -0,0 +1,72 @@
+
+import { activeKeys, onLocalChange, ChangeEntity } from './storageService';
+import { onRemoteChanges } from './syncService';
+
+const CHANNEL_NAME = 'fridgesmart_tabs';
+// Fallback transport for browsers without BroadcastChannel: writing a key
+// fires a `storage` event in every other tab of the same origin.
+const PING_KEY = 'fridgesmart_tab_ping';
+const REFRESH_DELAY_MS = 100;
+
+interface TabMessage {
+  tabId: string;
+  entity: ChangeEntity | 'remote'; // 'remote': this tab pulled changes from the sync server
+  inventoryKey: string;
+  userKey: string;
+}
+
+const tabId = `tab-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Other tabs may be signed in to another profile or household; only their
+// writes to the scope this tab shows matter.
+const isRelevant = (message: TabMessage) => {
+  const keys = activeKeys();
+  return message.tabId !== tabId && (message.inventoryKey === keys.inventory || message.userKey === keys.user);
+};
+
+/**
+ * Tells other open tabs about every write this tab makes and calls `onChange`
+ * (debounced, with the entities touched) when another tab writes. Returns a
+ * function that stops listening.
+ */
+export const startTabSync = (onChange: (entities: Set<ChangeEntity | 'remote'>) => void): (() => void) => {
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  let pending = new Set<ChangeEntity | 'remote'>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const receive = (message: TabMessage) => {
+    if (!isRelevant(message)) return;
+    pending.add(message.entity);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      const entities = pending;
+      pending = new Set();
+      timer = null;
+      onChange(entities);
+    }, REFRESH_DELAY_MS);
+  };
+
+  const post = (entity: TabMessage['entity']) => {
+    const keys = activeKeys();
+    const message: TabMessage = { tabId, entity, inventoryKey: keys.inventory, userKey: keys.user };
+    if (channel) channel.postMessage(message);
+    else if (typeof localStorage !== 'undefined') localStorage.setItem(PING_KEY, JSON.stringify({ ...message, sentAt: Date.now() }));
+  };
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === PING_KEY && e.newValue) receive(JSON.parse(e.newValue));
+  };
+
+  if (channel) channel.onmessage = (e: MessageEvent<TabMessage>) => receive(e.data);
+  else window.addEventListener('storage', handleStorage);
+  const offLocal = onLocalChange(change => post(change.entity));
+  const offRemote = onRemoteChanges(() => post('remote'));
+
+  return () => {
+    offLocal();
+    offRemote();
+    if (timer) clearTimeout(timer);
+    if (channel) channel.close();
+    else window.removeEventListener('storage', handleStorage);
+  };
+};
@@ -1,5 +1,8 @@
 
-export type StorageLocation = 'Fridge' | 'Freezer' | 'Pantry';
+// Id of one of the household's storage locations. The built-in Fridge, Freezer
+// and Pantry use their names as ids, so items saved before custom locations
+// existed still point at them.
+export type StorageLocation = string;
 export type AppScale = 'small' | 'medium' | 'large';
 export type TempUnit = 'Celsius' | 'Fahrenheit';
 export type DistUnit = 'km' | 'miles';
@@ -18,12 +21,16 @@ export type Category =
 export interface FoodItem {
   id: string;
   name: string;
-  category: Category;
+  category: Category; // Always the base category, also for items in a custom one
+  customCategory?: string; // Id of one of the household's own categories
+  tags?: string[]; // Lower-case, e.g. "kids" or "meal-prep"
+  barcode?: string; // EAN-13 or EAN-8, UPC-A codes stored with a leading 0
   expiryDate: string;
   quantity: number;
   unit: string;
   storageLocation: StorageLocation;
   addedDate: string;
+  openedDate?: string; // YYYY-MM-DD; unset while the item is still sealed
   imageUrl?: string;
   notes?: string;
   storageTip?: string;
@@ -31,6 +38,44 @@ export interface FoodItem {
   mouldDetected?: boolean;
   calories?: number;
   estimatedPrice?: number; // Realistic unit price found via Search
+  portionLeft?: number; // Share of the item left after partial use; whole (1) when unset
+  // Separate purchases of the same thing. When set, quantity, expiryDate and
+  // estimatedPrice above summarise the lots (total, soonest, average).
+  lots?: FoodLot[];
+}
+
+export interface FoodLot {
+  id: string;
+  quantity: number;
+  expiryDate: string;
+  addedDate: string;
+  estimatedPrice?: number;
+}
+
+// How a location keeps food, which decides the shelf-life rules that apply
+export type LocationType = 'chilled' | 'frozen' | 'ambient';
+
+export interface UserLocation {
+  id: StorageLocation;
+  name: string;
+  type: LocationType;
+}
+
+// A household's storage locations, in tab order
+export interface StorageLayout {
+  locations: UserLocation[];
+}
+
+// A finer category such as "Fish" or "Pet Food". Stats and CO2 estimates use
+// the base category it belongs to.
+export interface UserCategory {
+  id: string;
+  name: string;
+  base: Category;
+}
+
+export interface CategoryCatalog {
+  categories: UserCategory[];
 }
 
 export interface UserProfile {
@@ -49,6 +94,27 @@ export interface UserProfile {
   hasSeenOnboarding: boolean;
 }
 
+export interface LocalProfile {
+  id: string;
+  name: string;
+  email: string;
+  householdIds: string[];
+  activeHouseholdId: string;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  createdDate: string;
+}
+
+// Device-wide index of who and which homes have data on this device
+export interface DeviceRegistry {
+  profiles: LocalProfile[];
+  households: Household[];
+  activeProfileId: string | null;
+}
+
 export interface UserStats {
   rescued: number;
   wasted: number;
@@ -67,6 +133,100 @@ export interface UserStats {
   unlockedBadges: string[];
 }
 
+export type LedgerAction = 'added' | 'edited' | 'consumed' | 'tossed' | 'composted' | 'baseline' | 'void';
+
+// What an event keeps of its item: enough to score and search it, without the
+// photo or lot list that would bloat a ledger that only grows
+export type LedgerItemSnapshot = Omit<FoodItem, 'imageUrl' | 'lots'>;
+
+export interface LedgerEvent {
+  id: string;
+  action: LedgerAction;
+  timestamp: string;
+  itemId?: string;
+  item?: LedgerItemSnapshot; // Snapshot of the item at the time of the event
+  quantity: number;
+  share?: number; // How much of one item this event accounts for; 1 when unset
+  actionId?: string; // Shared by the events one action records, e.g. one per lot drawn from
+  value: number; // quantity × unit price at the time of the event
+  baseline?: Partial<UserStats>; // Opening balance carried over from pre-ledger counters
+  targetEventId?: string; // Event cancelled by a 'void' entry
+}
+
+// Ledger events travel with stats so every device derives the same numbers
+export type SyncEntity = 'inventory' | 'stats' | 'ledger' | 'mealPlan' | 'locations' | 'categories';
+
+export interface SyncChange {
+  entity: SyncEntity;
+  id: string;
+  rev: number; // Bumped on every write to the record, on any device
+  updatedAt: string;
+  deviceId: string;
+  deleted: boolean; // Tombstone: the record was removed and `data` is null
+  data: any | null;
+  seq?: number; // Server-assigned position in the change feed
+}
+
+export interface SyncConfig {
+  enabled: boolean;
+  endpoint: string;
+  space: string; // Shared code that devices in the same household sync under
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+// Persisted types checked by schemaService when read back from storage
+export type PersistedEntity = 'inventory' | 'user' | 'stats' | 'mealPlan' | 'ledger' | 'locations' | 'categories';
+
+// A stored value that failed validation, set aside instead of deleted
+export interface QuarantineEntry {
+  id: string;
+  entity: PersistedEntity;
+  source: string; // Storage key or collection the value was taken from
+  raw: string; // The value exactly as it was stored
+  errors: string[];
+  quarantinedAt: string;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  leadDays: number; // Alert this many days before the effective expiry
+  digestEnabled: boolean;
+  digestTime: string; // HH:MM, local time
+  quietStart: string; // HH:MM; nothing is shown from here...
+  quietEnd: string; // ...until here, wrapping past midnight
+}
+
+// Urgency bands shown by ExpiryBadge, from the days left until expiry
+export type ExpiryBand = 'expired' | 'today' | 'soon' | 'week' | 'fresh';
+
+export type InventorySort = 'expiry' | 'name' | 'value' | 'added';
+
+export interface InventoryViewState {
+  location: StorageLocation;
+  search: string; // Matched against name, brand and notes
+  categories: string[]; // Base categories or custom category ids; empty means all
+  tags: string[]; // Items with any of these; empty means all
+  bands: ExpiryBand[]; // Empty means all
+  mouldOnly: boolean;
+  sort: InventorySort;
+  groupByCategory: boolean;
+}
+
+// What a multi-select action does to every selected item
+export type BulkOperation =
+  | { kind: 'consumed' | 'tossed' | 'composted' }
+  | { kind: 'move', location: StorageLocation }
+  | { kind: 'category', category: Category, customCategory?: string }
+  | { kind: 'delete' };
+
+export interface CalendarExportSettings {
+  excludedLocations: StorageLocation[]; // Locations added later are included until excluded
+  categories: Category[];
+  includeMealPlan: boolean;
+  reminderDays: number; // Reminder fires at 09:00 this many days before expiry
+}
+
 export interface CommunityPost {
   id: string;
   author: string;
@@ -143,6 +303,32 @@ export interface ScanResult {
   mouldDetected: boolean;
   calories?: number;
   estimatedPrice?: number;
+  barcode?: string;
+  catalogueMatch?: boolean; // Filled in from the product catalogue, not by the AI
+  warnings?: string[]; // What was corrected in the AI's answer, shown for review
+  box?: ScanBox; // Shelf scans only: where the item is in the photo
+}
+
+// Fractions of the photo's width and height, from its top-left corner
+export interface ScanBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A packaged product known by its barcode, from an imported database dump or
+// learned from the user's own confirmed scans
+export interface CatalogueProduct {
+  id: string; // The normalised barcode
+  name: string;
+  brand?: string;
+  category: Category;
+  shelfLifeDays?: number; // Typical days from purchase, sealed
+  calories?: number;
+  storageLocation?: StorageLocation; // Where the user kept it last time
+  source: 'import' | 'scan';
+  updatedAt: string;
 }
 
 export interface ChatMessage {
@@ -150,3 +336,36 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
 }
+
+export type LookupKind = 'price' | 'calories';
+
+export interface LookupValue {
+  value: number;
+  source: 'model' | 'user'; // A user correction wins over any estimate and never expires
+  updatedAt: string;
+}
+
+// Estimates for one item name in one country, so "Milk" is looked up once
+export interface LookupCacheEntry {
+  id: string; // `${country}:${normalised name}`
+  name: string; // As first typed, for display
+  country: string;
+  price?: LookupValue;
+  calories?: LookupValue;
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+// What a model is used for; each provider maps these to its own model ids
+export type AiModelRole = 'fast' | 'complex' | 'vision' | 'tts' | 'live';
+
+export interface AiProviderSettings {
+  models: Record<AiModelRole, string>;
+  baseUrl?: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey?: string; // OpenAI-compatible servers only; Gemini uses the AI Studio key
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  providers: Record<AiProviderId, AiProviderSettings>;
+}